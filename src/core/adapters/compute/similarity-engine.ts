@@ -0,0 +1,161 @@
+/**
+ * SimilarityEngine
+ * 정규화된 벡터 행렬 위의 유사도 계산 커널
+ *
+ * 워커와 동기 폴백이 같은 코드를 실행하도록 createSimilarityEngine은 자기완결적이어야 함:
+ * 바깥 스코프(import, 모듈 상수)를 참조하지 않고, 워커 소스로 직렬화(toString)됨
+ */
+
+/**
+ * 단일 질의 결과 (최소 유사도 이상인 행, topK는 유사도 내림차순)
+ */
+export interface SimilarityQueryResult {
+  indices: Int32Array;
+  similarities: Float64Array;
+}
+
+/**
+ * 블록 쌍 탐색 결과 (a는 rows, b는 cols 안의 위치, 같은 그룹은 제외)
+ */
+export interface SimilarityPairsResult {
+  a: Int32Array;
+  b: Int32Array;
+  similarities: Float64Array;
+}
+
+/**
+ * 블록 rows × cols (행렬 행 번호 목록)
+ * 그룹이 있으면 같은 그룹 쌍은 제외 (rows/cols와 같은 순서)
+ */
+export interface SimilarityBlock {
+  rows: Int32Array;
+  cols: Int32Array;
+  rowGroups: Int32Array | null;
+  colGroups: Int32Array | null;
+  /** rows와 cols가 같은 목록이면 위치 a < b인 쌍만 */
+  diagonal: boolean;
+}
+
+export interface SimilarityEngine {
+  load(matrix: Float64Array, dimension: number): number;
+  /** 최소 유사도 이상인 행 (rows가 있으면 그 행들 중에서만) */
+  query(vector: Float64Array, minSimilarity: number, rows: Int32Array | null): SimilarityQueryResult;
+  /** 최소 유사도 이상인 행 중 가장 가까운 k개 (rows가 있으면 그 행들 중에서만) */
+  topK(vector: Float64Array, k: number, minSimilarity: number, rows: Int32Array | null): SimilarityQueryResult;
+  pairs(block: SimilarityBlock, minSimilarity: number): SimilarityPairsResult;
+}
+
+export function createSimilarityEngine(): SimilarityEngine {
+  let matrix: Float64Array = new Float64Array(0);
+  let dimension = 0;
+  let count = 0;
+
+  return {
+    load(nextMatrix, nextDimension) {
+      matrix = nextMatrix;
+      dimension = nextDimension;
+      count = nextDimension > 0 ? nextMatrix.length / nextDimension : 0;
+      return count;
+    },
+
+    query(vector, minSimilarity, rows) {
+      let norm = 0;
+      for (let d = 0; d < dimension; d++) {
+        norm += vector[d] * vector[d];
+      }
+      norm = Math.sqrt(norm);
+
+      const indices: number[] = [];
+      const similarities: number[] = [];
+      if (norm === 0 || vector.length !== dimension) {
+        return { indices: new Int32Array(0), similarities: new Float64Array(0) };
+      }
+
+      const total = rows ? rows.length : count;
+      for (let r = 0; r < total; r++) {
+        const row = rows ? rows[r] : r;
+        const offset = row * dimension;
+        let dot = 0;
+        for (let d = 0; d < dimension; d++) {
+          dot += matrix[offset + d] * vector[d];
+        }
+        const similarity = dot / norm;
+        if (similarity >= minSimilarity) {
+          indices.push(row);
+          similarities.push(similarity);
+        }
+      }
+
+      return { indices: new Int32Array(indices), similarities: new Float64Array(similarities) };
+    },
+
+    topK(vector, k, minSimilarity, rows) {
+      let norm = 0;
+      for (let d = 0; d < dimension; d++) {
+        norm += vector[d] * vector[d];
+      }
+      norm = Math.sqrt(norm);
+
+      // 유사도 내림차순으로 유지하는 상위 k개 (k가 작으므로 삽입 정렬)
+      const indices: number[] = [];
+      const similarities: number[] = [];
+      if (norm === 0 || vector.length !== dimension || k <= 0) {
+        return { indices: new Int32Array(0), similarities: new Float64Array(0) };
+      }
+
+      const total = rows ? rows.length : count;
+      for (let r = 0; r < total; r++) {
+        const row = rows ? rows[r] : r;
+        const offset = row * dimension;
+        let dot = 0;
+        for (let d = 0; d < dimension; d++) {
+          dot += matrix[offset + d] * vector[d];
+        }
+        const similarity = dot / norm;
+        if (similarity < minSimilarity) continue;
+        if (similarities.length === k && similarity <= similarities[k - 1]) continue;
+
+        let position = similarities.length;
+        while (position > 0 && similarities[position - 1] < similarity) {
+          position--;
+        }
+        indices.splice(position, 0, row);
+        similarities.splice(position, 0, similarity);
+        if (similarities.length > k) {
+          indices.pop();
+          similarities.pop();
+        }
+      }
+
+      return { indices: new Int32Array(indices), similarities: new Float64Array(similarities) };
+    },
+
+    pairs(block, minSimilarity) {
+      const a: number[] = [];
+      const b: number[] = [];
+      const similarities: number[] = [];
+
+      const { rows, cols, rowGroups, colGroups } = block;
+
+      for (let p = 0; p < rows.length; p++) {
+        const iOffset = rows[p] * dimension;
+        for (let q = block.diagonal ? p + 1 : 0; q < cols.length; q++) {
+          if (rowGroups && colGroups && rowGroups[p] === colGroups[q]) continue;
+
+          const jOffset = cols[q] * dimension;
+          let dot = 0;
+          for (let d = 0; d < dimension; d++) {
+            dot += matrix[iOffset + d] * matrix[jOffset + d];
+          }
+          if (dot >= minSimilarity) {
+            a.push(p);
+            b.push(q);
+            similarities.push(dot);
+          }
+        }
+      }
+
+      return { a: new Int32Array(a), b: new Int32Array(b), similarities: new Float64Array(similarities) };
+    },
+  };
+}
@@ -0,0 +1,407 @@
+/**
+ * SimilarityWorker
+ * 유사도 계산을 Web Worker로 옮겨 UI 스레드가 멈추지 않게 하는 클라이언트
+ *
+ * 메시지 프로토콜 (dataset = 데이터셋 번호, 여러 데이터셋을 동시에 유지):
+ * - load:   { id, dataset, matrix, dimension }        → { id, result: count }  (matrix는 transfer)
+ * - unload: { id, dataset }                           → { id }
+ * - query:  { id, dataset, vector, minSimilarity, rows } → { id, result }      (결과 버퍼는 transfer)
+ * - topK:   { id, dataset, vector, k, minSimilarity, rows } → { id, result }
+ * - pairs:  { id, dataset, block, minSimilarity }     → { id, result }
+ * - 실패 시 { id, error }
+ *
+ * 요청마다 데이터셋 번호를 지정하므로 여러 탐색이 동시에 진행돼도 서로의 행렬을 덮어쓰지 않음
+ * 워커를 만들 수 없거나 실행 중 오류가 나면 같은 엔진을 UI 스레드에서 동기 실행 (결과 동일)
+ */
+
+import {
+  createSimilarityEngine,
+  type SimilarityBlock,
+  type SimilarityEngine,
+  type SimilarityPairsResult,
+  type SimilarityQueryResult,
+} from './similarity-engine';
+
+/**
+ * 동시에 유지할 최대 데이터셋 수 (오래 안 쓴 것부터 해제, 해제된 데이터셋은 다음 요청 때 다시 적재)
+ */
+const MAX_RESIDENT_DATASETS = 3;
+
+/**
+ * 적재할 행렬 (정규화된 row-major Float64)
+ */
+export interface SimilarityDataset {
+  matrix: Float64Array;
+  dimension: number;
+  /** 행별 ID (행렬 행 순서) */
+  rowIds: string[];
+}
+
+/**
+ * 적재된 데이터셋 핸들 (탐색 하나가 끝날 때까지 같은 핸들로 요청)
+ */
+export interface SimilarityDatasetHandle {
+  readonly key: string;
+  /** 행별 ID (결과의 행 번호 → ID) */
+  readonly rowIds: readonly string[];
+}
+
+interface ResidentDataset extends SimilarityDatasetHandle {
+  /** 워커 쪽 데이터셋 번호 */
+  id: number;
+  /** 재적재용 빌더 (해제 후 다시 쓰이거나 워커 실패 시 동기 엔진에 적재) */
+  build: () => SimilarityDataset;
+  /** 동기 엔진 (워커를 못 쓸 때만 생성) */
+  syncEngine: SimilarityEngine | null;
+}
+
+type WorkerRequest =
+  | { type: 'load'; id: number; dataset: number; matrix: Float64Array; dimension: number }
+  | { type: 'unload'; id: number; dataset: number }
+  | {
+      type: 'query';
+      id: number;
+      dataset: number;
+      vector: Float64Array;
+      minSimilarity: number;
+      rows: Int32Array | null;
+    }
+  | {
+      type: 'topK';
+      id: number;
+      dataset: number;
+      vector: Float64Array;
+      k: number;
+      minSimilarity: number;
+      rows: Int32Array | null;
+    }
+  | { type: 'pairs'; id: number; dataset: number; block: SimilarityBlock; minSimilarity: number };
+
+interface WorkerResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+}
+
+/**
+ * 워커 진입점 (직렬화되어 워커에서 실행됨 - 바깥 스코프 참조 금지)
+ */
+function workerMain(createEngine: () => SimilarityEngine): void {
+  const scope = self as unknown as WorkerScope;
+  const engines = new Map<number, SimilarityEngine>();
+
+  const getEngine = (dataset: number): SimilarityEngine => {
+    const engine = engines.get(dataset);
+    if (!engine) throw new Error(`Dataset ${dataset} is not loaded`);
+    return engine;
+  };
+
+  scope.onmessage = (event) => {
+    const request = event.data;
+    try {
+      if (request.type === 'load') {
+        const engine = createEngine();
+        const count = engine.load(request.matrix, request.dimension);
+        engines.set(request.dataset, engine);
+        scope.postMessage({ id: request.id, result: count });
+      } else if (request.type === 'unload') {
+        engines.delete(request.dataset);
+        scope.postMessage({ id: request.id });
+      } else if (request.type === 'query') {
+        const result = getEngine(request.dataset).query(request.vector, request.minSimilarity, request.rows);
+        scope.postMessage({ id: request.id, result }, [result.indices.buffer, result.similarities.buffer]);
+      } else if (request.type === 'topK') {
+        const result = getEngine(request.dataset).topK(request.vector, request.k, request.minSimilarity, request.rows);
+        scope.postMessage({ id: request.id, result }, [result.indices.buffer, result.similarities.buffer]);
+      } else if (request.type === 'pairs') {
+        const result = getEngine(request.dataset).pairs(request.block, request.minSimilarity);
+        scope.postMessage({ id: request.id, result }, [result.a.buffer, result.b.buffer, result.similarities.buffer]);
+      }
+    } catch (error) {
+      scope.postMessage({ id: request.id, error: String(error) });
+    }
+  };
+}
+
+export class SimilarityWorker {
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private nextId = 0;
+  private nextDatasetId = 0;
+  private pending: Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }> = new Map();
+
+  /** 적재된 데이터셋 (키 → 데이터셋, 오래 안 쓴 순) */
+  private datasets: Map<string, ResidentDataset> = new Map();
+
+  constructor() {
+    this.worker = this.createWorker();
+    if (!this.worker) {
+      console.log('[CDC] Web Workers unavailable, computing similarities on the main thread');
+    }
+  }
+
+  /**
+   * 워커 사용 여부
+   */
+  get usesWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  /**
+   * 키에 해당하는 데이터셋 핸들 (없으면 만들어 적재)
+   * 키가 같으면 내용도 같아야 함, 행렬 버퍼는 워커로 transfer되므로 빌더는 매번 새 버퍼를 만들어야 함
+   */
+  async ensureLoaded(key: string, build: () => SimilarityDataset): Promise<SimilarityDatasetHandle> {
+    const existing = this.datasets.get(key);
+    if (existing) {
+      void this.activate(existing);
+      return existing;
+    }
+
+    const initial = build();
+    const dataset: ResidentDataset = {
+      key,
+      rowIds: initial.rowIds,
+      id: ++this.nextDatasetId,
+      build,
+      syncEngine: null,
+    };
+    try {
+      await this.activate(dataset, initial);
+    } catch (error) {
+      this.handleWorkerFailure(error);
+    }
+    return dataset;
+  }
+
+  /**
+   * 질의 벡터와 최소 유사도 이상인 행 찾기
+   * rows가 있으면 그 행들 중에서만 찾음
+   */
+  async query(
+    handle: SimilarityDatasetHandle,
+    vector: ArrayLike<number>,
+    minSimilarity: number,
+    rows: Int32Array | null = null
+  ): Promise<SimilarityQueryResult> {
+    const dataset = this.resolve(handle);
+    if (this.worker) {
+      try {
+        const buffer = Float64Array.from(vector);
+        return await this.post(
+          { type: 'query', id: 0, dataset: dataset.id, vector: buffer, minSimilarity, rows },
+          [buffer.buffer]
+        ) as SimilarityQueryResult;
+      } catch (error) {
+        this.handleWorkerFailure(error);
+      }
+    }
+    return this.getSyncEngine(dataset).query(Float64Array.from(vector), minSimilarity, rows);
+  }
+
+  /**
+   * 질의 벡터와 가장 가까운 k개 행 (최소 유사도 이상, 유사도 내림차순)
+   * rows가 있으면 그 행들 중에서만 찾음
+   */
+  async topK(
+    handle: SimilarityDatasetHandle,
+    vector: ArrayLike<number>,
+    k: number,
+    minSimilarity: number,
+    rows: Int32Array | null = null
+  ): Promise<SimilarityQueryResult> {
+    const dataset = this.resolve(handle);
+    if (this.worker) {
+      try {
+        const buffer = Float64Array.from(vector);
+        return await this.post(
+          { type: 'topK', id: 0, dataset: dataset.id, vector: buffer, k, minSimilarity, rows },
+          [buffer.buffer]
+        ) as SimilarityQueryResult;
+      } catch (error) {
+        this.handleWorkerFailure(error);
+      }
+    }
+    return this.getSyncEngine(dataset).topK(Float64Array.from(vector), k, minSimilarity, rows);
+  }
+
+  /**
+   * 블록 안에서 최소 유사도 이상인 쌍 찾기
+   */
+  async pairs(
+    handle: SimilarityDatasetHandle,
+    block: SimilarityBlock,
+    minSimilarity: number
+  ): Promise<SimilarityPairsResult> {
+    const dataset = this.resolve(handle);
+    if (this.worker) {
+      try {
+        return await this.post(
+          { type: 'pairs', id: 0, dataset: dataset.id, block, minSimilarity },
+          []
+        ) as SimilarityPairsResult;
+      } catch (error) {
+        this.handleWorkerFailure(error);
+      }
+    }
+    return this.getSyncEngine(dataset).pairs(block, minSimilarity);
+  }
+
+  /**
+   * 워커 종료 (플러그인 언로드 시)
+   */
+  terminate(): void {
+    this.disableWorker(new Error('Similarity worker terminated'));
+    for (const dataset of this.datasets.values()) {
+      dataset.syncEngine = null;
+    }
+    this.datasets.clear();
+  }
+
+  private handleWorkerFailure(error: unknown): void {
+    console.error('[CDC] Similarity worker failed, falling back to main thread:', error);
+    this.disableWorker(error instanceof Error ? error : new Error(String(error)));
+  }
+
+  /**
+   * 핸들의 데이터셋을 적재 상태로 (해제됐으면 다시 적재 요청)
+   * 적재 요청을 질의보다 먼저 보내므로 워커에서도 순서대로 처리됨
+   */
+  private resolve(handle: SimilarityDatasetHandle): ResidentDataset {
+    const dataset = handle as ResidentDataset;
+    this.activate(dataset).catch(() => {
+      // 적재 실패는 뒤따르는 요청의 실패로 처리됨
+    });
+    return dataset;
+  }
+
+  /**
+   * 데이터셋을 가장 최근 사용으로 표시하고, 적재되어 있지 않으면 적재
+   * 최대 수를 넘으면 오래 안 쓴 데이터셋부터 해제
+   */
+  private activate(dataset: ResidentDataset, initial?: SimilarityDataset): Promise<void> {
+    const current = this.datasets.get(dataset.key);
+    this.datasets.delete(dataset.key);
+    this.datasets.set(dataset.key, dataset);
+    if (current === dataset) return Promise.resolve();
+
+    if (current) this.release(current);
+    for (const oldest of this.datasets.values()) {
+      if (this.datasets.size <= MAX_RESIDENT_DATASETS) break;
+      this.release(oldest);
+    }
+
+    if (!this.worker) {
+      if (initial) this.loadSyncEngine(dataset, initial);
+      return Promise.resolve();
+    }
+
+    const { matrix, dimension } = initial ?? dataset.build();
+    return this.post(
+      { type: 'load', id: 0, dataset: dataset.id, matrix, dimension },
+      [matrix.buffer]
+    ).then(() => undefined);
+  }
+
+  /**
+   * 데이터셋 해제 (핸들은 유지되므로 다시 쓰이면 재적재)
+   */
+  private release(dataset: ResidentDataset): void {
+    if (this.datasets.get(dataset.key) === dataset) {
+      this.datasets.delete(dataset.key);
+    }
+    dataset.syncEngine = null;
+    if (this.worker) {
+      this.post({ type: 'unload', id: 0, dataset: dataset.id }, []).catch(() => {
+        // 워커가 종료되면 데이터셋도 함께 사라짐
+      });
+    }
+  }
+
+  /**
+   * 동기 엔진 (필요하면 데이터셋을 새로 만들어 적재)
+   */
+  private getSyncEngine(dataset: ResidentDataset): SimilarityEngine {
+    return dataset.syncEngine ?? this.loadSyncEngine(dataset, dataset.build());
+  }
+
+  private loadSyncEngine(dataset: ResidentDataset, data: SimilarityDataset): SimilarityEngine {
+    const engine = createSimilarityEngine();
+    engine.load(data.matrix, data.dimension);
+    dataset.syncEngine = engine;
+    return engine;
+  }
+
+  private post(request: WorkerRequest, transfer: Transferable[]): Promise<unknown> {
+    const worker = this.worker;
+    if (!worker) {
+      return Promise.reject(new Error('Similarity worker unavailable'));
+    }
+
+    const id = ++this.nextId;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ ...request, id }, transfer);
+    });
+  }
+
+  private createWorker(): Worker | null {
+    if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL === 'undefined') {
+      return null;
+    }
+
+    try {
+      const source = `(${workerMain.toString()})(${createSimilarityEngine.toString()});`;
+      this.workerUrl = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+      const worker = new Worker(this.workerUrl);
+
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const { id, result, error } = event.data;
+        const request = this.pending.get(id);
+        if (!request) return;
+        this.pending.delete(id);
+        if (error) {
+          request.reject(new Error(error));
+        } else {
+          request.resolve(result);
+        }
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        this.disableWorker(new Error(event.message || 'Similarity worker error'));
+      };
+
+      return worker;
+    } catch (error) {
+      console.warn('[CDC] Failed to start similarity worker:', error);
+      this.revokeWorkerUrl();
+      return null;
+    }
+  }
+
+  /**
+   * 워커를 끄고 대기 중인 요청 모두 실패 처리 (이후 동기 실행)
+   */
+  private disableWorker(reason: Error): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.revokeWorkerUrl();
+
+    for (const request of this.pending.values()) {
+      request.reject(reason);
+    }
+    this.pending.clear();
+  }
+
+  private revokeWorkerUrl(): void {
+    if (this.workerUrl) {
+      URL.revokeObjectURL(this.workerUrl);
+      this.workerUrl = null;
+    }
+  }
+}
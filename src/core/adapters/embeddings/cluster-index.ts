@@ -0,0 +1,353 @@
+/**
+ * ClusterIndex
+ * 임베딩 군집화 결과(클러스터 중심, 노트별 할당, 라벨)를 유지하고 플러그인 폴더에 영구 저장
+ *
+ * - 클러스터가 없거나 설정한 k/차원이 바뀌었거나 노트의 25% 이상이 바뀌면 전체 재군집화
+ * - 그 외에는 updatedAt이 바뀐 노트만 가장 가까운 중심에 재할당 (증분 갱신)
+ * - 할당이 바뀌면 구성 노트의 태그/제목으로 라벨을 다시 만듦
+ */
+
+import { normalizePath, type Vault } from 'obsidian';
+import type { NoteEmbedding } from './vault-embeddings-reader';
+import { toNormalizedFloat32 } from '../../domain/utils/vector-math';
+import { chooseClusterCount, nearestCentroid, sphericalKMeans } from '../../domain/utils/kmeans';
+import { labelClusters, type ClusterMember } from '../../domain/utils/cluster-labels';
+import { simpleHash } from '../../domain/utils/note-id';
+
+const INDEX_VERSION = 1;
+const MIN_NOTES_FOR_CLUSTERING = 10;
+const MIN_AUTO_CLUSTERS = 2;
+const MAX_AUTO_CLUSTERS = 40;
+const RECLUSTER_CHANGE_RATIO = 0.25;   // 빌드 이후 바뀐 노트 비율이 이 이상이면 전체 재군집화
+
+/**
+ * 노트가 속한 클러스터
+ */
+export interface ClusterRef {
+  id: number;
+  /** 키워드 기반 라벨 (구성이 바뀌면 달라질 수 있음) */
+  label: string;
+  /** 구성 노트 해시 (구성이 같으면 같은 값) */
+  memberHash: string;
+}
+
+/**
+ * 클러스터 요약
+ */
+export interface ClusterSummary extends ClusterRef {
+  size: number;
+}
+
+/**
+ * 노트 제목/태그 조회 (라벨 생성용)
+ */
+export type ClusterMemberLookup = (noteId: string) => ClusterMember | null;
+
+/**
+ * 영구 저장 구조
+ */
+interface PersistedClusterIndex {
+  version: number;
+  dimension: number;
+  requestedK: number;
+  builtSize: number;
+  changedSinceBuild: number;
+  centroids: number[][];
+  labels: string[];
+  entries: Record<string, { cluster: number; updatedAt: string }>;
+}
+
+export class ClusterIndex {
+  private dimension = 0;
+  private requestedK = 0;
+  private builtSize = 0;
+  /** 마지막 전체 군집화 이후 재할당/추가/삭제된 노트 수 */
+  private changedSinceBuild = 0;
+  private centroids: Float32Array[] = [];
+  private labels: string[] = [];
+  private entries: Map<string, { cluster: number; updatedAt: string }> = new Map();
+  /** 클러스터별 구성 노트 해시 (할당이 바뀌면 폐기) */
+  private memberHashes: string[] | null = null;
+  private loaded = false;
+
+  constructor(
+    private vault: Vault,
+    private indexPath: string
+  ) {}
+
+  /**
+   * 임베딩 목록과 동기화
+   * @param clusterCount 클러스터 수 (0이면 자동 선택)
+   * @param describe 라벨 생성용 노트 정보 조회
+   * @param excludeLabelTerms 라벨에서 제외할 용어
+   */
+  async sync(
+    embeddings: Map<string, NoteEmbedding>,
+    clusterCount: number,
+    describe: ClusterMemberLookup,
+    excludeLabelTerms: string[] = []
+  ): Promise<void> {
+    await this.ensureLoaded();
+
+    const dimension = this.detectDimension(embeddings);
+    if (dimension === 0) {
+      if (this.entries.size > 0) {
+        this.reset();
+        await this.save();
+      }
+      return;
+    }
+
+    if (this.needsRebuild(dimension, clusterCount)) {
+      await this.build(embeddings, dimension, clusterCount);
+      this.relabel(describe, excludeLabelTerms);
+      await this.save();
+      return;
+    }
+
+    let changed = false;
+    for (const [noteId, emb] of embeddings) {
+      if (emb.embedding.length !== this.dimension) continue;
+      const entry = this.entries.get(noteId);
+      if (entry && entry.updatedAt === emb.updatedAt) continue;
+
+      const { index } = nearestCentroid(toNormalizedFloat32(emb.embedding), this.centroids);
+      this.entries.set(noteId, { cluster: index, updatedAt: emb.updatedAt });
+      this.changedSinceBuild++;
+      changed = true;
+    }
+
+    for (const noteId of Array.from(this.entries.keys())) {
+      if (!embeddings.has(noteId)) {
+        this.entries.delete(noteId);
+        this.changedSinceBuild++;
+        changed = true;
+      }
+    }
+
+    if (this.changedSinceBuild >= this.builtSize * RECLUSTER_CHANGE_RATIO) {
+      console.log(`[CDC] ${this.changedSinceBuild} notes changed since clustering, re-clustering`);
+      await this.build(embeddings, dimension, clusterCount);
+      changed = true;
+    }
+
+    if (changed) {
+      this.memberHashes = null;
+      this.relabel(describe, excludeLabelTerms);
+      await this.save();
+    }
+  }
+
+  /**
+   * 강제 재군집화
+   */
+  async rebuild(
+    embeddings: Map<string, NoteEmbedding>,
+    clusterCount: number,
+    describe: ClusterMemberLookup,
+    excludeLabelTerms: string[] = []
+  ): Promise<void> {
+    this.loaded = true;
+    this.reset();
+    await this.sync(embeddings, clusterCount, describe, excludeLabelTerms);
+  }
+
+  /**
+   * 노트가 속한 클러스터 (할당이 없으면 null)
+   */
+  getNoteCluster(noteId: string): ClusterRef | null {
+    const entry = this.entries.get(noteId);
+    const label = entry ? this.labels[entry.cluster] : undefined;
+    if (!entry || label === undefined) return null;
+    return { id: entry.cluster, label, memberHash: this.getMemberHashes()[entry.cluster] };
+  }
+
+  /**
+   * 클러스터에 속한 노트 ID
+   */
+  getMembers(clusterId: number): string[] {
+    const members: string[] = [];
+    for (const [noteId, { cluster }] of this.entries) {
+      if (cluster === clusterId) members.push(noteId);
+    }
+    return members;
+  }
+
+  /**
+   * 클러스터 목록 (큰 순)
+   */
+  getClusters(): ClusterSummary[] {
+    const sizes = new Array<number>(this.centroids.length).fill(0);
+    for (const { cluster } of this.entries.values()) {
+      sizes[cluster]++;
+    }
+    const memberHashes = this.getMemberHashes();
+    return this.labels
+      .map((label, id) => ({ id, label, memberHash: memberHashes[id] ?? '', size: sizes[id] ?? 0 }))
+      .filter((cluster) => cluster.size > 0)
+      .sort((a, b) => b.size - a.size);
+  }
+
+  /**
+   * 클러스터별 구성 노트 해시 (정렬된 노트 ID 기준, 할당이 바뀔 때까지 캐시)
+   */
+  private getMemberHashes(): string[] {
+    if (!this.memberHashes) {
+      const members: string[][] = this.centroids.map(() => []);
+      for (const [noteId, { cluster }] of this.entries) {
+        members[cluster]?.push(noteId);
+      }
+      this.memberHashes = members.map((noteIds) => simpleHash(noteIds.sort().join('\n')));
+    }
+    return this.memberHashes;
+  }
+
+  /**
+   * 전체 군집화
+   */
+  private async build(
+    embeddings: Map<string, NoteEmbedding>,
+    dimension: number,
+    clusterCount: number
+  ): Promise<void> {
+    this.reset();
+    this.dimension = dimension;
+    this.requestedK = clusterCount;
+
+    // 정렬된 순서로 군집화해 같은 입력이면 같은 결과
+    const noteIds = Array.from(embeddings.keys())
+      .filter((noteId) => embeddings.get(noteId)!.embedding.length === dimension)
+      .sort();
+    const vectors = noteIds.map((noteId) => toNormalizedFloat32(embeddings.get(noteId)!.embedding));
+
+    let k = 1;
+    if (noteIds.length >= MIN_NOTES_FOR_CLUSTERING) {
+      k = clusterCount > 0
+        ? Math.min(clusterCount, noteIds.length)
+        : await chooseClusterCount(
+          vectors,
+          MIN_AUTO_CLUSTERS,
+          Math.min(MAX_AUTO_CLUSTERS, Math.round(Math.sqrt(noteIds.length / 2)))
+        );
+    }
+
+    console.log(`[CDC] Clustering ${noteIds.length} notes into ${k} clusters`);
+    const { assignments, centroids } = await sphericalKMeans(vectors, k);
+
+    this.centroids = centroids;
+    noteIds.forEach((noteId, i) => {
+      this.entries.set(noteId, { cluster: assignments[i], updatedAt: embeddings.get(noteId)!.updatedAt });
+    });
+    this.builtSize = noteIds.length;
+    this.changedSinceBuild = 0;
+  }
+
+  /**
+   * 구성 노트로 라벨 다시 만들기
+   */
+  private relabel(describe: ClusterMemberLookup, excludeLabelTerms: string[]): void {
+    const members: ClusterMember[][] = this.centroids.map(() => []);
+    for (const [noteId, { cluster }] of this.entries) {
+      const member = describe(noteId);
+      if (member) members[cluster]?.push(member);
+    }
+    this.labels = labelClusters(members, excludeLabelTerms);
+  }
+
+  /**
+   * 재군집화 필요 여부
+   */
+  private needsRebuild(dimension: number, clusterCount: number): boolean {
+    if (this.centroids.length === 0 || this.dimension !== dimension) return true;
+    return this.requestedK !== clusterCount;
+  }
+
+  /**
+   * 가장 흔한 임베딩 차원 검출
+   */
+  private detectDimension(embeddings: Map<string, NoteEmbedding>): number {
+    const counts = new Map<number, number>();
+    for (const emb of embeddings.values()) {
+      const length = emb.embedding?.length ?? 0;
+      if (length > 0) {
+        counts.set(length, (counts.get(length) ?? 0) + 1);
+      }
+    }
+
+    let dimension = 0;
+    let maxCount = 0;
+    for (const [length, count] of counts) {
+      if (count > maxCount) {
+        maxCount = count;
+        dimension = length;
+      }
+    }
+    return dimension;
+  }
+
+  private reset(): void {
+    this.dimension = 0;
+    this.requestedK = 0;
+    this.builtSize = 0;
+    this.changedSinceBuild = 0;
+    this.centroids = [];
+    this.labels = [];
+    this.entries.clear();
+    this.memberHashes = null;
+  }
+
+  /**
+   * 저장된 클러스터 로드 (최초 1회)
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const path = normalizePath(this.indexPath);
+    try {
+      if (!(await this.vault.adapter.exists(path))) return;
+
+      const data = JSON.parse(await this.vault.adapter.read(path)) as PersistedClusterIndex;
+      if (data.version !== INDEX_VERSION) return;
+
+      this.dimension = data.dimension;
+      this.requestedK = data.requestedK;
+      this.builtSize = data.builtSize;
+      this.changedSinceBuild = data.changedSinceBuild ?? 0;
+      this.centroids = data.centroids.map((c) => Float32Array.from(c));
+      this.labels = data.labels;
+
+      for (const [noteId, entry] of Object.entries(data.entries)) {
+        if (entry.cluster >= this.centroids.length) continue;
+        this.entries.set(noteId, entry);
+      }
+
+      console.log(`[CDC] Loaded clusters: ${this.entries.size} notes, ${this.centroids.length} clusters`);
+    } catch (error) {
+      console.error('[CDC] Failed to load clusters:', error);
+      this.reset();
+    }
+  }
+
+  /**
+   * 클러스터 영구 저장
+   */
+  private async save(): Promise<void> {
+    const data: PersistedClusterIndex = {
+      version: INDEX_VERSION,
+      dimension: this.dimension,
+      requestedK: this.requestedK,
+      builtSize: this.builtSize,
+      changedSinceBuild: this.changedSinceBuild,
+      centroids: this.centroids.map((c) => Array.from(c)),
+      labels: this.labels,
+      entries: Object.fromEntries(this.entries),
+    };
+
+    try {
+      await this.vault.adapter.write(normalizePath(this.indexPath), JSON.stringify(data));
+    } catch (error) {
+      console.error('[CDC] Failed to save clusters:', error);
+    }
+  }
+}
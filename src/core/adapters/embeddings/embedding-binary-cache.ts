@@ -0,0 +1,207 @@
+/**
+ * EmbeddingBinaryCache
+ * 임베딩 출처에서 읽은 벡터를 플러그인 폴더에 패킹해 두는 바이너리 캐시
+ *
+ * - embedding-cache.bin: 모든 벡터를 이어 붙인 Float32 (little-endian)
+ * - embedding-cache.json: { version, sourceKey, entries: { [noteId]: { offset, length, model, updatedAt, indexVersion, chunks? } } }
+ *   chunks: [{ offset, length, heading?, blockId? }] (청크 벡터도 같은 파일에 이어 붙임)
+ *
+ * 수천 개의 작은 JSON을 읽고 파싱하는 대신 파일 두 개만 읽음
+ * 출처 설정(sourceKey)이 다르면 캐시 전체를 무시하고,
+ * 항목별 신선도는 호출자가 출처 인덱스의 updatedAt과 indexVersion을 비교해 판단
+ */
+
+import { normalizePath, type Vault } from 'obsidian';
+import type { NoteEmbedding } from './embedding-source';
+
+const CACHE_VERSION = 2;
+const SAVE_DELAY_MS = 5000;  // 연속 변경을 모아 한 번에 쓰기
+
+interface CacheManifest {
+  version: number;
+  sourceKey: string;
+  entries: Record<string, {
+    offset: number;
+    length: number;
+    model: string;
+    updatedAt: string;
+    indexVersion: string;
+    chunks?: Array<{ offset: number; length: number; heading?: string; blockId?: string }>;
+  }>;
+}
+
+/**
+ * 캐시 항목: 임베딩과 캐시 시점의 출처 인덱스 버전
+ */
+export interface CachedEmbedding {
+  embedding: NoteEmbedding;
+  indexVersion: string;
+}
+
+export class EmbeddingBinaryCache {
+  private sourceKey = '';
+  private pending: { store: Map<string, NoteEmbedding>; versions: Map<string, string> } | null = null;
+  private saveTimer: number | null = null;
+
+  constructor(
+    private vault: Vault,
+    private cacheDir: string
+  ) {}
+
+  /**
+   * 캐시가 속한 출처 설정 지정 (다르면 기존 캐시 무시)
+   */
+  setSourceKey(sourceKey: string): void {
+    if (sourceKey !== this.sourceKey) {
+      this.cancelPendingSave();
+    }
+    this.sourceKey = sourceKey;
+  }
+
+  /**
+   * 캐시된 임베딩 읽기 (없거나 다른 출처의 캐시면 빈 Map)
+   */
+  async load(): Promise<Map<string, CachedEmbedding>> {
+    const result = new Map<string, CachedEmbedding>();
+
+    try {
+      if (!(await this.vault.adapter.exists(this.manifestPath())) ||
+          !(await this.vault.adapter.exists(this.dataPath()))) {
+        return result;
+      }
+
+      const manifest = JSON.parse(await this.vault.adapter.read(this.manifestPath())) as CacheManifest;
+      if (manifest.version !== CACHE_VERSION || manifest.sourceKey !== this.sourceKey) {
+        console.log('[CDC] Embedding cache belongs to another source, ignoring');
+        return result;
+      }
+
+      const data = new Float32Array(await this.vault.adapter.readBinary(this.dataPath()));
+      for (const [noteId, entry] of Object.entries(manifest.entries)) {
+        if (entry.offset + entry.length > data.length) continue;
+        const chunks = entry.chunks?.filter((c) => c.offset + c.length <= data.length);
+        result.set(noteId, {
+          embedding: {
+            noteId,
+            embedding: Array.from(data.subarray(entry.offset, entry.offset + entry.length)),
+            model: entry.model,
+            updatedAt: entry.updatedAt,
+            chunks: chunks?.map((c) => ({
+              heading: c.heading,
+              blockId: c.blockId,
+              embedding: Array.from(data.subarray(c.offset, c.offset + c.length)),
+            })),
+          },
+          indexVersion: entry.indexVersion,
+        });
+      }
+
+      console.log(`[CDC] Loaded ${result.size} embeddings from binary cache`);
+    } catch (error) {
+      console.error('[CDC] Failed to load embedding cache:', error);
+      result.clear();
+    }
+
+    return result;
+  }
+
+  /**
+   * 지연 저장 예약 (마지막 호출 기준 SAVE_DELAY_MS 후 저장)
+   */
+  scheduleSave(store: Map<string, NoteEmbedding>, versions: Map<string, string>): void {
+    this.pending = { store, versions };
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = window.setTimeout(() => {
+      void this.flush();
+    }, SAVE_DELAY_MS);
+  }
+
+  /**
+   * 예약된 저장 즉시 실행
+   */
+  async flush(): Promise<void> {
+    const pending = this.pending;
+    this.cancelPendingSave();
+    if (pending) {
+      await this.save(pending.store, pending.versions);
+    }
+  }
+
+  /**
+   * 캐시 파일 삭제
+   */
+  async clear(): Promise<void> {
+    this.cancelPendingSave();
+    for (const path of [this.manifestPath(), this.dataPath()]) {
+      if (await this.vault.adapter.exists(path)) {
+        await this.vault.adapter.remove(path);
+      }
+    }
+  }
+
+  private async save(
+    store: Map<string, NoteEmbedding>,
+    versions: Map<string, string>
+  ): Promise<void> {
+    let totalLength = 0;
+    for (const emb of store.values()) {
+      totalLength += emb.embedding?.length ?? 0;
+      for (const chunk of emb.chunks ?? []) {
+        totalLength += chunk.embedding.length;
+      }
+    }
+
+    const data = new Float32Array(totalLength);
+    const manifest: CacheManifest = { version: CACHE_VERSION, sourceKey: this.sourceKey, entries: {} };
+
+    let offset = 0;
+    for (const [noteId, emb] of store) {
+      const indexVersion = versions.get(noteId);
+      if (!emb.embedding?.length || indexVersion === undefined) continue;
+      data.set(emb.embedding, offset);
+      manifest.entries[noteId] = {
+        offset,
+        length: emb.embedding.length,
+        model: emb.model,
+        updatedAt: emb.updatedAt,
+        indexVersion,
+      };
+      offset += emb.embedding.length;
+
+      if (emb.chunks?.length) {
+        manifest.entries[noteId].chunks = emb.chunks.map((chunk) => {
+          data.set(chunk.embedding, offset);
+          const entry = { offset, length: chunk.embedding.length, heading: chunk.heading, blockId: chunk.blockId };
+          offset += chunk.embedding.length;
+          return entry;
+        });
+      }
+    }
+
+    try {
+      await this.vault.adapter.writeBinary(this.dataPath(), data.buffer.slice(0, offset * 4));
+      await this.vault.adapter.write(this.manifestPath(), JSON.stringify(manifest));
+      console.log(`[CDC] Saved ${Object.keys(manifest.entries).length} embeddings to binary cache`);
+    } catch (error) {
+      console.error('[CDC] Failed to save embedding cache:', error);
+    }
+  }
+
+  private cancelPendingSave(): void {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.pending = null;
+  }
+
+  private manifestPath(): string {
+    return normalizePath(`${this.cacheDir}/embedding-cache.json`);
+  }
+
+  private dataPath(): string {
+    return normalizePath(`${this.cacheDir}/embedding-cache.bin`);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * EmbeddingProvider
+ * 내장 임베딩 생성용 프로바이더 선택
+ */
+
+import type { BaseEmbeddingProvider, EmbeddingProviderType } from './providers/base-embedding-provider';
+import { OpenAIEmbeddingProvider, createLocalEmbeddingProvider } from './providers/openai-embedding-provider';
+import { GeminiEmbeddingProvider } from './providers/gemini-embedding-provider';
+
+export type { BaseEmbeddingProvider, EmbeddingProviderType } from './providers/base-embedding-provider';
+
+/**
+ * 프로바이더별 기본 임베딩 모델
+ */
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderType, string> = {
+  openai: 'text-embedding-3-small',
+  gemini: 'text-embedding-004',
+  local: 'nomic-embed-text',
+};
+
+/**
+ * 임베딩 생성 설정
+ */
+export interface EmbeddingProviderSettings {
+  provider: EmbeddingProviderType;
+  model: string;
+  localEndpoint: string;  // OpenAI 호환 서버 base URL (예: http://localhost:11434/v1)
+  localApiKey: string;    // 로컬 서버 인증 키 (선택)
+}
+
+/**
+ * 설정에 맞는 임베딩 프로바이더 생성
+ * OpenAI/Gemini 키는 AI 설정의 API 키를 재사용
+ */
+export function createEmbeddingProvider(
+  settings: EmbeddingProviderSettings,
+  apiKeys: { openai?: string; gemini?: string }
+): BaseEmbeddingProvider {
+  const model = settings.model || DEFAULT_EMBEDDING_MODELS[settings.provider];
+
+  switch (settings.provider) {
+    case 'gemini':
+      return new GeminiEmbeddingProvider(apiKeys.gemini ?? '', model);
+    case 'local':
+      return createLocalEmbeddingProvider(settings.localEndpoint, model, settings.localApiKey);
+    case 'openai':
+    default:
+      return new OpenAIEmbeddingProvider(apiKeys.openai ?? '', model);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * EmbeddingSource
+ * 임베딩 데이터 출처 추상화 (Port)
+ *
+ * VaultEmbeddingsReader는 출처와 무관하게
+ * readIndex()로 노트별 updatedAt을 받고, 바뀐 노트만 readEmbedding()으로 읽음
+ */
+
+import type { Vault } from 'obsidian';
+import { VaultEmbeddingsSource } from './sources/vault-embeddings-source';
+import { SmartConnectionsSource } from './sources/smart-connections-source';
+import { ExportFileSource } from './sources/export-file-source';
+
+/**
+ * 노트 일부(헤딩 섹션/문단)의 임베딩
+ */
+export interface EmbeddingChunk {
+  /** 청크가 속한 헤딩 텍스트 (문서 첫 헤딩 이전이면 없음) */
+  heading?: string;
+  /** 블록 참조 ID (^id) */
+  blockId?: string;
+  embedding: number[];
+}
+
+/**
+ * 노트 임베딩 구조
+ */
+export interface NoteEmbedding {
+  noteId: string;
+  embedding: number[];
+  model: string;
+  updatedAt: string;
+  /** 청크 단위 임베딩 (출처가 제공하는 경우) */
+  chunks?: EmbeddingChunk[];
+}
+
+/**
+ * 임베딩 출처 유형
+ */
+export type EmbeddingSourceType = 'vault-embeddings' | 'smart-connections' | 'export-file';
+
+/**
+ * 출처 검증 결과
+ */
+export interface EmbeddingSourceValidation {
+  valid: boolean;
+  message: string;
+  count: number;
+}
+
+/**
+ * 볼트 파일 변경이 출처에 미치는 영향
+ * - noteId가 있으면 해당 항목만 무효화
+ */
+export interface EmbeddingPathChange {
+  noteId?: string;
+}
+
+/**
+ * 임베딩 출처 인터페이스
+ */
+export interface EmbeddingSource {
+  readonly type: EmbeddingSourceType;
+
+  /**
+   * 노트별 updatedAt 목록 (noteId → updatedAt)
+   * 출처를 찾을 수 없으면 null
+   */
+  readIndex(): Promise<Map<string, string> | null>;
+
+  /**
+   * 단일 노트 임베딩 읽기
+   */
+  readEmbedding(noteId: string): Promise<NoteEmbedding | null>;
+
+  /**
+   * 볼트 파일 경로가 이 출처에 속하는지 판별
+   * 속하지 않으면 null
+   */
+  classifyPath(path: string): EmbeddingPathChange | null;
+
+  /**
+   * 출처 설정 검증 (설정 화면용)
+   */
+  validate(): Promise<EmbeddingSourceValidation>;
+}
+
+/**
+ * 출처 설정
+ */
+export interface EmbeddingSourceSettings {
+  embeddingSource: EmbeddingSourceType;
+  embeddingFolder: string;      // Vault Embeddings 폴더
+  smartEnvFolder: string;       // Smart Connections 데이터 폴더
+  embeddingExportPath: string;  // JSONL/NPY 내보내기 파일 경로
+}
+
+/**
+ * 설정에 맞는 임베딩 출처 생성
+ */
+export function createEmbeddingSource(
+  vault: Vault,
+  settings: EmbeddingSourceSettings
+): EmbeddingSource {
+  switch (settings.embeddingSource) {
+    case 'smart-connections':
+      return new SmartConnectionsSource(vault, settings.smartEnvFolder);
+    case 'export-file':
+      return new ExportFileSource(vault, settings.embeddingExportPath);
+    case 'vault-embeddings':
+    default:
+      return new VaultEmbeddingsSource(vault, settings.embeddingFolder);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * BaseEmbeddingProvider
+ * 임베딩 프로바이더 공통 기능 추상 클래스 (BaseProvider와 같은 구조)
+ *
+ * CRITICAL: HTTP 요청은 반드시 Obsidian의 requestUrl 사용
+ */
+
+import { requestUrl } from 'obsidian';
+
+export type EmbeddingProviderType = 'openai' | 'gemini' | 'local';
+
+export interface EmbedRequest {
+  texts: string[];
+}
+
+export interface EmbedResponse {
+  success: boolean;
+  /** 입력 순서와 같은 순서의 벡터 */
+  vectors?: number[][];
+  error?: {
+    message: string;
+    code: string;
+  };
+}
+
+export abstract class BaseEmbeddingProvider {
+  constructor(
+    protected apiKey: string,
+    protected modelId: string
+  ) {}
+
+  /**
+   * 텍스트 임베딩 (추상 메서드)
+   */
+  abstract embed(request: EmbedRequest): Promise<EmbedResponse>;
+
+  /**
+   * 한 번의 요청에 보낼 최대 텍스트 수
+   */
+  get maxBatchSize(): number {
+    return 64;
+  }
+
+  /**
+   * 모델 ID (임베딩 파일의 model 필드로 기록)
+   */
+  get model(): string {
+    return this.modelId;
+  }
+
+  /**
+   * HTTP 요청 헬퍼
+   * CRITICAL: Obsidian의 requestUrl 사용 (fetch 금지)
+   */
+  protected async httpRequest(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown
+  ): Promise<unknown> {
+    const response = await requestUrl({
+      url,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+    return response.json;
+  }
+
+  /**
+   * 에러 정규화
+   * HTTP 코드별 사용자 친화적 메시지 반환
+   */
+  protected normalizeError(error: unknown): { message: string; code: string } {
+    console.error('[CDC] Embedding API Error:', error);
+
+    if (error instanceof Error) {
+      const message = error.message;
+
+      if (message.includes('429') || message.includes('rate')) {
+        return {
+          message: 'API 요청 한도 초과. 잠시 후 다시 시도해주세요.',
+          code: 'RATE_LIMIT',
+        };
+      }
+
+      if (message.includes('401') || message.includes('403')) {
+        return {
+          message: 'API 키가 유효하지 않습니다. 설정에서 확인해주세요.',
+          code: 'AUTH_ERROR',
+        };
+      }
+
+      if (message.includes('ECONNREFUSED') || message.includes('net::')) {
+        return {
+          message: '임베딩 서버에 연결할 수 없습니다. 엔드포인트를 확인해주세요.',
+          code: 'CONNECTION_ERROR',
+        };
+      }
+
+      if (message.includes('404') || message.includes('model')) {
+        return {
+          message: '선택한 임베딩 모델을 찾을 수 없습니다.',
+          code: 'MODEL_NOT_FOUND',
+        };
+      }
+
+      return { message, code: 'UNKNOWN' };
+    }
+
+    return { message: '알 수 없는 오류가 발생했습니다.', code: 'UNKNOWN' };
+  }
+}
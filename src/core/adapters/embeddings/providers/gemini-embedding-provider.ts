@@ -0,0 +1,49 @@
+/**
+ * GeminiEmbeddingProvider
+ * Google Generative Language batchEmbedContents API
+ */
+
+import {
+  BaseEmbeddingProvider,
+  type EmbedRequest,
+  type EmbedResponse,
+} from './base-embedding-provider';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiBatchEmbedResponse {
+  embeddings?: Array<{ values: number[] }>;
+}
+
+export class GeminiEmbeddingProvider extends BaseEmbeddingProvider {
+  get maxBatchSize(): number {
+    return 100;
+  }
+
+  async embed(request: EmbedRequest): Promise<EmbedResponse> {
+    if (!this.apiKey) {
+      return {
+        success: false,
+        error: { message: 'Gemini API 키가 설정되지 않았습니다.', code: 'NO_API_KEY' },
+      };
+    }
+
+    try {
+      const url = `${GEMINI_API_BASE}/${this.modelId}:batchEmbedContents?key=${this.apiKey}`;
+      const json = await this.httpRequest(url, {}, {
+        requests: request.texts.map((text) => ({
+          model: `models/${this.modelId}`,
+          content: { parts: [{ text }] },
+        })),
+      }) as GeminiBatchEmbedResponse;
+
+      if (!Array.isArray(json?.embeddings) || json.embeddings.length !== request.texts.length) {
+        return { success: false, error: { message: 'Unexpected embeddings response', code: 'PARSE_ERROR' } };
+      }
+
+      return { success: true, vectors: json.embeddings.map((e) => e.values) };
+    } catch (error) {
+      return { success: false, error: this.normalizeError(error) };
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * OpenAIEmbeddingProvider
+ * OpenAI Embeddings API 및 OpenAI 호환 로컬 서버 (Ollama, llama.cpp server)
+ */
+
+import {
+  BaseEmbeddingProvider,
+  type EmbedRequest,
+  type EmbedResponse,
+} from './base-embedding-provider';
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+
+interface OpenAIEmbeddingsResponse {
+  data?: Array<{ index: number; embedding: number[] }>;
+}
+
+export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
+  constructor(
+    apiKey: string,
+    modelId: string,
+    private endpoint: string = OPENAI_EMBEDDINGS_URL,
+    private requireApiKey: boolean = true
+  ) {
+    super(apiKey, modelId);
+  }
+
+  async embed(request: EmbedRequest): Promise<EmbedResponse> {
+    if (this.requireApiKey && !this.apiKey) {
+      return {
+        success: false,
+        error: { message: 'OpenAI API 키가 설정되지 않았습니다.', code: 'NO_API_KEY' },
+      };
+    }
+
+    try {
+      const json = await this.httpRequest(
+        this.endpoint,
+        this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        { model: this.modelId, input: request.texts }
+      ) as OpenAIEmbeddingsResponse;
+
+      if (!Array.isArray(json?.data) || json.data.length !== request.texts.length) {
+        return { success: false, error: { message: 'Unexpected embeddings response', code: 'PARSE_ERROR' } };
+      }
+
+      const vectors = [...json.data]
+        .sort((a, b) => a.index - b.index)
+        .map((d) => d.embedding);
+
+      return { success: true, vectors };
+    } catch (error) {
+      return { success: false, error: this.normalizeError(error) };
+    }
+  }
+}
+
+/**
+ * OpenAI 호환 로컬 엔드포인트용 프로바이더 생성
+ * @param baseUrl 예: "http://localhost:11434/v1"
+ */
+export function createLocalEmbeddingProvider(
+  baseUrl: string,
+  modelId: string,
+  apiKey: string = ''
+): OpenAIEmbeddingProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/embeddings`;
+  return new OpenAIEmbeddingProvider(apiKey, modelId, endpoint, false);
+}
@@ -0,0 +1,196 @@
+/**
+ * ExportFileSource
+ * 단일 내보내기 파일에서 임베딩 읽기
+ *
+ * 지원 형식:
+ * - JSONL (.jsonl/.ndjson): 한 줄에 { path | noteId, vector | embedding, model?, updatedAt? }
+ * - NPY (.npy): float32/float64 2차원 행렬 + 같은 이름의 .json 사이드카 (행 순서대로 노트 경로 배열)
+ *
+ * 파일 mtime이 바뀔 때만 다시 파싱
+ */
+
+import { normalizePath, type Vault } from 'obsidian';
+import { generateNoteId } from '../../../domain/utils/note-id';
+import type {
+  EmbeddingSource,
+  EmbeddingPathChange,
+  EmbeddingSourceValidation,
+  NoteEmbedding,
+} from '../embedding-source';
+
+interface JsonlRecord {
+  noteId?: string;
+  id?: string;
+  path?: string;
+  vector?: number[];
+  embedding?: number[];
+  model?: string;
+  updatedAt?: string;
+}
+
+export class ExportFileSource implements EmbeddingSource {
+  readonly type = 'export-file' as const;
+
+  private loadedMtime = -1;
+  private embeddings: Map<string, NoteEmbedding> = new Map();
+
+  constructor(
+    private vault: Vault,
+    private filePath: string
+  ) {}
+
+  async readIndex(): Promise<Map<string, string> | null> {
+    if (!this.filePath) return null;
+    const path = normalizePath(this.filePath);
+
+    try {
+      const stat = await this.vault.adapter.stat(path);
+      if (!stat) return null;
+
+      if (stat.mtime !== this.loadedMtime) {
+        const fileUpdatedAt = new Date(stat.mtime).toISOString();
+        const records = this.isNpy()
+          ? await this.parseNpy(path, fileUpdatedAt)
+          : this.parseJsonl(await this.vault.adapter.read(path), fileUpdatedAt);
+
+        this.embeddings = new Map(records.map((r) => [r.noteId, r]));
+        this.loadedMtime = stat.mtime;
+        console.log(`[CDC] Parsed ${this.embeddings.size} embeddings from ${path}`);
+      }
+    } catch (error) {
+      console.error(`[CDC] Failed to read embedding export ${path}:`, error);
+      return null;
+    }
+
+    const versions = new Map<string, string>();
+    for (const [noteId, emb] of this.embeddings) {
+      versions.set(noteId, emb.updatedAt);
+    }
+    return versions;
+  }
+
+  async readEmbedding(noteId: string): Promise<NoteEmbedding | null> {
+    return this.embeddings.get(noteId) ?? null;
+  }
+
+  classifyPath(path: string): EmbeddingPathChange | null {
+    if (!this.filePath) return null;
+    const exportPath = normalizePath(this.filePath);
+    return path === exportPath || path === this.sidecarPath() ? {} : null;
+  }
+
+  async validate(): Promise<EmbeddingSourceValidation> {
+    if (!this.filePath) {
+      return { valid: false, message: 'No export file path configured.', count: 0 };
+    }
+
+    const path = normalizePath(this.filePath);
+    if (!/\.(jsonl|ndjson|npy)$/i.test(path)) {
+      return { valid: false, message: 'Export file must be .jsonl, .ndjson or .npy.', count: 0 };
+    }
+    if (!(await this.vault.adapter.exists(path))) {
+      return { valid: false, message: `File "${path}" does not exist.`, count: 0 };
+    }
+    if (this.isNpy() && !(await this.vault.adapter.exists(this.sidecarPath()))) {
+      return {
+        valid: false,
+        message: `NPY export needs a sidecar "${this.sidecarPath()}" listing note paths in row order.`,
+        count: 0,
+      };
+    }
+
+    this.loadedMtime = -1;
+    const versions = await this.readIndex();
+    const count = versions?.size ?? 0;
+    return {
+      valid: count > 0,
+      message: count > 0
+        ? `Found ${count} embeddings in "${path}".`
+        : `No embeddings could be parsed from "${path}".`,
+      count,
+    };
+  }
+
+  private isNpy(): boolean {
+    return /\.npy$/i.test(this.filePath);
+  }
+
+  private sidecarPath(): string {
+    return normalizePath(this.filePath.replace(/\.npy$/i, '.json'));
+  }
+
+  /**
+   * JSONL 파싱 (잘못된 줄은 건너뜀)
+   */
+  private parseJsonl(content: string, fileUpdatedAt: string): NoteEmbedding[] {
+    const result: NoteEmbedding[] = [];
+
+    for (const line of content.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      try {
+        const record = JSON.parse(trimmed) as JsonlRecord;
+        const vector = record.vector ?? record.embedding;
+        const noteId = record.noteId ?? record.id ?? (record.path ? generateNoteId(record.path) : null);
+        if (!noteId || !Array.isArray(vector)) continue;
+
+        result.push({
+          noteId,
+          embedding: vector,
+          model: record.model ?? 'unknown',
+          updatedAt: record.updatedAt ?? fileUpdatedAt,
+        });
+      } catch {
+        continue;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * NPY 파싱 (little-endian float32/float64, C order, 2차원)
+   */
+  private async parseNpy(path: string, fileUpdatedAt: string): Promise<NoteEmbedding[]> {
+    const buffer = await this.vault.adapter.readBinary(path);
+    const bytes = new Uint8Array(buffer);
+
+    // 매직: \x93NUMPY
+    if (bytes[0] !== 0x93 || String.fromCharCode(...bytes.slice(1, 6)) !== 'NUMPY') {
+      throw new Error('Not an NPY file');
+    }
+
+    const view = new DataView(buffer);
+    const major = bytes[6];
+    const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+    const headerStart = major === 1 ? 10 : 12;
+    const header = new TextDecoder().decode(bytes.slice(headerStart, headerStart + headerLength));
+
+    const descr = header.match(/'descr':\s*'([^']+)'/)?.[1];
+    const fortranOrder = /'fortran_order':\s*True/.test(header);
+    const shape = header.match(/'shape':\s*\((\d+),\s*(\d+)\)/);
+    if (!shape || fortranOrder || (descr !== '<f4' && descr !== '<f8')) {
+      throw new Error(`Unsupported NPY layout: ${header.trim()}`);
+    }
+
+    const rows = parseInt(shape[1], 10);
+    const cols = parseInt(shape[2], 10);
+    const dataOffset = headerStart + headerLength;
+    const data = descr === '<f4'
+      ? new Float32Array(buffer.slice(dataOffset, dataOffset + rows * cols * 4))
+      : new Float64Array(buffer.slice(dataOffset, dataOffset + rows * cols * 8));
+
+    const paths = JSON.parse(await this.vault.adapter.read(this.sidecarPath())) as string[];
+    if (paths.length !== rows) {
+      throw new Error(`Sidecar lists ${paths.length} paths but matrix has ${rows} rows`);
+    }
+
+    return paths.map((notePath, row) => ({
+      noteId: generateNoteId(notePath),
+      embedding: Array.from(data.subarray(row * cols, (row + 1) * cols)),
+      model: 'unknown',
+      updatedAt: fileUpdatedAt,
+    }));
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * SmartConnectionsSource
+ * Smart Connections 플러그인의 .smart-env 데이터 읽기
+ *
+ * 구조: {smartEnvFolder}/multi/*.ajson
+ * 각 줄이 `"smart_sources:경로.md": { path, embeddings: { [model]: { vec } }, last_read: { at } },`
+ * 형식이며 같은 키가 여러 번 나오면 마지막 값이 유효 (null이면 삭제)
+ * `"smart_blocks:경로.md#헤딩#하위헤딩"` 항목은 해당 노트의 청크 임베딩으로 붙임
+ *
+ * 숨김 폴더라 볼트 이벤트가 오지 않으므로 파일 mtime으로 변경을 감지
+ */
+
+import { normalizePath, type Vault } from 'obsidian';
+import { generateNoteId } from '../../../domain/utils/note-id';
+import type {
+  EmbeddingChunk,
+  EmbeddingSource,
+  EmbeddingPathChange,
+  EmbeddingSourceValidation,
+  NoteEmbedding,
+} from '../embedding-source';
+
+const SOURCE_KEY_PREFIX = 'smart_sources:';
+const BLOCK_KEY_PREFIX = 'smart_blocks:';
+
+interface SmartSourceEntry {
+  path?: string;
+  embeddings?: Record<string, { vec?: number[] }>;
+  last_read?: { at?: number };
+  mtime?: number;
+}
+
+export class SmartConnectionsSource implements EmbeddingSource {
+  readonly type = 'smart-connections' as const;
+
+  /** ajson 파일별 mtime과 파싱된 임베딩 */
+  private fileCache: Map<string, { mtime: number; embeddings: NoteEmbedding[] }> = new Map();
+  private embeddings: Map<string, NoteEmbedding> = new Map();
+
+  constructor(
+    private vault: Vault,
+    private smartEnvFolder: string
+  ) {}
+
+  async readIndex(): Promise<Map<string, string> | null> {
+    const multiFolder = normalizePath(`${this.smartEnvFolder}/multi`);
+
+    try {
+      if (!(await this.vault.adapter.exists(multiFolder))) {
+        return null;
+      }
+
+      const listing = await this.vault.adapter.list(multiFolder);
+      const files = listing.files.filter((f) => f.endsWith('.ajson'));
+      const seen = new Set<string>();
+
+      for (const filePath of files) {
+        seen.add(filePath);
+        const stat = await this.vault.adapter.stat(filePath);
+        const mtime = stat?.mtime ?? 0;
+
+        const cached = this.fileCache.get(filePath);
+        if (cached && cached.mtime === mtime) continue;
+
+        const content = await this.vault.adapter.read(filePath);
+        this.fileCache.set(filePath, { mtime, embeddings: this.parseAjson(content, mtime) });
+      }
+
+      for (const filePath of Array.from(this.fileCache.keys())) {
+        if (!seen.has(filePath)) {
+          this.fileCache.delete(filePath);
+        }
+      }
+    } catch (error) {
+      console.error('[CDC] Failed to read Smart Connections data:', error);
+      return null;
+    }
+
+    this.embeddings.clear();
+    for (const { embeddings } of this.fileCache.values()) {
+      for (const emb of embeddings) {
+        this.embeddings.set(emb.noteId, emb);
+      }
+    }
+
+    const versions = new Map<string, string>();
+    for (const [noteId, emb] of this.embeddings) {
+      versions.set(noteId, emb.updatedAt);
+    }
+    return versions;
+  }
+
+  async readEmbedding(noteId: string): Promise<NoteEmbedding | null> {
+    return this.embeddings.get(noteId) ?? null;
+  }
+
+  classifyPath(path: string): EmbeddingPathChange | null {
+    const folder = normalizePath(this.smartEnvFolder);
+    return path.startsWith(folder + '/') ? {} : null;
+  }
+
+  async validate(): Promise<EmbeddingSourceValidation> {
+    const multiFolder = normalizePath(`${this.smartEnvFolder}/multi`);
+    if (!(await this.vault.adapter.exists(multiFolder))) {
+      return {
+        valid: false,
+        message: `Folder "${multiFolder}" does not exist. Smart Connections v2 or later is required.`,
+        count: 0,
+      };
+    }
+
+    const versions = await this.readIndex();
+    const count = versions?.size ?? 0;
+    return {
+      valid: count > 0,
+      message: count > 0
+        ? `Found ${count} Smart Connections embeddings.`
+        : 'No note embeddings found in Smart Connections data.',
+      count,
+    };
+  }
+
+  /**
+   * ajson 내용 파싱
+   */
+  private parseAjson(content: string, fileMtime: number): NoteEmbedding[] {
+    const body = content.trim().replace(/,\s*$/, '');
+    if (!body) return [];
+
+    let data: Record<string, SmartSourceEntry | null>;
+    try {
+      data = JSON.parse(`{${body}}`);
+    } catch (error) {
+      console.error('[CDC] Failed to parse Smart Connections ajson:', error);
+      return [];
+    }
+
+    const blocks = this.collectBlocks(data);
+    const result: NoteEmbedding[] = [];
+    for (const [key, entry] of Object.entries(data)) {
+      if (!key.startsWith(SOURCE_KEY_PREFIX) || !entry?.embeddings) continue;
+
+      const path = entry.path ?? key.slice(SOURCE_KEY_PREFIX.length);
+      const model = Object.keys(entry.embeddings).find(
+        (m) => Array.isArray(entry.embeddings![m]?.vec)
+      );
+      if (!model) continue;
+
+      const timestamp = entry.last_read?.at ?? entry.mtime ?? fileMtime;
+      const chunks = blocks.get(path)?.get(model);
+      result.push({
+        noteId: generateNoteId(path),
+        embedding: entry.embeddings[model].vec!,
+        model,
+        updatedAt: new Date(timestamp).toISOString(),
+        chunks: chunks?.length ? chunks : undefined,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * smart_blocks 항목을 노트 경로 → 모델 → 청크 목록으로 수집
+   * 키의 '#' 뒤 마지막 헤딩을 청크 헤딩으로 사용 ('{n}' 형태의 문단 번호는 건너뜀)
+   */
+  private collectBlocks(
+    data: Record<string, SmartSourceEntry | null>
+  ): Map<string, Map<string, EmbeddingChunk[]>> {
+    const blocks = new Map<string, Map<string, EmbeddingChunk[]>>();
+
+    for (const [key, entry] of Object.entries(data)) {
+      if (!key.startsWith(BLOCK_KEY_PREFIX) || !entry?.embeddings) continue;
+
+      const [path, ...segments] = key.slice(BLOCK_KEY_PREFIX.length).split('#');
+      const heading = segments.filter((s) => s && !/^\{\d+\}$/.test(s)).pop();
+
+      for (const [model, value] of Object.entries(entry.embeddings)) {
+        if (!Array.isArray(value?.vec)) continue;
+
+        let byModel = blocks.get(path);
+        if (!byModel) {
+          byModel = new Map();
+          blocks.set(path, byModel);
+        }
+        const list = byModel.get(model) ?? [];
+        list.push({ heading, embedding: value.vec });
+        byModel.set(model, list);
+      }
+    }
+
+    return blocks;
+  }
+}
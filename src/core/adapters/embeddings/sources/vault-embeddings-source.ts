@@ -0,0 +1,172 @@
+/**
+ * VaultEmbeddingsSource
+ * Vault Embeddings 플러그인의 JSON 출력 읽기
+ *
+ * 구조:
+ * - {folder}/index.json: { version, notes: { [noteId]: { path, updatedAt } } }
+ * - {folder}/embeddings/{safeId}.json: { noteId, vector, model, updatedAt, chunks? }
+ *   chunks: [{ heading?, blockId?, vector }] (헤딩/문단 단위 벡터, 선택)
+ *
+ * CRITICAL: Cross-platform 호환성
+ * - normalizePath() 사용
+ * - adapter.read() 폴백 패턴
+ */
+
+import { normalizePath, type Vault } from 'obsidian';
+import { toSafeFileId } from '../../../domain/utils/note-id';
+import type {
+  EmbeddingChunk,
+  EmbeddingSource,
+  EmbeddingPathChange,
+  EmbeddingSourceValidation,
+  NoteEmbedding,
+} from '../embedding-source';
+
+/**
+ * 임베딩 인덱스 구조
+ */
+export interface EmbeddingIndex {
+  version: string;
+  notes: Record<
+    string,
+    {
+      path: string;
+      updatedAt: string;
+    }
+  >;
+}
+
+export class VaultEmbeddingsSource implements EmbeddingSource {
+  readonly type = 'vault-embeddings' as const;
+
+  /** 임베딩 파일명(safe id) → noteId */
+  private safeIdToNoteId: Map<string, string> = new Map();
+
+  constructor(
+    private vault: Vault,
+    private folder: string
+  ) {}
+
+  async readIndex(): Promise<Map<string, string> | null> {
+    const index = await this.readIndexFile();
+    if (!index) return null;
+
+    const versions = new Map<string, string>();
+    this.safeIdToNoteId.clear();
+    for (const [noteId, entry] of Object.entries(index.notes)) {
+      versions.set(noteId, entry.updatedAt);
+      this.safeIdToNoteId.set(toSafeFileId(noteId), noteId);
+    }
+    return versions;
+  }
+
+  async readEmbedding(noteId: string): Promise<NoteEmbedding | null> {
+    const safeId = toSafeFileId(noteId);
+    const embeddingPath = normalizePath(
+      `${this.folder}/embeddings/${safeId}.json`
+    );
+
+    try {
+      // Cross-platform: adapter 폴백 패턴
+      const file = this.vault.getAbstractFileByPath(embeddingPath);
+      if (!file) {
+        const exists = await this.vault.adapter.exists(embeddingPath);
+        if (!exists) {
+          return null;
+        }
+      }
+
+      // adapter.read()는 항상 동작
+      const content = await this.vault.adapter.read(embeddingPath);
+      const data = JSON.parse(content);
+
+      return {
+        noteId: data.noteId || noteId,
+        embedding: data.vector || data.embedding,  // Vault Embeddings uses 'vector'
+        model: data.model || 'unknown',
+        updatedAt: data.updatedAt || new Date().toISOString(),
+        chunks: this.parseChunks(data.chunks),
+      };
+    } catch (error) {
+      console.error(`[CDC] Failed to read embedding for ${noteId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 청크 배열 파싱 (벡터가 없는 항목은 건너뜀)
+   */
+  private parseChunks(raw: unknown): EmbeddingChunk[] | undefined {
+    if (!Array.isArray(raw)) return undefined;
+
+    const chunks: EmbeddingChunk[] = [];
+    for (const item of raw as Array<Record<string, unknown>>) {
+      const vector = item?.vector ?? item?.embedding;
+      if (!Array.isArray(vector)) continue;
+      chunks.push({
+        heading: typeof item.heading === 'string' ? item.heading : undefined,
+        blockId: typeof item.blockId === 'string' ? item.blockId : undefined,
+        embedding: vector as number[],
+      });
+    }
+    return chunks.length > 0 ? chunks : undefined;
+  }
+
+  classifyPath(path: string): EmbeddingPathChange | null {
+    const folder = normalizePath(this.folder);
+    if (!path.startsWith(folder + '/')) return null;
+
+    const match = path
+      .slice(folder.length + 1)
+      .match(/^embeddings\/(.+)\.json$/);
+    if (match) {
+      return { noteId: this.safeIdToNoteId.get(match[1]) };
+    }
+    return {};
+  }
+
+  async validate(): Promise<EmbeddingSourceValidation> {
+    const folderPath = normalizePath(this.folder);
+    if (!(await this.vault.adapter.exists(folderPath))) {
+      return { valid: false, message: `Folder "${folderPath}" does not exist.`, count: 0 };
+    }
+
+    const index = await this.readIndexFile();
+    if (!index) {
+      return { valid: false, message: `No index.json found in "${folderPath}".`, count: 0 };
+    }
+
+    const count = Object.keys(index.notes ?? {}).length;
+    return {
+      valid: count > 0,
+      message: count > 0
+        ? `Found ${count} embeddings in "${folderPath}".`
+        : `Index in "${folderPath}" is empty. Run the Vault Embeddings plugin first.`,
+      count,
+    };
+  }
+
+  /**
+   * 임베딩 인덱스 읽기
+   */
+  private async readIndexFile(): Promise<EmbeddingIndex | null> {
+    const indexPath = normalizePath(`${this.folder}/index.json`);
+
+    try {
+      // Cross-platform: adapter 폴백 패턴
+      const file = this.vault.getAbstractFileByPath(indexPath);
+      if (!file) {
+        const exists = await this.vault.adapter.exists(indexPath);
+        if (!exists) {
+          return null;
+        }
+      }
+
+      const content = await this.vault.adapter.read(indexPath);
+      return JSON.parse(content) as EmbeddingIndex;
+    } catch (error) {
+      console.error('[CDC] Failed to read embedding index:', error);
+      return null;
+    }
+  }
+}
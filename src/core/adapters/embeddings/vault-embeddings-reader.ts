@@ -1,176 +1,366 @@
 /**
  * VaultEmbeddingsReader
- * Vault Embeddings 플러그인의 임베딩 데이터를 읽는 어댑터
+ * 설정된 임베딩 출처(EmbeddingSource)에서 임베딩을 읽어 메모리에 유지하는 어댑터
  *
- * CRITICAL: Cross-platform 호환성
- * - normalizePath() 사용
- * - adapter.read() 폴백 패턴
+ * - 출처의 노트별 updatedAt과 비교해 추가/변경된 항목만 다시 읽음
+ * - 볼트 파일 변경 알림으로 단일 항목 무효화
+ * - 모델/차원별로 그룹화하여 활성 모델(지정 모델 또는 최다 모델)의 임베딩만 제공
+ * - 바이너리 캐시가 있으면 시작 시 캐시에서 복원하고, 인덱스 버전이 다른 노트만 출처에서 읽음
  */
 
-import { normalizePath, Vault } from 'obsidian';
-import { toSafeFileId } from '../../domain/utils/note-id';
+import type { EmbeddingSource, NoteEmbedding } from './embedding-source';
+import type { EmbeddingBinaryCache } from './embedding-binary-cache';
+
+export type { NoteEmbedding } from './embedding-source';
 
-const EMBEDDING_FOLDER = '09_Embedded';
 const BATCH_SIZE = 50;
 
 /**
- * 임베딩 인덱스 구조
+ * 모델/차원별 임베딩 그룹
  */
-export interface EmbeddingIndex {
-  version: string;
-  notes: Record<
-    string,
-    {
-      path: string;
-      updatedAt: string;
-    }
-  >;
+export interface EmbeddingModelGroup {
+  model: string;
+  dimension: number;
+  count: number;
 }
 
 /**
- * 노트 임베딩 구조
+ * 임베딩 모델 일관성 진단
  */
-export interface NoteEmbedding {
-  noteId: string;
-  embedding: number[];
-  model: string;
-  updatedAt: string;
+export interface EmbeddingDiagnostics {
+  /** 발견에 사용되는 모델 그룹 */
+  active: EmbeddingModelGroup | null;
+  /** 다른 모델/차원이라 제외된 그룹 */
+  excluded: EmbeddingModelGroup[];
+  /** 제외된 노트 ID */
+  excludedNoteIds: Set<string>;
+  /** 전체 임베딩 수 */
+  total: number;
 }
 
 export class VaultEmbeddingsReader {
-  private allEmbeddingsCache: Map<string, NoteEmbedding> | null = null;
-  private allEmbeddingsCacheTime = 0;
-  private readonly CACHE_TTL_MS = 60000; // 60s TTL
+  /** 로드된 임베딩 (noteId → 임베딩) */
+  private store: Map<string, NoteEmbedding> = new Map();
+  /** 마지막으로 읽은 인덱스의 노트별 updatedAt */
+  private indexVersions: Map<string, string> = new Map();
+  /** store에 로드된 시점의 노트별 updatedAt */
+  private loadedVersions: Map<string, string> = new Map();
+  private indexDirty = true;
+  private lastIndexCheck = 0;
+  // 파일 감시가 놓친 변경(모바일, 외부 동기화)에 대비한 인덱스 재확인 주기
+  private readonly INDEX_RECHECK_MS = 60000;
+  /** 사용자가 지정한 모델 (빈 문자열이면 최다 모델 자동 선택) */
+  private preferredModel = '';
+  /** 바이너리 캐시 복원 여부 (출처/캐시 교체 시 초기화) */
+  private cacheRestored = false;
+  /** 제공하는 임베딩이 바뀔 때마다 증가 (계산 결과 재사용 키) */
+  private version = 0;
 
-  constructor(private vault: Vault) {}
+  constructor(
+    private source: EmbeddingSource,
+    private binaryCache: EmbeddingBinaryCache | null = null
+  ) {}
+
+  /**
+   * 발견에 사용할 모델 지정 (빈 문자열이면 자동)
+   */
+  setPreferredModel(model: string): void {
+    if (this.preferredModel === model) return;
+    this.preferredModel = model;
+    this.version++;
+  }
+
+  /**
+   * 임베딩 버전 (로드된 임베딩이나 활성 모델이 바뀌면 증가)
+   * 같은 버전이면 getAllEmbeddings 결과가 같음
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * 임베딩 출처 교체 (설정 변경 시)
+   */
+  setSource(source: EmbeddingSource): void {
+    this.source = source;
+    this.clearAllCache();
+  }
+
+  /**
+   * 바이너리 캐시 교체 (null이면 사용 안 함)
+   */
+  setBinaryCache(binaryCache: EmbeddingBinaryCache | null): void {
+    this.binaryCache = binaryCache;
+    this.cacheRestored = false;
+  }
+
+  /**
+   * 예약된 바이너리 캐시 저장을 즉시 실행 (언로드 시)
+   */
+  async flushBinaryCache(): Promise<void> {
+    await this.binaryCache?.flush();
+  }
+
+  /**
+   * 현재 임베딩 출처
+   */
+  getSource(): EmbeddingSource {
+    return this.source;
+  }
 
   /**
    * 단일 노트의 임베딩 가져오기
+   * 출처와 먼저 동기화하므로 인덱스를 읽어야 임베딩을 제공하는 출처(Smart Connections, 내보내기 파일)도
+   * 시작 직후나 출처 교체 직후 바로 사용 가능
    */
   async getEmbedding(noteId: string): Promise<NoteEmbedding | null> {
-    const safeId = toSafeFileId(noteId);
-    const embeddingPath = normalizePath(
-      `${EMBEDDING_FOLDER}/embeddings/${safeId}.json`
-    );
-
-    try {
-      // Cross-platform: adapter 폴백 패턴
-      const file = this.vault.getAbstractFileByPath(embeddingPath);
-      if (!file) {
-        const exists = await this.vault.adapter.exists(embeddingPath);
-        if (!exists) {
-          return null;
-        }
+    await this.refresh();
+    return this.store.get(noteId) ?? null;
+  }
+
+  /**
+   * 활성 모델의 모든 임베딩 가져오기
+   * 다른 모델이나 차원의 임베딩은 비교할 수 없으므로 제외됨 (getDiagnostics 참고)
+   */
+  async getAllEmbeddings(): Promise<Map<string, NoteEmbedding>> {
+    await this.refresh();
+
+    const active = this.resolveActiveGroup(this.groupByModel());
+    const result = new Map<string, NoteEmbedding>();
+    if (!active) return result;
+
+    for (const [noteId, emb] of this.store) {
+      if (this.matchesGroup(emb, active)) {
+        result.set(noteId, emb);
       }
+    }
+    return result;
+  }
+
+  /**
+   * 임베딩이 활성 모델에 속하는지 확인
+   */
+  async isActiveModel(embedding: NoteEmbedding): Promise<boolean> {
+    await this.refresh();
+    const active = this.resolveActiveGroup(this.groupByModel());
+    return !!active && this.matchesGroup(embedding, active);
+  }
+
+  /**
+   * 모델 일관성 진단
+   */
+  async getDiagnostics(): Promise<EmbeddingDiagnostics> {
+    await this.refresh();
+
+    const groups = this.groupByModel();
+    const active = this.resolveActiveGroup(groups);
+    const excluded = groups.filter((g) => g !== active);
+    const excludedNoteIds = new Set<string>();
 
-      // adapter.read()는 항상 동작
-      const content = await this.vault.adapter.read(embeddingPath);
-      const data = JSON.parse(content);
-
-      return {
-        noteId: data.noteId || noteId,
-        embedding: data.vector || data.embedding,  // Vault Embeddings uses 'vector'
-        model: data.model || 'unknown',
-        updatedAt: data.updatedAt || new Date().toISOString(),
-      };
-    } catch (error) {
-      console.error(`[CDC] Failed to read embedding for ${noteId}:`, error);
-      return null;
+    for (const [noteId, emb] of this.store) {
+      if (!active || !this.matchesGroup(emb, active)) {
+        excludedNoteIds.add(noteId);
+      }
     }
+
+    return { active, excluded, excludedNoteIds, total: this.store.size };
   }
 
   /**
-   * 모든 임베딩 가져오기
+   * 모델/차원별 그룹 (많은 순)
    */
-  async getAllEmbeddings(): Promise<Map<string, NoteEmbedding>> {
-    // TTL cache: avoid repeated disk reads within same operation
+  async getModelGroups(): Promise<EmbeddingModelGroup[]> {
+    await this.refresh();
+    return this.groupByModel();
+  }
+
+  /**
+   * 출처와 동기화
+   * 인덱스의 updatedAt과 비교해 추가/변경된 파일만 다시 읽고, 삭제된 항목은 제거
+   */
+  private async refresh(): Promise<void> {
+    let cacheDirty = false;
     const now = Date.now();
-    if (this.allEmbeddingsCache && now - this.allEmbeddingsCacheTime < this.CACHE_TTL_MS) {
-      return this.allEmbeddingsCache;
+    if (this.indexDirty || now - this.lastIndexCheck >= this.INDEX_RECHECK_MS) {
+      const versions = await this.source.readIndex();
+      this.indexDirty = false;
+      this.lastIndexCheck = now;
+
+      if (!versions) {
+        console.warn('[CDC] No embedding index found');
+        this.resetStore();
+        return;
+      }
+
+      if (this.applyIndex(versions)) {
+        cacheDirty = true;
+      }
     }
 
-    const result = new Map<string, NoteEmbedding>();
+    if (this.binaryCache && !this.cacheRestored) {
+      await this.restoreFromBinaryCache(this.binaryCache);
+    }
 
-    // 인덱스 읽기
-    const index = await this.readIndex();
-    if (!index) {
-      console.warn('[CDC] No embedding index found');
-      return result;
+    // 인덱스 버전과 로드된 버전이 다른 노트만 다시 읽기
+    const staleNoteIds: string[] = [];
+    for (const [noteId, updatedAt] of this.indexVersions) {
+      if (this.loadedVersions.get(noteId) !== updatedAt) {
+        staleNoteIds.push(noteId);
+      }
     }
 
-    const noteIds = Object.keys(index.notes);
-    console.log(`[CDC] Found ${noteIds.length} notes in embedding index`);
+    if (staleNoteIds.length > 0) {
+      console.log(`[CDC] Reloading ${staleNoteIds.length} of ${this.indexVersions.size} embeddings`);
+    }
 
     // 배치로 임베딩 읽기 (성능 최적화)
-    for (let i = 0; i < noteIds.length; i += BATCH_SIZE) {
-      const batch = noteIds.slice(i, i + BATCH_SIZE);
+    for (let i = 0; i < staleNoteIds.length; i += BATCH_SIZE) {
+      const batch = staleNoteIds.slice(i, i + BATCH_SIZE);
       const embeddings = await Promise.all(
-        batch.map((noteId) => this.getEmbedding(noteId))
+        batch.map((noteId) => this.source.readEmbedding(noteId))
       );
 
       embeddings.forEach((emb, idx) => {
+        const noteId = batch[idx];
         if (emb) {
-          result.set(batch[idx], emb);
+          this.store.set(noteId, emb);
+        } else {
+          this.store.delete(noteId);
         }
+        // 읽기 실패도 버전을 기록해 매번 재시도하지 않음 (파일 변경 시 invalidate됨)
+        this.loadedVersions.set(noteId, this.indexVersions.get(noteId)!);
       });
+      cacheDirty = true;
+      this.version++;
     }
 
-    console.log(`[CDC] Loaded ${result.size} embeddings`);
-    this.allEmbeddingsCache = result;
-    this.allEmbeddingsCacheTime = now;
-    return result;
+    if (cacheDirty && this.binaryCache) {
+      // 스냅샷을 넘겨 저장 전에 store가 비워져도 캐시가 지워지지 않게 함
+      this.binaryCache.scheduleSave(new Map(this.store), new Map(this.loadedVersions));
+    }
   }
 
   /**
-   * Clear all caches including TTL cache
+   * 바이너리 캐시에서 인덱스 버전이 같은 임베딩만 복원
    */
-  clearAllCache(): void {
-    this.allEmbeddingsCache = null;
-    this.allEmbeddingsCacheTime = 0;
+  private async restoreFromBinaryCache(binaryCache: EmbeddingBinaryCache): Promise<void> {
+    this.cacheRestored = true;
+    const cached = await binaryCache.load();
+
+    let restored = 0;
+    for (const [noteId, { embedding, indexVersion }] of cached) {
+      if (this.loadedVersions.has(noteId)) continue;
+      if (this.indexVersions.get(noteId) !== indexVersion) continue;
+
+      this.store.set(noteId, embedding);
+      this.loadedVersions.set(noteId, indexVersion);
+      restored++;
+    }
+
+    if (restored > 0) {
+      this.version++;
+      console.log(`[CDC] Restored ${restored} of ${this.indexVersions.size} embeddings from binary cache`);
+    }
   }
 
   /**
-   * 임베딩 인덱스 읽기
+   * 로드된 임베딩을 모델/차원별로 그룹화
    */
-  async readIndex(): Promise<EmbeddingIndex | null> {
-    const indexPath = normalizePath(`${EMBEDDING_FOLDER}/index.json`);
+  private groupByModel(): EmbeddingModelGroup[] {
+    const groups = new Map<string, EmbeddingModelGroup>();
 
-    try {
-      // Cross-platform: adapter 폴백 패턴
-      const file = this.vault.getAbstractFileByPath(indexPath);
-      if (!file) {
-        const exists = await this.vault.adapter.exists(indexPath);
-        if (!exists) {
-          return null;
-        }
+    for (const emb of this.store.values()) {
+      const dimension = emb.embedding?.length ?? 0;
+      if (dimension === 0) continue;
+
+      const key = `${emb.model}::${dimension}`;
+      const group = groups.get(key);
+      if (group) {
+        group.count++;
+      } else {
+        groups.set(key, { model: emb.model, dimension, count: 1 });
       }
+    }
 
-      const content = await this.vault.adapter.read(indexPath);
-      return JSON.parse(content) as EmbeddingIndex;
-    } catch (error) {
-      console.error('[CDC] Failed to read embedding index:', error);
-      return null;
+    return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * 활성 그룹 결정: 지정 모델이 있으면 그 모델의 최다 그룹, 없으면 전체 최다 그룹
+   */
+  private resolveActiveGroup(groups: EmbeddingModelGroup[]): EmbeddingModelGroup | null {
+    if (this.preferredModel) {
+      const preferred = groups.find((g) => g.model === this.preferredModel);
+      if (preferred) return preferred;
+      console.warn(`[CDC] Preferred embedding model "${this.preferredModel}" not found, using most common model`);
+    }
+    return groups[0] ?? null;
+  }
+
+  private matchesGroup(emb: NoteEmbedding, group: EmbeddingModelGroup): boolean {
+    return emb.model === group.model && emb.embedding?.length === group.dimension;
+  }
+
+  /**
+   * 볼트 파일 변경 알림 처리
+   * 출처에 속한 파일이면 인덱스를 재확인하고, 특정 노트 파일이면 해당 항목만 무효화
+   */
+  handleFileChange(path: string): void {
+    const change = this.source.classifyPath(path);
+    if (!change) return;
+
+    this.indexDirty = true;
+    if (change.noteId) {
+      this.loadedVersions.delete(change.noteId);
     }
   }
 
   /**
-   * 임베딩 폴더 존재 여부 확인
+   * Clear all caches (다음 로드 시 전체 재읽기)
    */
-  async hasEmbeddingFolder(): Promise<boolean> {
-    const folderPath = normalizePath(EMBEDDING_FOLDER);
-    try {
-      return await this.vault.adapter.exists(folderPath);
-    } catch {
-      return false;
+  clearAllCache(): void {
+    this.resetStore();
+    this.indexDirty = true;
+    this.cacheRestored = false;
+  }
+
+  /**
+   * 인덱스를 반영: 삭제된 노트 제거, 버전 갱신
+   * @returns 제거된 노트가 있으면 true
+   */
+  private applyIndex(versions: Map<string, string>): boolean {
+    console.log(`[CDC] Found ${versions.size} notes in embedding index`);
+
+    this.indexVersions = new Map(versions);
+
+    let removed = false;
+    for (const noteId of Array.from(this.store.keys())) {
+      if (!this.indexVersions.has(noteId)) {
+        this.store.delete(noteId);
+        removed = true;
+      }
+    }
+    if (removed) this.version++;
+    for (const noteId of Array.from(this.loadedVersions.keys())) {
+      if (!this.indexVersions.has(noteId)) {
+        this.loadedVersions.delete(noteId);
+      }
     }
+    return removed;
+  }
+
+  private resetStore(): void {
+    this.version++;
+    this.store.clear();
+    this.indexVersions.clear();
+    this.loadedVersions.clear();
   }
 
   /**
    * 임베딩 개수 조회
    */
   async getEmbeddingCount(): Promise<number> {
-    const index = await this.readIndex();
-    if (!index) return 0;
-    return Object.keys(index.notes).length;
+    const versions = await this.source.readIndex();
+    return versions?.size ?? 0;
   }
 }
@@ -0,0 +1,86 @@
+/**
+ * VaultEmbeddingsWriter
+ * Vault Embeddings 플러그인과 같은 형식으로 임베딩 저장
+ *
+ * - {folder}/embeddings/{safeId}.json: { noteId, path, vector, model, dimensions, updatedAt, chunks? }
+ * - {folder}/index.json: { version, notes: { [noteId]: { path, updatedAt } } }
+ *
+ * 기존 index.json의 다른 필드는 보존하여 두 플러그인이 같은 폴더를 공유할 수 있음
+ */
+
+import { normalizePath, type Vault } from 'obsidian';
+import { toSafeFileId } from '../../domain/utils/note-id';
+import type { EmbeddingIndex } from './sources/vault-embeddings-source';
+
+const INDEX_VERSION = '1.0';
+
+export class VaultEmbeddingsWriter {
+  constructor(
+    private vault: Vault,
+    private folder: string
+  ) {}
+
+  /**
+   * 현재 인덱스 읽기 (없으면 빈 인덱스)
+   */
+  async readIndex(): Promise<EmbeddingIndex> {
+    const indexPath = normalizePath(`${this.folder}/index.json`);
+    try {
+      if (await this.vault.adapter.exists(indexPath)) {
+        const index = JSON.parse(await this.vault.adapter.read(indexPath)) as EmbeddingIndex;
+        if (index.notes) return index;
+      }
+    } catch (error) {
+      console.error('[CDC] Failed to read embedding index, starting fresh:', error);
+    }
+    return { version: INDEX_VERSION, notes: {} };
+  }
+
+  /**
+   * 단일 노트 임베딩 파일 쓰기
+   */
+  async writeEmbedding(params: {
+    noteId: string;
+    path: string;
+    vector: number[];
+    chunks?: Array<{ heading?: string; blockId?: string; vector: number[] }>;
+    model: string;
+    updatedAt: string;
+  }): Promise<void> {
+    await this.ensureFolder(`${this.folder}/embeddings`);
+
+    const embeddingPath = normalizePath(
+      `${this.folder}/embeddings/${toSafeFileId(params.noteId)}.json`
+    );
+    await this.vault.adapter.write(
+      embeddingPath,
+      JSON.stringify({
+        noteId: params.noteId,
+        path: params.path,
+        vector: params.vector,
+        model: params.model,
+        dimensions: params.vector.length,
+        updatedAt: params.updatedAt,
+        ...(params.chunks ? { chunks: params.chunks } : {}),
+      })
+    );
+  }
+
+  /**
+   * 인덱스 쓰기
+   */
+  async writeIndex(index: EmbeddingIndex): Promise<void> {
+    await this.ensureFolder(this.folder);
+    await this.vault.adapter.write(
+      normalizePath(`${this.folder}/index.json`),
+      JSON.stringify(index, null, 2)
+    );
+  }
+
+  private async ensureFolder(folder: string): Promise<void> {
+    const path = normalizePath(folder);
+    if (!(await this.vault.adapter.exists(path))) {
+      await this.vault.adapter.mkdir(path);
+    }
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * VectorIndex
+ * 정규화된 임베딩 위의 IVF(Inverted File) 근사 최근접 이웃 인덱스
+ *
+ * - k-means 중심점으로 벡터를 리스트에 분할하고, 검색 시 가까운 리스트의 노트만 후보로 반환
+ * - 후보의 정확한 유사도 계산은 호출자 몫 (SimilarityWorker에서 실행)
+ * - 중심점과 노트별 할당(updatedAt 포함)을 플러그인 폴더에 영구 저장
+ * - sync() 시 updatedAt이 바뀐 노트만 재할당 (증분 갱신)
+ */
+
+import { normalizePath, type Vault } from 'obsidian';
+import type { NoteEmbedding } from './vault-embeddings-reader';
+import { dotProduct, toNormalizedFloat32 } from '../../domain/utils/vector-math';
+
+const INDEX_VERSION = 1;
+const MIN_NOTES_FOR_PARTITIONING = 500;  // 이보다 적으면 단일 리스트 (정확 검색)
+const KMEANS_ITERATIONS = 5;
+const KMEANS_SAMPLE_SIZE = 2000;
+const PROBE_RATIO = 0.15;                // 검색 시 스캔할 리스트 비율
+const MIN_PROBES = 4;
+const REBUILD_GROWTH_FACTOR = 2;         // 빌드 시점 대비 2배 증감 시 재빌드
+
+/**
+ * 영구 저장 구조
+ */
+interface PersistedVectorIndex {
+  version: number;
+  dimension: number;
+  builtSize: number;
+  centroids: number[][];
+  entries: Record<string, { list: number; updatedAt: string }>;
+}
+
+export class VectorIndex {
+  private dimension = 0;
+  private builtSize = 0;
+  private centroids: Float32Array[] = [];
+  private lists: Set<string>[] = [];
+  private entries: Map<string, { list: number; updatedAt: string }> = new Map();
+  private loaded = false;
+
+  constructor(
+    private vault: Vault,
+    private indexPath: string
+  ) {}
+
+  /**
+   * 임베딩 목록과 인덱스 동기화
+   * 인덱스가 없거나 크기가 크게 변했으면 재빌드, 아니면 변경분만 갱신
+   */
+  async sync(embeddings: Map<string, NoteEmbedding>): Promise<void> {
+    await this.ensureLoaded();
+
+    const dimension = this.detectDimension(embeddings);
+    if (dimension === 0) {
+      if (this.entries.size > 0) {
+        this.reset();
+        await this.save();
+      }
+      return;
+    }
+
+    if (this.needsRebuild(dimension, embeddings.size)) {
+      await this.build(embeddings, dimension);
+      await this.save();
+      return;
+    }
+
+    let changed = false;
+
+    for (const [noteId, emb] of embeddings) {
+      if (emb.embedding.length !== this.dimension) continue;
+
+      const entry = this.entries.get(noteId);
+      if (entry && entry.updatedAt === emb.updatedAt) continue;
+
+      this.upsert(noteId, emb);
+      changed = true;
+    }
+
+    for (const noteId of Array.from(this.entries.keys())) {
+      if (!embeddings.has(noteId)) {
+        this.remove(noteId);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.save();
+    }
+  }
+
+  /**
+   * 쿼리와 가까운 리스트에 속한 후보 노트 ID (근사)
+   * 인덱스를 쓸 수 없으면 null 반환 (호출자가 전체 스캔으로 폴백)
+   */
+  searchCandidates(query: number[]): string[] | null {
+    if (this.centroids.length === 0 || query.length !== this.dimension) {
+      return null;
+    }
+
+    const candidates: string[] = [];
+    for (const list of this.selectProbeLists(toNormalizedFloat32(query))) {
+      candidates.push(...this.lists[list]);
+    }
+    return candidates;
+  }
+
+  /**
+   * 인덱스 강제 재빌드
+   */
+  async rebuild(embeddings: Map<string, NoteEmbedding>): Promise<void> {
+    this.loaded = true;
+    this.reset();
+    await this.sync(embeddings);
+  }
+
+  /**
+   * 인덱싱된 노트 수
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 단일 노트 추가/갱신 (가장 가까운 리스트에 할당)
+   */
+  private upsert(noteId: string, emb: NoteEmbedding): void {
+    this.remove(noteId);
+
+    const list = this.nearestCentroid(toNormalizedFloat32(emb.embedding));
+
+    this.entries.set(noteId, { list, updatedAt: emb.updatedAt });
+    this.lists[list].add(noteId);
+  }
+
+  /**
+   * 단일 노트 제거
+   */
+  private remove(noteId: string): void {
+    const entry = this.entries.get(noteId);
+    if (!entry) return;
+
+    this.lists[entry.list]?.delete(noteId);
+    this.entries.delete(noteId);
+  }
+
+  /**
+   * k-means로 중심점을 학습하고 전체 노트 할당
+   */
+  private async build(
+    embeddings: Map<string, NoteEmbedding>,
+    dimension: number
+  ): Promise<void> {
+    this.reset();
+    this.dimension = dimension;
+
+    // 정규화 벡터는 빌드 동안만 유지
+    const vectors = new Map<string, Float32Array>();
+    for (const [noteId, emb] of embeddings) {
+      if (emb.embedding.length !== dimension) continue;
+      vectors.set(noteId, toNormalizedFloat32(emb.embedding));
+    }
+    const noteIds = Array.from(vectors.keys());
+
+    const k = noteIds.length < MIN_NOTES_FOR_PARTITIONING
+      ? 1
+      : Math.round(Math.sqrt(noteIds.length));
+
+    console.log(`[CDC] Building vector index: ${noteIds.length} notes, ${k} lists`);
+
+    // 결정적 초기화: 균등 간격으로 중심점 선택
+    const step = noteIds.length / k;
+    this.centroids = [];
+    for (let c = 0; c < k; c++) {
+      this.centroids.push(Float32Array.from(vectors.get(noteIds[Math.floor(c * step)])!));
+    }
+
+    if (k > 1) {
+      const sampleStep = Math.max(1, Math.floor(noteIds.length / KMEANS_SAMPLE_SIZE));
+      const sample = noteIds.filter((_, i) => i % sampleStep === 0);
+
+      for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+        const sums = this.centroids.map(() => new Float32Array(dimension));
+        const counts = new Array<number>(k).fill(0);
+
+        for (const noteId of sample) {
+          const vector = vectors.get(noteId)!;
+          const c = this.nearestCentroid(vector);
+          const sum = sums[c];
+          for (let d = 0; d < dimension; d++) {
+            sum[d] += vector[d];
+          }
+          counts[c]++;
+        }
+
+        for (let c = 0; c < k; c++) {
+          // 빈 클러스터는 이전 중심점 유지
+          if (counts[c] > 0) {
+            this.centroids[c] = toNormalizedFloat32(sums[c]);
+          }
+        }
+
+        // UI 스레드 양보
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+
+    this.lists = this.centroids.map(() => new Set<string>());
+    for (const noteId of noteIds) {
+      const list = this.nearestCentroid(vectors.get(noteId)!);
+      this.entries.set(noteId, { list, updatedAt: embeddings.get(noteId)!.updatedAt });
+      this.lists[list].add(noteId);
+    }
+
+    this.builtSize = noteIds.length;
+  }
+
+  /**
+   * 가장 가까운 중심점 인덱스
+   */
+  private nearestCentroid(vector: Float32Array): number {
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let c = 0; c < this.centroids.length; c++) {
+      const score = dotProduct(vector, this.centroids[c]);
+      if (score > bestScore) {
+        bestScore = score;
+        best = c;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 쿼리와 가까운 순으로 스캔할 리스트 선택
+   */
+  private selectProbeLists(query: Float32Array): number[] {
+    const probes = Math.min(
+      this.centroids.length,
+      Math.max(MIN_PROBES, Math.ceil(this.centroids.length * PROBE_RATIO))
+    );
+
+    return this.centroids
+      .map((centroid, c) => ({ c, score: dotProduct(query, centroid) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, probes)
+      .map(({ c }) => c);
+  }
+
+  /**
+   * 재빌드 필요 여부
+   */
+  private needsRebuild(dimension: number, size: number): boolean {
+    if (this.centroids.length === 0 || this.dimension !== dimension) return true;
+    if (this.builtSize === 0) return true;
+    return size > this.builtSize * REBUILD_GROWTH_FACTOR ||
+      size < this.builtSize / REBUILD_GROWTH_FACTOR;
+  }
+
+  /**
+   * 가장 흔한 임베딩 차원 검출
+   */
+  private detectDimension(embeddings: Map<string, NoteEmbedding>): number {
+    const counts = new Map<number, number>();
+    for (const emb of embeddings.values()) {
+      const length = emb.embedding?.length ?? 0;
+      if (length > 0) {
+        counts.set(length, (counts.get(length) ?? 0) + 1);
+      }
+    }
+
+    let dimension = 0;
+    let maxCount = 0;
+    for (const [length, count] of counts) {
+      if (count > maxCount) {
+        maxCount = count;
+        dimension = length;
+      }
+    }
+    return dimension;
+  }
+
+  private reset(): void {
+    this.dimension = 0;
+    this.builtSize = 0;
+    this.centroids = [];
+    this.lists = [];
+    this.entries.clear();
+  }
+
+  /**
+   * 저장된 인덱스 로드 (최초 1회)
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const path = normalizePath(this.indexPath);
+    try {
+      if (!(await this.vault.adapter.exists(path))) return;
+
+      const data = JSON.parse(await this.vault.adapter.read(path)) as PersistedVectorIndex;
+      if (data.version !== INDEX_VERSION) return;
+
+      this.dimension = data.dimension;
+      this.builtSize = data.builtSize;
+      this.centroids = data.centroids.map((c) => Float32Array.from(c));
+      this.lists = this.centroids.map(() => new Set<string>());
+
+      for (const [noteId, entry] of Object.entries(data.entries)) {
+        if (!this.lists[entry.list]) continue;
+        this.entries.set(noteId, entry);
+        this.lists[entry.list].add(noteId);
+      }
+
+      console.log(`[CDC] Loaded vector index: ${this.entries.size} notes, ${this.centroids.length} lists`);
+    } catch (error) {
+      console.error('[CDC] Failed to load vector index:', error);
+      this.reset();
+    }
+  }
+
+  /**
+   * 인덱스 영구 저장
+   */
+  private async save(): Promise<void> {
+    const data: PersistedVectorIndex = {
+      version: INDEX_VERSION,
+      dimension: this.dimension,
+      builtSize: this.builtSize,
+      centroids: this.centroids.map((c) => Array.from(c)),
+      entries: Object.fromEntries(this.entries),
+    };
+
+    try {
+      await this.vault.adapter.write(normalizePath(this.indexPath), JSON.stringify(data));
+    } catch (error) {
+      console.error('[CDC] Failed to save vector index:', error);
+    }
+  }
+}
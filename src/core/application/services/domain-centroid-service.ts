@@ -0,0 +1,117 @@
+/**
+ * DomainCentroidService
+ * 주 도메인별 중심 임베딩과 거리 행렬을 계산해 캐시하는 서비스
+ *
+ * 임베딩 버전(noteId + updatedAt)이 바뀌거나 일정 시간이 지나면(태그 변경 반영) 다시 계산
+ */
+
+import { DomainCentroids } from '../../domain/value-objects/domain-centroids';
+import type { DomainClassificationService } from './domain-classification-service';
+import type { VaultEmbeddingsReader } from '../../adapters/embeddings/vault-embeddings-reader';
+
+/**
+ * 캐시 유효 시간 (노트 태그/폴더 변경으로 도메인이 바뀌는 경우 대비)
+ */
+const CENTROID_TTL_MS = 10 * 60 * 1000;
+
+export interface DomainCentroidOptions {
+  includeFolders: string[];
+  excludeFolders: string[];
+}
+
+export class DomainCentroidService {
+  private cached: { key: string; builtAt: number; centroids: DomainCentroids } | null = null;
+  private pending: Promise<DomainCentroids> | null = null;
+
+  constructor(
+    private embeddingsReader: VaultEmbeddingsReader,
+    private classificationService: DomainClassificationService,
+    private options: DomainCentroidOptions
+  ) {}
+
+  /**
+   * 현재 임베딩 기준 도메인 중심 (캐시가 유효하면 재사용)
+   */
+  async getCentroids(): Promise<DomainCentroids> {
+    if (this.pending) return this.pending;
+
+    this.pending = this.computeIfStale().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  /**
+   * 캐시 무효화 (분류 설정 변경 시)
+   */
+  invalidate(): void {
+    this.cached = null;
+  }
+
+  private async computeIfStale(): Promise<DomainCentroids> {
+    const allEmbeddings = await this.embeddingsReader.getAllEmbeddings();
+    const key = this.versionKey(allEmbeddings);
+
+    if (this.cached && this.cached.key === key && Date.now() - this.cached.builtAt < CENTROID_TTL_MS) {
+      return this.cached.centroids;
+    }
+
+    const entries: Array<{ domain: string; vector: number[] }> = [];
+    for (const [noteId, emb] of allEmbeddings) {
+      const path = this.classificationService.getPathByNoteId(noteId);
+      if (!path || !this.isIncludedPath(path) || this.isExcludedPath(path)) continue;
+
+      try {
+        const domain = await this.classificationService.classifyNote(noteId);
+        entries.push({ domain: domain.primaryDomain, vector: emb.embedding });
+      } catch {
+        // 분류 실패한 노트는 스킵
+        continue;
+      }
+    }
+
+    const centroids = DomainCentroids.fromVectors(entries);
+    console.log(`[CDC] Computed centroids for ${centroids.size} domains from ${entries.length} notes`);
+
+    this.cached = { key, builtAt: Date.now(), centroids };
+    return centroids;
+  }
+
+  /**
+   * 임베딩 버전 해시
+   */
+  private versionKey(embeddings: Map<string, { updatedAt: string }>): string {
+    let hash = 0;
+    for (const [noteId, emb] of embeddings) {
+      const value = `${noteId}@${emb.updatedAt}`;
+      for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) - hash + value.charCodeAt(i)) | 0;
+      }
+      hash = ((hash << 5) - hash + 31) | 0;
+    }
+    return `${embeddings.size}:${hash}`;
+  }
+
+  /**
+   * 포함 대상 경로인지 확인
+   */
+  private isIncludedPath(path: string): boolean {
+    if (this.options.includeFolders.length === 0) {
+      return true;
+    }
+    const pathLower = path.toLowerCase();
+    return this.options.includeFolders.some((folder) =>
+      pathLower.startsWith(folder.toLowerCase() + '/')
+    );
+  }
+
+  /**
+   * 제외 경로인지 확인
+   */
+  private isExcludedPath(path: string): boolean {
+    const pathLower = path.toLowerCase();
+    return this.options.excludeFolders.some((folder) =>
+      pathLower.startsWith(folder.toLowerCase() + '/')
+    );
+  }
+}
@@ -8,6 +8,7 @@ import type { NoteDomain } from '../../domain/entities/note-domain';
 import type {
   IDomainClassifier,
   ClassificationMethod,
+  DomainSource,
 } from '../../domain/interfaces/domain-classifier';
 import { createNoteDomain } from '../../domain/entities/note-domain';
 import { generateNoteId } from '../../domain/utils/note-id';
@@ -15,15 +16,30 @@ import { generateNoteId } from '../../domain/utils/note-id';
 export interface DomainClassificationSettings {
   method: ClassificationMethod;
   domainTagPrefixes: string[]; // 예: ['domain/', 'topic/']
+  domainProperties: string[];  // frontmatter 방식의 도메인 속성 (예: ['domain', 'field', 'area'])
+  domainSourceOrder: DomainSource[];  // frontmatter 방식의 출처 우선순위
+  overrideProperty: string;    // 노트 도메인을 고정하는 속성 (모든 방식에 적용, 빈 문자열이면 사용 안 함)
 }
 
+/**
+ * 노트의 클러스터 라벨 조회 ('cluster' 방식, 클러스터가 없으면 null)
+ */
+export type ClusterLabelLookup = (noteId: string) => Promise<string | null>;
+
+/**
+ * 노트의 LLM 도메인 라벨 조회 ('llm' 방식, 라벨이 없으면 null)
+ */
+export type DomainLabelLookup = (noteId: string) => string | null;
+
 export class DomainClassificationService implements IDomainClassifier {
   private noteIdToPath: Map<string, string> = new Map();
 
   constructor(
     private vault: Vault,
     private getMetadata: (file: TFile) => CachedMetadata | null,
-    private settings: DomainClassificationSettings
+    private settings: DomainClassificationSettings,
+    private getClusterLabel: ClusterLabelLookup | null = null,
+    private getDomainLabel: DomainLabelLookup | null = null
   ) {
     this.buildNoteIdIndex();
   }
@@ -75,6 +91,13 @@ export class DomainClassificationService implements IDomainClassifier {
     return allFiles.find(f => f.path === normalizedPath) || null;
   }
 
+  /**
+   * noteId로 노트 수정 시각(ms) 조회
+   */
+  getModifiedTime(noteId: string): number | null {
+    return this.getFileByNoteId(noteId)?.stat.mtime ?? null;
+  }
+
   /**
    * 노트의 도메인을 분류
    */
@@ -86,41 +109,73 @@ export class DomainClassificationService implements IDomainClassifier {
 
     const metadata = this.getMetadata(file);
     const tags = this.extractTags(metadata);
+    const propertyDomains = this.settings.method === 'frontmatter'
+      ? this.extractPropertyDomains(metadata)
+      : [];
 
-    // 분류 방법에 따라 도메인 추론
-    let primaryDomain: string;
-
-    switch (this.settings.method) {
-      case 'tag':
-        primaryDomain =
-          this.inferDomainFromTags(tags) ||
-          this.inferDomainFromPath(file.path);
-        break;
-      case 'folder':
-        primaryDomain = this.inferDomainFromPath(file.path);
-        break;
-      case 'cluster':
-        // 클러스터 기반: 각 노트를 고유 도메인으로 처리
-        // 이렇게 하면 "같은 도메인 스킵" 로직을 통과하고,
-        // 실제 도메인 거리는 태그 Jaccard로 계산됨
-        // 의미적으로 유사(임베딩)하면서 태그가 다른 연결이 발견됨
-        primaryDomain = `cluster_${noteId}`;
-        break;
-      default:
-        primaryDomain = 'uncategorized';
-    }
+    // 고정 속성이 있으면 그 값, 없으면 분류 방법에 따라 도메인 추론
+    const primaryDomain =
+      this.readOverride(metadata) ??
+      (await this.inferPrimaryDomain(noteId, file.path, tags, propertyDomains));
 
     return createNoteDomain({
       noteId,
       path: file.path,
       title: file.basename,
       primaryDomain,
-      secondaryDomains: this.extractSecondaryDomains(tags, primaryDomain),
+      secondaryDomains: this.extractSecondaryDomains(tags, primaryDomain, propertyDomains),
       tags,
       embedding,
     });
   }
 
+  /**
+   * 분류 방법에 따라 주 도메인 추론
+   */
+  private async inferPrimaryDomain(
+    noteId: string,
+    path: string,
+    tags: string[],
+    propertyDomains: string[]
+  ): Promise<string> {
+    switch (this.settings.method) {
+      case 'tag':
+        return this.inferDomainFromTags(tags) || this.inferDomainFromPath(path);
+      case 'folder':
+        return this.inferDomainFromPath(path);
+      case 'cluster':
+        // 클러스터 기반: 임베딩 군집화로 정해진 클러스터 라벨이 도메인
+        // 같은 클러스터의 노트는 같은 도메인으로 보고 건너뜀
+        return (await this.getClusterLabel?.(noteId)) ?? 'uncategorized';
+      case 'frontmatter':
+        return this.inferDomainFromSources(propertyDomains, tags, path);
+      case 'llm':
+        // LLM 라벨: 도메인 태그가 없는 노트에만 적용
+        return (
+          this.inferDomainFromTags(tags) ||
+          this.getDomainLabel?.(noteId) ||
+          this.inferDomainFromPath(path)
+        );
+      default:
+        return 'uncategorized';
+    }
+  }
+
+  /**
+   * 출처 우선순위대로 도메인 추론 (frontmatter 방식)
+   * 어느 출처에서도 찾지 못하면 폴더
+   */
+  private inferDomainFromSources(propertyDomains: string[], tags: string[], path: string): string {
+    for (const source of this.settings.domainSourceOrder) {
+      const domain =
+        source === 'frontmatter' ? propertyDomains[0] :
+        source === 'tag' ? this.inferDomainFromTags(tags) :
+        this.inferDomainFromPath(path);
+      if (domain) return domain;
+    }
+    return this.inferDomainFromPath(path);
+  }
+
   /**
    * 태그에서 도메인 추론
    */
@@ -153,6 +208,89 @@ export class DomainClassificationService implements IDomainClassifier {
     return 'root';
   }
 
+  /**
+   * 모든 노트의 태그 목록 (도메인 태그 제외, 일반적 용어 학습용)
+   */
+  getNonDomainTagLists(): string[][] {
+    return this.vault.getMarkdownFiles().map((file) =>
+      this.extractTags(this.getMetadata(file)).filter(
+        (tag) => !this.settings.domainTagPrefixes.some((prefix) => tag.startsWith(prefix))
+      )
+    );
+  }
+
+  /**
+   * 도메인 태그가 없는 노트 ID 목록 (도메인 고정/속성이 있는 노트 제외)
+   */
+  getUntaggedNoteIds(): string[] {
+    return this.vault.getMarkdownFiles()
+      .filter((file) => {
+        const metadata = this.getMetadata(file);
+        if (this.readOverride(metadata)) return false;
+        if (this.settings.method === 'frontmatter' && this.extractPropertyDomains(metadata).length > 0) return false;
+        return !this.inferDomainFromTags(this.extractTags(metadata));
+      })
+      .map((file) => generateNoteId(file.path));
+  }
+
+  /**
+   * 볼트에서 쓰이는 도메인 태그 값 (중복 제거)
+   */
+  getTaggedDomains(): string[] {
+    const domains = new Set<string>();
+    for (const file of this.vault.getMarkdownFiles()) {
+      const domain = this.inferDomainFromTags(this.extractTags(this.getMetadata(file)));
+      if (domain) domains.add(domain);
+    }
+    return Array.from(domains).sort();
+  }
+
+  /**
+   * 도메인 속성 값 (설정한 속성 순서대로, 목록 값은 항목 순서대로)
+   * 예: "domain: [철학, 윤리학]" → ['철학', '윤리학']
+   */
+  private extractPropertyDomains(metadata: CachedMetadata | null): string[] {
+    const domains: string[] = [];
+    for (const property of this.settings.domainProperties) {
+      for (const value of this.readProperty(metadata, property)) {
+        if (!domains.includes(value)) domains.push(value);
+      }
+    }
+    return domains;
+  }
+
+  /**
+   * 고정 도메인 속성 값 (없으면 null)
+   */
+  private readOverride(metadata: CachedMetadata | null): string | null {
+    if (!this.settings.overrideProperty) return null;
+    return this.readProperty(metadata, this.settings.overrideProperty)[0] ?? null;
+  }
+
+  /**
+   * frontmatter 속성 값 목록 (속성명 대소문자 무시)
+   * 쉼표로 구분된 문자열, 위키링크, '#' 접두사도 허용
+   */
+  private readProperty(metadata: CachedMetadata | null, property: string): string[] {
+    const frontmatter = metadata?.frontmatter;
+    if (!frontmatter) return [];
+
+    const key = Object.keys(frontmatter).find((k) => k.toLowerCase() === property.toLowerCase());
+    const raw: unknown = key ? frontmatter[key] : undefined;
+    const values = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : raw != null ? [raw] : [];
+
+    return values
+      .filter((value) => typeof value === 'string' || typeof value === 'number')
+      .map((value) =>
+        String(value)
+          .trim()
+          .replace(/^\[\[([^\]|]+)(\|[^\]]*)?\]\]$/, '$1')
+          .replace(/^#/, '')
+          .trim()
+      )
+      .filter((value) => value.length > 0);
+  }
+
   /**
    * 메타데이터에서 태그 추출
    */
@@ -166,9 +304,10 @@ export class DomainClassificationService implements IDomainClassifier {
    */
   private extractSecondaryDomains(
     tags: string[],
-    primaryDomain: string
+    primaryDomain: string,
+    propertyDomains: string[] = []
   ): string[] {
-    const domains: string[] = [];
+    const domains = propertyDomains.filter((domain) => domain !== primaryDomain);
 
     for (const prefix of this.settings.domainTagPrefixes) {
       const domainTags = tags.filter((t) => t.startsWith(prefix));
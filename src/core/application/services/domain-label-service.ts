@@ -0,0 +1,389 @@
+/**
+ * DomainLabelService
+ * 도메인 태그가 없는 노트(또는 임베딩 클러스터)에 LLM으로 도메인 라벨을 붙이는 서비스
+ *
+ * - 노트 라벨은 제목+발췌문 해시와 함께 캐시하여 내용이 바뀐 노트만 다시 질의
+ * - 클러스터 이름은 클러스터 ID별로 구성 노트 해시와 함께 캐시 (구성이 바뀌면 무효)
+ * - 사용자가 수락한 라벨은 frontmatter의 도메인 태그로 기록
+ */
+
+import { normalizePath, type FileManager, type TFile, type Vault } from 'obsidian';
+import type { AIService } from './ai-service';
+import type { ClusterMember } from '../../domain/utils/cluster-labels';
+import { simpleHash } from '../../domain/utils/note-id';
+import { cleanMarkdown, stripFrontmatter } from '../../domain/utils/text-chunker';
+
+const CACHE_VERSION = 2;
+const EXCERPT_LENGTH = 400;
+const NOTES_PER_REQUEST = 15;
+const MEMBERS_PER_CLUSTER = 12;
+
+/**
+ * 라벨 제안 (같은 라벨의 노트를 묶음)
+ */
+export interface DomainLabelSuggestion {
+  label: string;
+  noteIds: string[];
+}
+
+/**
+ * 라벨링 진행률
+ */
+export interface DomainLabelProgress {
+  completed: number;
+  total: number;
+}
+
+export interface DomainLabelRunOptions {
+  /** 기존 도메인 이름 (일관된 어휘를 위해 프롬프트에 포함) */
+  knownDomains?: string[];
+  onProgress?: (progress: DomainLabelProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * 이름을 붙일 클러스터
+ */
+export interface ClusterToName {
+  id: number;
+  /** 구성 노트 해시 */
+  memberHash: string;
+  /** 키워드 기반 클러스터 라벨 (프롬프트 힌트) */
+  label: string;
+  members: ClusterMember[];
+}
+
+export interface DomainLabelOptions {
+  cachePath: string;
+  maxNewLabels: number;  // 한 번에 새로 질의할 최대 노트 수 (비용 제어)
+}
+
+/**
+ * 영구 저장 구조
+ */
+interface PersistedDomainLabels {
+  version: number;
+  notes: Record<string, { hash: string; label: string }>;
+  /** 클러스터 ID → 구성 노트 해시와 이름 */
+  clusters: Record<string, { hash: string; name: string }>;
+}
+
+export class DomainLabelService {
+  private notes: Map<string, { hash: string; label: string }> = new Map();
+  private clusters: Map<string, { hash: string; name: string }> = new Map();
+
+  constructor(
+    private vault: Vault,
+    private fileManager: FileManager,
+    private resolveFile: (noteId: string) => TFile | null,
+    private getAIService: () => AIService | null,
+    private options: DomainLabelOptions
+  ) {}
+
+  /**
+   * 옵션 교체
+   */
+  updateOptions(options: DomainLabelOptions): void {
+    this.options = options;
+  }
+
+  /**
+   * 캐시된 노트 라벨 (없으면 null)
+   */
+  getLabel(noteId: string): string | null {
+    return this.notes.get(noteId)?.label ?? null;
+  }
+
+  /**
+   * 클러스터의 LLM 이름 (없거나 이름을 붙인 뒤 구성이 바뀌었으면 null)
+   */
+  getClusterName(clusterId: number, memberHash: string): string | null {
+    const cached = this.clusters.get(String(clusterId));
+    return cached?.hash === memberHash ? cached.name : null;
+  }
+
+  /**
+   * 노트 라벨링 (내용이 바뀌지 않은 노트는 캐시 사용)
+   * @returns 라벨별로 묶은 제안 (라벨을 얻지 못한 노트는 제외)
+   */
+  async labelNotes(noteIds: string[], runOptions: DomainLabelRunOptions = {}): Promise<DomainLabelSuggestion[]> {
+    const aiService = this.requireAIService();
+
+    const pending: Array<{ noteId: string; title: string; excerpt: string; hash: string }> = [];
+    for (const noteId of noteIds) {
+      const file = this.resolveFile(noteId);
+      if (!file) continue;
+
+      const excerpt = cleanMarkdown(stripFrontmatter(await this.vault.cachedRead(file)))
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, EXCERPT_LENGTH);
+      const hash = simpleHash(`${file.basename}\n${excerpt}`);
+      if (this.notes.get(noteId)?.hash === hash) continue;
+
+      pending.push({ noteId, title: file.basename, excerpt, hash });
+      if (pending.length >= this.options.maxNewLabels) break;
+    }
+
+    const knownDomains = new Set(runOptions.knownDomains ?? []);
+    for (const { label } of this.notes.values()) knownDomains.add(label);
+
+    let completed = 0;
+    runOptions.onProgress?.({ completed, total: pending.length });
+
+    for (let start = 0; start < pending.length; start += NOTES_PER_REQUEST) {
+      if (runOptions.signal?.aborted) break;
+
+      const batch = pending.slice(start, start + NOTES_PER_REQUEST);
+      const response = await aiService.generate(this.buildNotePrompt(batch, Array.from(knownDomains)), {
+        systemPrompt: this.buildSystemPrompt(),
+        temperature: 0.2,
+        maxTokens: 1024,
+      });
+
+      if (response.success && response.content) {
+        for (const [index, label] of this.parseNumberedLines(response.content, batch.length)) {
+          const { noteId, hash } = batch[index];
+          this.notes.set(noteId, { hash, label });
+          knownDomains.add(label);
+        }
+      } else {
+        console.error('[CDC] Domain labelling failed:', response.error?.message);
+      }
+
+      completed += batch.length;
+      runOptions.onProgress?.({ completed, total: pending.length });
+    }
+
+    if (pending.length > 0) {
+      console.log(`[CDC] Labelled ${completed} notes (${noteIds.length - pending.length} cached or skipped)`);
+      await this.save();
+    }
+
+    return this.groupSuggestions(noteIds);
+  }
+
+  /**
+   * 클러스터 이름 짓기 (구성이 바뀌지 않은 클러스터는 캐시 사용)
+   * @returns 클러스터 ID → LLM 이름
+   */
+  async nameClusters(clusters: ClusterToName[]): Promise<Map<number, string>> {
+    const aiService = this.requireAIService();
+
+    const pending = clusters
+      .filter((cluster) => this.getClusterName(cluster.id, cluster.memberHash) === null)
+      .map((cluster) => ({ ...cluster, members: cluster.members.slice(0, MEMBERS_PER_CLUSTER) }));
+
+    if (pending.length > 0) {
+      const response = await aiService.generate(this.buildClusterPrompt(pending), {
+        systemPrompt: this.buildSystemPrompt(),
+        temperature: 0.2,
+        maxTokens: 1024,
+      });
+
+      if (!response.success || !response.content) {
+        throw new Error(response.error?.message ?? 'Empty response from AI');
+      }
+
+      for (const [index, name] of this.parseNumberedLines(response.content, pending.length)) {
+        const { id, memberHash } = pending[index];
+        this.clusters.set(String(id), { hash: memberHash, name });
+      }
+      await this.save();
+    }
+
+    const names = new Map<number, string>();
+    for (const { id, memberHash } of clusters) {
+      const name = this.getClusterName(id, memberHash);
+      if (name) names.set(id, name);
+    }
+    return names;
+  }
+
+  /**
+   * 수락한 라벨을 노트 frontmatter 태그로 기록
+   * @param prefix 도메인 태그 접두사 (예: 'domain/')
+   * @returns 기록한 노트 수
+   */
+  async writeDomainTags(noteIds: string[], label: string, prefix: string): Promise<number> {
+    const tag = `${prefix}${toTagSegment(label)}`;
+    let written = 0;
+
+    for (const noteId of noteIds) {
+      const file = this.resolveFile(noteId);
+      if (!file) continue;
+
+      try {
+        await this.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+          const existing = frontmatter.tags;
+          const tags = Array.isArray(existing)
+            ? existing.map(String)
+            : typeof existing === 'string'
+              ? existing.split(/[,\s]+/).filter((t) => t.length > 0)
+              : [];
+          if (!tags.some((t) => t.replace(/^#/, '') === tag)) {
+            tags.push(tag);
+          }
+          frontmatter.tags = tags;
+        });
+        written++;
+      } catch (error) {
+        console.error(`[CDC] Failed to write domain tag to ${file.path}:`, error);
+      }
+    }
+
+    return written;
+  }
+
+  /**
+   * 저장된 라벨 로드
+   */
+  async load(): Promise<void> {
+    const path = normalizePath(this.options.cachePath);
+    try {
+      if (!(await this.vault.adapter.exists(path))) return;
+
+      const data = JSON.parse(await this.vault.adapter.read(path)) as PersistedDomainLabels;
+      if (data.version !== CACHE_VERSION && data.version !== 1) return;
+
+      this.notes = new Map(Object.entries(data.notes ?? {}));
+      // 버전 1은 클러스터 이름을 키워드 라벨로 저장했으므로 노트 라벨만 유지
+      this.clusters = new Map(data.version === CACHE_VERSION ? Object.entries(data.clusters ?? {}) : []);
+      console.log(`[CDC] Loaded ${this.notes.size} domain labels, ${this.clusters.size} cluster names`);
+    } catch (error) {
+      console.error('[CDC] Failed to load domain labels:', error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    const data: PersistedDomainLabels = {
+      version: CACHE_VERSION,
+      notes: Object.fromEntries(this.notes),
+      clusters: Object.fromEntries(this.clusters),
+    };
+
+    try {
+      await this.vault.adapter.write(normalizePath(this.options.cachePath), JSON.stringify(data));
+    } catch (error) {
+      console.error('[CDC] Failed to save domain labels:', error);
+    }
+  }
+
+  private requireAIService(): AIService {
+    const aiService = this.getAIService();
+    if (!aiService) {
+      throw new Error('AI API key is not configured');
+    }
+    return aiService;
+  }
+
+  /**
+   * 라벨별로 노트 묶기 (큰 묶음 순)
+   */
+  private groupSuggestions(noteIds: string[]): DomainLabelSuggestion[] {
+    const groups = new Map<string, string[]>();
+    for (const noteId of noteIds) {
+      const label = this.getLabel(noteId);
+      if (!label) continue;
+      const group = groups.get(label) ?? [];
+      group.push(noteId);
+      groups.set(label, group);
+    }
+
+    return Array.from(groups, ([label, ids]) => ({ label, noteIds: ids }))
+      .sort((a, b) => b.noteIds.length - a.noteIds.length || a.label.localeCompare(b.label));
+  }
+
+  /**
+   * 노트 라벨링 프롬프트
+   */
+  private buildNotePrompt(
+    notes: Array<{ title: string; excerpt: string }>,
+    knownDomains: string[]
+  ): string {
+    const list = notes
+      .map((note, i) => `${i + 1}. 제목: ${note.title}\n   발췌: ${note.excerpt || '(본문 없음)'}`)
+      .join('\n');
+
+    return `다음 노트들이 속한 지식 도메인(학문 분야나 주제 영역)을 하나씩 정해주세요.
+
+## 기존 도메인
+${knownDomains.length > 0 ? knownDomains.slice(0, 50).join(', ') : '없음'}
+
+## 노트
+${list}
+
+## 응답 형식 (노트마다 한 줄)
+1: 도메인
+2: 도메인
+...
+
+- 기존 도메인 중 맞는 것이 있으면 그대로 사용하고, 없을 때만 새 도메인을 만드세요.
+- 도메인은 1-3단어의 일반적인 분야명으로 (예: 철학, 경제학, 소프트웨어 설계).`;
+  }
+
+  /**
+   * 클러스터 이름 프롬프트
+   */
+  private buildClusterPrompt(clusters: ClusterToName[]): string {
+    const list = clusters
+      .map((cluster, i) => {
+        const members = cluster.members
+          .map((m) => `   - ${m.title}${m.tags.length > 0 ? ` (${m.tags.join(', ')})` : ''}`)
+          .join('\n');
+        return `${i + 1}. 키워드: ${cluster.label}\n${members}`;
+      })
+      .join('\n');
+
+    return `다음은 임베딩으로 묶은 노트 클러스터입니다. 각 클러스터가 나타내는 지식 도메인의 이름을 정해주세요.
+
+## 클러스터
+${list}
+
+## 응답 형식 (클러스터마다 한 줄)
+1: 도메인
+2: 도메인
+...
+
+- 도메인은 1-3단어의 일반적인 분야명으로 (예: 철학, 경제학, 소프트웨어 설계).
+- 서로 다른 클러스터에는 가능한 한 다른 이름을 붙이세요.`;
+  }
+
+  /**
+   * 시스템 프롬프트
+   */
+  private buildSystemPrompt(): string {
+    return `당신은 개인 지식 관리(PKM) 볼트의 노트를 분야별로 분류하는 사서입니다.
+반드시 지정된 응답 형식만 사용하고, 설명은 덧붙이지 마세요.`;
+  }
+
+  /**
+   * "번호: 라벨" 줄 파싱
+   * @returns 0부터 시작하는 번호 → 라벨
+   */
+  private parseNumberedLines(content: string, count: number): Map<number, string> {
+    const result = new Map<number, string>();
+    for (const line of content.split('\n')) {
+      const match = line.trim().match(/^(\d+)[.:)]\s*(.+)$/);
+      if (!match) continue;
+
+      const index = parseInt(match[1], 10) - 1;
+      // 태그로 기록했을 때와 같은 도메인 이름이 되도록 태그 형식으로 정규화
+      const label = toTagSegment(match[2].replace(/^["'*`]+|["'*`.]+$/g, ''));
+      if (index >= 0 && index < count && label.length > 0 && !result.has(index)) {
+        result.set(index, label);
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * 라벨을 태그 한 단계로 변환 (공백은 '-', 태그에 쓸 수 없는 문자 제거)
+ */
+export function toTagSegment(label: string): string {
+  return label
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/[#,;:!?'"()[\]{}<>|\\^*&%$@~`=+/.]/g, '');
+}
@@ -0,0 +1,80 @@
+/**
+ * DomainTaxonomyService
+ * 도메인 계층을 설정의 개요 텍스트 또는 볼트의 계층 노트에서 읽어 유지하는 서비스
+ *
+ * 계층 노트 경로가 설정되어 있으면 노트가 우선이며, 노트가 바뀌면 다시 읽음
+ */
+
+import { normalizePath, type Vault } from 'obsidian';
+import { DomainTaxonomy } from '../../domain/value-objects/domain-taxonomy';
+
+export interface DomainTaxonomySettings {
+  outline: string;   // 설정에 직접 입력한 개요
+  notePath: string;  // 계층 노트 경로 (빈 문자열이면 개요 사용)
+}
+
+export class DomainTaxonomyService {
+  private taxonomy: DomainTaxonomy | null = null;
+
+  constructor(
+    private vault: Vault,
+    private settings: DomainTaxonomySettings
+  ) {}
+
+  /**
+   * 현재 계층 (정의된 도메인이 없으면 null)
+   */
+  getTaxonomy(): DomainTaxonomy | null {
+    return this.taxonomy;
+  }
+
+  /**
+   * 설정 교체 후 다시 읽기
+   */
+  async updateSettings(settings: DomainTaxonomySettings): Promise<void> {
+    this.settings = settings;
+    await this.load();
+  }
+
+  /**
+   * 계층 읽기 (노트를 읽지 못하면 설정 개요로 대체)
+   */
+  async load(): Promise<DomainTaxonomy | null> {
+    let outline = this.settings.outline;
+
+    const notePath = this.getNotePath();
+    if (notePath) {
+      try {
+        if (await this.vault.adapter.exists(notePath)) {
+          outline = await this.vault.adapter.read(notePath);
+        } else {
+          console.warn(`[CDC] Taxonomy note "${notePath}" not found, using settings outline`);
+        }
+      } catch (error) {
+        console.error(`[CDC] Failed to read taxonomy note ${notePath}:`, error);
+      }
+    }
+
+    const taxonomy = DomainTaxonomy.parse(outline);
+    this.taxonomy = taxonomy.size > 0 ? taxonomy : null;
+    if (this.taxonomy) {
+      console.log(`[CDC] Loaded domain taxonomy with ${taxonomy.size} domains`);
+    }
+    return this.taxonomy;
+  }
+
+  /**
+   * 볼트 파일 변경 알림 처리 (계층 노트면 다시 읽음)
+   */
+  async handleFileChange(path: string): Promise<void> {
+    if (path === this.getNotePath()) {
+      await this.load();
+    }
+  }
+
+  private getNotePath(): string {
+    const path = this.settings.notePath.trim();
+    if (!path) return '';
+    return normalizePath(path.endsWith('.md') ? path : `${path}.md`);
+  }
+}
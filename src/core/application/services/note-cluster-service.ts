@@ -0,0 +1,122 @@
+/**
+ * NoteClusterService
+ * 'cluster' 분류 방식에서 노트의 클러스터 라벨을 제공하는 서비스
+ *
+ * 조회 시 임베딩과 클러스터를 동기화하되, 임베딩 재생성 알림(invalidate)이 없으면
+ * 일정 주기로만 다시 확인
+ */
+
+import type { VaultEmbeddingsReader } from '../../adapters/embeddings/vault-embeddings-reader';
+import type {
+  ClusterIndex,
+  ClusterMemberLookup,
+  ClusterRef,
+  ClusterSummary,
+} from '../../adapters/embeddings/cluster-index';
+
+// 파일 감시가 놓친 임베딩 변경에 대비한 재확인 주기
+const SYNC_INTERVAL_MS = 60000;
+
+export interface NoteClusterOptions {
+  clusterCount: number;         // 0이면 자동 선택
+  excludeLabelTerms: string[];  // 라벨에서 제외할 용어
+}
+
+export class NoteClusterService {
+  private lastSync = 0;
+  private dirty = true;
+  private pending: Promise<void> | null = null;
+
+  constructor(
+    private embeddingsReader: VaultEmbeddingsReader,
+    private index: ClusterIndex,
+    private describe: ClusterMemberLookup,
+    private options: NoteClusterOptions
+  ) {}
+
+  /**
+   * 옵션 교체 (클러스터 수가 바뀌면 다음 조회 때 재군집화)
+   */
+  updateOptions(options: NoteClusterOptions): void {
+    if (options.clusterCount !== this.options.clusterCount) {
+      this.dirty = true;
+    }
+    this.options = options;
+  }
+
+  /**
+   * 임베딩이 바뀌었음을 알림 (다음 조회 때 동기화)
+   */
+  invalidate(): void {
+    this.dirty = true;
+  }
+
+  /**
+   * 노트가 속한 클러스터 (임베딩이 없는 노트는 null)
+   */
+  async getNoteCluster(noteId: string): Promise<ClusterRef | null> {
+    await this.ensureSynced();
+    return this.index.getNoteCluster(noteId);
+  }
+
+  /**
+   * 클러스터 목록
+   */
+  async getClusters(): Promise<ClusterSummary[]> {
+    await this.ensureSynced();
+    return this.index.getClusters();
+  }
+
+  /**
+   * 클러스터에 속한 노트 ID
+   */
+  async getClusterMembers(clusterId: number): Promise<string[]> {
+    await this.ensureSynced();
+    return this.index.getMembers(clusterId);
+  }
+
+  /**
+   * 전체 재군집화
+   * 진행 중인 동기화가 끝난 뒤 시작하고, 재군집화 중 조회는 끝날 때까지 기다림
+   */
+  async recluster(): Promise<ClusterSummary[]> {
+    while (this.pending) {
+      await this.pending;
+    }
+
+    const rebuild = (async () => {
+      const embeddings = await this.embeddingsReader.getAllEmbeddings();
+      await this.index.rebuild(embeddings, this.options.clusterCount, this.describe, this.options.excludeLabelTerms);
+      this.dirty = false;
+    })();
+    // 실패는 recluster 호출자에게만 전달 (기다리던 조회는 기존 클러스터로 계속)
+    this.pending = rebuild
+      .catch(() => undefined)
+      .finally(() => {
+        this.lastSync = Date.now();
+        this.pending = null;
+      });
+
+    await rebuild;
+    return this.index.getClusters();
+  }
+
+  private async ensureSynced(): Promise<void> {
+    if (this.pending) return this.pending;
+    if (!this.dirty && Date.now() - this.lastSync < SYNC_INTERVAL_MS) return;
+
+    this.pending = (async () => {
+      try {
+        const embeddings = await this.embeddingsReader.getAllEmbeddings();
+        await this.index.sync(embeddings, this.options.clusterCount, this.describe, this.options.excludeLabelTerms);
+        this.dirty = false;
+      } catch (error) {
+        console.error('[CDC] Failed to update note clusters:', error);
+      } finally {
+        this.lastSync = Date.now();
+        this.pending = null;
+      }
+    })();
+    return this.pending;
+  }
+}
@@ -11,9 +11,14 @@
  */
 
 import type { NoteDomain } from '../../domain/entities/note-domain';
+import { getWeightedDomains, sharesAnyDomain } from '../../domain/entities/note-domain';
+import type { MultiDomainOptions } from '../../domain/interfaces/connection-analyzer';
 import type { AIService } from '../services/ai-service';
 import type { DomainClassificationService } from '../services/domain-classification-service';
 import type { VaultEmbeddingsReader } from '../../adapters/embeddings/vault-embeddings-reader';
+import { DomainDistance, type DomainDistanceStrategy } from '../../domain/value-objects/domain-distance';
+import type { DomainTaxonomy } from '../../domain/value-objects/domain-taxonomy';
+import type { DomainCentroids } from '../../domain/value-objects/domain-centroids';
 
 /**
  * Deep Serendipity 결과
@@ -51,6 +56,10 @@ export class DeepSerendipityUseCase {
       maxResults: number;          // 최대 결과 수
       includeFolders: string[];
       excludeFolders: string[];
+      getTaxonomy?: () => DomainTaxonomy | null;  // 도메인 계층 (없으면 다른 도메인은 모두 거리 1.0)
+      domainDistanceStrategy?: DomainDistanceStrategy;
+      getDomainCentroids?: () => Promise<DomainCentroids>;
+      multiDomain?: MultiDomainOptions | null;  // 부 도메인까지 포함해 거리 계산/공유 쌍 제외
     }
   ) {}
 
@@ -69,7 +78,8 @@ export class DeepSerendipityUseCase {
     console.log(`[CDC Deep] Domains found: ${domainGroups.size}`);
 
     // 3. 서로 다른 도메인의 노트 쌍 샘플링 (도메인 거리 최대화)
-    const candidatePairs = this.sampleCrossDomainPairs(domainGroups);
+    const centroids = await this.loadDomainCentroids();
+    const candidatePairs = this.sampleCrossDomainPairs(domainGroups, centroids);
     console.log(`[CDC Deep] Candidate pairs sampled: ${candidatePairs.length}`);
 
     if (candidatePairs.length === 0) {
@@ -82,7 +92,45 @@ export class DeepSerendipityUseCase {
     console.log(`[CDC Deep] Connections with positive evaluation: ${evaluatedConnections.length}`);
 
     // 5. 품질 점수로 정렬 후 상위 N개 반환
-    return evaluatedConnections
+    return this.selectTopConnections(evaluatedConnections);
+  }
+
+  /**
+   * 두 주 도메인 사이로 제한한 Deep Serendipity (소스는 항상 domainA 쪽)
+   * 도메인 쌍이 하나뿐이므로 LLM 평가 한도 안에서 양쪽 노트를 더 많이 샘플링
+   */
+  async executeForDomainPair(domainA: string, domainB: string): Promise<DeepSerendipityConnection[]> {
+    console.log(`[CDC Deep] === Starting Deep discovery: ${domainA} ↔ ${domainB} ===`);
+
+    const allEmbeddings = await this.embeddingsReader.getAllEmbeddings();
+    const domainGroups = await this.groupNotesByDomain(allEmbeddings);
+    const notesA = domainGroups.get(domainA) ?? [];
+    const notesB = domainGroups.get(domainB) ?? [];
+    console.log(`[CDC Deep] Notes in pair: ${notesA.length} ↔ ${notesB.length}`);
+
+    const centroids = await this.loadDomainCentroids();
+    const candidatePairs = this.sampleCrossDomainPairs(
+      new Map([[domainA, notesA], [domainB, notesB]]),
+      centroids,
+      Math.ceil(Math.sqrt(this.options.maxPairsToEvaluate))
+    );
+    console.log(`[CDC Deep] Candidate pairs sampled: ${candidatePairs.length}`);
+
+    if (candidatePairs.length === 0) {
+      return [];
+    }
+
+    const evaluatedConnections = await this.evaluatePairsWithLLM(candidatePairs);
+    console.log(`[CDC Deep] Connections with positive evaluation: ${evaluatedConnections.length}`);
+
+    return this.selectTopConnections(evaluatedConnections);
+  }
+
+  /**
+   * 최소 품질 점수 이상을 품질 점수순으로 상위 N개 선택
+   */
+  private selectTopConnections(connections: DeepSerendipityConnection[]): DeepSerendipityConnection[] {
+    return connections
       .filter(conn => conn.creativityScore >= this.options.minQualityScore)
       .sort((a, b) => b.creativityScore - a.creativityScore)
       .slice(0, this.options.maxResults);
@@ -124,15 +172,34 @@ export class DeepSerendipityUseCase {
     return domainGroups;
   }
 
+  /**
+   * centroid 방식이면 도메인 중심 로드 (실패하면 null)
+   */
+  private async loadDomainCentroids(): Promise<DomainCentroids | null> {
+    if (this.options.domainDistanceStrategy !== 'centroid' || !this.options.getDomainCentroids) {
+      return null;
+    }
+    try {
+      return await this.options.getDomainCentroids();
+    } catch (error) {
+      console.error('[CDC Deep] Failed to compute domain centroids:', error);
+      return null;
+    }
+  }
+
   /**
    * 서로 다른 도메인의 노트 쌍 샘플링
    * 도메인 거리가 먼 쌍을 우선 선택
+   * @param notesPerDomain 도메인 쌍마다 각 도메인에서 뽑을 노트 수
    */
   private sampleCrossDomainPairs(
-    domainGroups: Map<string, NoteDomain[]>
+    domainGroups: Map<string, NoteDomain[]>,
+    centroids: DomainCentroids | null,
+    notesPerDomain: number = 3
   ): Array<{ source: NoteDomain; target: NoteDomain; domainDistance: number }> {
     const pairs: Array<{ source: NoteDomain; target: NoteDomain; domainDistance: number }> = [];
     const domains = Array.from(domainGroups.keys());
+    const taxonomy = this.options.getTaxonomy?.() ?? null;
 
     if (domains.length < 2) {
       console.warn('[CDC Deep] Not enough domains for cross-domain discovery');
@@ -147,29 +214,59 @@ export class DeepSerendipityUseCase {
         const notes1 = domainGroups.get(domain1)!;
         const notes2 = domainGroups.get(domain2)!;
 
-        // 도메인 거리 계산 (단순화: 도메인명이 다르면 1.0)
-        // 추후 태그 기반 Jaccard 거리 사용 가능
-        const domainDistance = 1.0;
+        // 도메인 거리 계산 (계층 → 중첩 태그 경로 → 도메인 중심 순, 모두 없으면 1.0)
+        const pairDistance = (d1: string, d2: string) => (
+          (taxonomy && DomainDistance.fromTaxonomy(d1, d2, taxonomy)) ||
+          DomainDistance.fromDomainPaths(d1, d2) ||
+          (centroids && DomainDistance.fromCentroids(d1, d2, centroids)) ||
+          DomainDistance.calculate(d1, d2)
+        ).value;
+        const domainDistance = pairDistance(domain1, domain2);
 
         // 각 도메인에서 랜덤하게 노트 선택
-        const sampledNotes1 = this.sampleArray(notes1, 3);
-        const sampledNotes2 = this.sampleArray(notes2, 3);
+        const sampledNotes1 = this.sampleArray(notes1, notesPerDomain);
+        const sampledNotes2 = this.sampleArray(notes2, notesPerDomain);
 
         for (const note1 of sampledNotes1) {
           for (const note2 of sampledNotes2) {
+            const noteDistance = this.measurePairDistance(note1, note2, domainDistance, pairDistance);
+            if (noteDistance === null) continue;
             pairs.push({
               source: note1,
               target: note2,
-              domainDistance,
+              domainDistance: noteDistance,
             });
           }
         }
       }
     }
 
-    // 도메인 거리로 정렬 후 상위 N개 선택
+    // 섞은 뒤 도메인 거리로 정렬해 먼 쌍부터 상위 N개 선택 (같은 거리 안에서는 무작위)
     const shuffled = pairs.sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, this.options.maxPairsToEvaluate);
+    return shuffled
+      .sort((a, b) => b.domainDistance - a.domainDistance)
+      .slice(0, this.options.maxPairsToEvaluate);
+  }
+
+  /**
+   * 노트 쌍의 도메인 거리 (다중 도메인이면 부 도메인까지 포함한 가중 집합 거리)
+   * skip 정책에서 도메인을 공유하는 쌍은 null (후보에서 제외)
+   */
+  private measurePairDistance(
+    source: NoteDomain,
+    target: NoteDomain,
+    primaryDistance: number,
+    pairDistance: (domain1: string, domain2: string) => number
+  ): number | null {
+    const multiDomain = this.options.multiDomain;
+    if (!multiDomain) return primaryDistance;
+    if (multiDomain.sharedDomainPolicy === 'skip' && sharesAnyDomain(source, target)) return null;
+
+    return DomainDistance.fromDomainSets(
+      getWeightedDomains(source, multiDomain.secondaryWeight),
+      getWeightedDomains(target, multiDomain.secondaryWeight),
+      pairDistance
+    ).value;
   }
 
   /**
@@ -0,0 +1,212 @@
+/**
+ * DetectBridgeNotesUseCase
+ * 서로 먼 두 도메인을 이미 잇고 있는 기존 노트(브리지 노트)를 찾는 유스케이스
+ *
+ * 1. 노트마다 가장 가까운 도메인 중심 몇 개 중에서 두 중심과 고르게 가깝고 서로 먼 도메인 쌍을 고름
+ * 2. 중심 기준 점수 상위 후보만 두 도메인의 노트와 직접 비교해 양쪽 최근접 노트 유사도를 구함
+ * 3. 브리지 점수 = 균형 × (0.5 + 0.5 × 도메인 거리)
+ *    균형 = (두 중심 유사도 중 낮은 값 + 양쪽 최근접 노트 유사도 중 낮은 값) / 2
+ */
+
+import type { BridgeNote, BridgeSide } from '../../domain/entities/bridge-note';
+import type { NoteDomain } from '../../domain/entities/note-domain';
+import type { DomainCentroids } from '../../domain/value-objects/domain-centroids';
+import { dotProduct, toNormalizedFloat32 } from '../../domain/utils/vector-math';
+import type { DomainClassificationService } from '../services/domain-classification-service';
+import type { VaultEmbeddingsReader } from '../../adapters/embeddings/vault-embeddings-reader';
+
+/**
+ * 노트마다 도메인 쌍을 고를 가까운 도메인 중심 수
+ */
+const NEAREST_CENTROIDS = 4;
+
+/**
+ * 최근접 노트 비교 후보 풀 크기 (결과 수의 배수)
+ */
+const CANDIDATE_POOL_FACTOR = 5;
+
+export interface BridgeDetectionOptions {
+  includeFolders: string[];
+  excludeFolders: string[];
+}
+
+interface BridgeCandidate {
+  index: number;
+  domains: [string, string];
+  centroidSimilarities: [number, number];
+  domainDistance: number;
+  centroidScore: number;
+}
+
+export class DetectBridgeNotesUseCase {
+  constructor(
+    private embeddingsReader: VaultEmbeddingsReader,
+    private classificationService: DomainClassificationService,
+    private getCentroids: () => Promise<DomainCentroids>,
+    private options: BridgeDetectionOptions
+  ) {}
+
+  /**
+   * 브리지 점수 상위 N개 노트
+   */
+  async execute(limit: number = 20): Promise<BridgeNote[]> {
+    const centroids = await this.getCentroids();
+    if (centroids.size < 2) {
+      console.log('[CDC] Not enough domain centroids for bridge detection');
+      return [];
+    }
+
+    const dimension = centroids.getCentroid(centroids.domains[0])!.length;
+    const notes = await this.collectNotes(dimension);
+    console.log(`[CDC] Bridge detection over ${notes.length} notes and ${centroids.size} domains`);
+
+    const candidates: BridgeCandidate[] = [];
+    notes.forEach((note, index) => {
+      const candidate = this.findBestDomainPair(note.vector, centroids);
+      if (candidate) candidates.push({ ...candidate, index });
+    });
+
+    const pool = candidates
+      .sort((a, b) => b.centroidScore - a.centroidScore)
+      .slice(0, limit * CANDIDATE_POOL_FACTOR);
+
+    const notesByDomain = new Map<string, number[]>();
+    notes.forEach((note, index) => {
+      const members = notesByDomain.get(note.domain.primaryDomain) ?? [];
+      members.push(index);
+      notesByDomain.set(note.domain.primaryDomain, members);
+    });
+
+    const bridges: BridgeNote[] = pool.map((candidate) => {
+      const note = notes[candidate.index];
+      const sides = candidate.domains.map((domain, i): BridgeSide => ({
+        domain,
+        centroidSimilarity: candidate.centroidSimilarities[i],
+        nearestNote: this.findNearestNote(candidate.index, notesByDomain.get(domain) ?? [], notes),
+      })) as [BridgeSide, BridgeSide];
+
+      const neighbourBalance = Math.min(
+        sides[0].nearestNote?.similarity ?? 0,
+        sides[1].nearestNote?.similarity ?? 0
+      );
+      const balance = (Math.min(...candidate.centroidSimilarities) + neighbourBalance) / 2;
+
+      return {
+        note: note.domain,
+        sides,
+        domainDistance: candidate.domainDistance,
+        score: Math.max(0, balance) * (0.5 + 0.5 * candidate.domainDistance),
+      };
+    });
+
+    return bridges
+      .sort((a, b) => b.score - a.score || a.note.noteId.localeCompare(b.note.noteId))
+      .slice(0, limit);
+  }
+
+  /**
+   * 노트 벡터에 가장 가까운 중심들 중 브리지로서 가장 좋은 도메인 쌍
+   */
+  private findBestDomainPair(
+    vector: Float32Array,
+    centroids: DomainCentroids
+  ): Omit<BridgeCandidate, 'index'> | null {
+    const nearest = centroids.domains
+      .map((domain) => ({ domain, similarity: dotProduct(vector, centroids.getCentroid(domain)!) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, NEAREST_CENTROIDS);
+
+    let best: Omit<BridgeCandidate, 'index'> | null = null;
+    for (let i = 0; i < nearest.length; i++) {
+      for (let j = i + 1; j < nearest.length; j++) {
+        const domainDistance = centroids.distance(nearest[i].domain, nearest[j].domain) ?? 0;
+        const centroidScore =
+          Math.max(0, Math.min(nearest[i].similarity, nearest[j].similarity)) * (0.5 + 0.5 * domainDistance);
+        if (!best || centroidScore > best.centroidScore) {
+          best = {
+            domains: [nearest[i].domain, nearest[j].domain],
+            centroidSimilarities: [nearest[i].similarity, nearest[j].similarity],
+            domainDistance,
+            centroidScore,
+          };
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 도메인 노트 중 가장 가까운 노트 (자기 자신 제외)
+   */
+  private findNearestNote(
+    index: number,
+    members: number[],
+    notes: Array<{ domain: NoteDomain; vector: Float32Array }>
+  ): BridgeSide['nearestNote'] {
+    let bestIndex = -1;
+    let bestSimilarity = -Infinity;
+    for (const member of members) {
+      if (member === index) continue;
+      const similarity = dotProduct(notes[index].vector, notes[member].vector);
+      if (similarity > bestSimilarity) {
+        bestSimilarity = similarity;
+        bestIndex = member;
+      }
+    }
+    if (bestIndex < 0) return null;
+
+    const { noteId, path, title } = notes[bestIndex].domain;
+    return { noteId, path, title, similarity: bestSimilarity };
+  }
+
+  /**
+   * 폴더 필터를 통과하고 중심과 같은 차원인 노트 (noteId 순, 결정적 순서)
+   */
+  private async collectNotes(
+    dimension: number
+  ): Promise<Array<{ domain: NoteDomain; vector: Float32Array }>> {
+    const allEmbeddings = await this.embeddingsReader.getAllEmbeddings();
+    const notes: Array<{ domain: NoteDomain; vector: Float32Array }> = [];
+
+    for (const noteId of Array.from(allEmbeddings.keys()).sort()) {
+      const emb = allEmbeddings.get(noteId)!;
+      if (emb.embedding?.length !== dimension) continue;
+
+      const path = this.classificationService.getPathByNoteId(noteId);
+      if (!path || !this.isIncludedPath(path) || this.isExcludedPath(path)) continue;
+
+      try {
+        const domain = await this.classificationService.classifyNote(noteId, emb.embedding);
+        notes.push({ domain, vector: toNormalizedFloat32(emb.embedding) });
+      } catch {
+        // 분류 실패한 노트는 스킵
+        continue;
+      }
+    }
+
+    return notes;
+  }
+
+  /**
+   * 포함 대상 경로인지 확인
+   */
+  private isIncludedPath(path: string): boolean {
+    if (this.options.includeFolders.length === 0) {
+      return true;
+    }
+    const pathLower = path.toLowerCase();
+    return this.options.includeFolders.some((folder) =>
+      pathLower.startsWith(folder.toLowerCase() + '/')
+    );
+  }
+
+  /**
+   * 제외 경로인지 확인
+   */
+  private isExcludedPath(path: string): boolean {
+    const pathLower = path.toLowerCase();
+    return this.options.excludeFolders.some((folder) =>
+      pathLower.startsWith(folder.toLowerCase() + '/')
+    );
+  }
+}
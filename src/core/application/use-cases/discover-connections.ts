@@ -1,46 +1,114 @@
 /**
  * DiscoverConnectionsUseCase
  * 소스 노트에서 크로스 도메인 연결을 발견하는 유스케이스
+ *
+ * 유사도 계산은 SimilarityWorker(Web Worker, 불가하면 동기 폴백)에서 수행하고
+ * 도메인 분류와 점수 계산만 UI 스레드에서 처리
  */
 
 import type { Vault } from 'obsidian';
 import type {
   CrossDomainConnection,
   ConnectionType,
+  PassageAnchor,
+  PassageMatch,
 } from '../../domain/entities/cross-domain-connection';
 import type { NoteDomain } from '../../domain/entities/note-domain';
-import type { ConnectionAnalysisOptions } from '../../domain/interfaces/connection-analyzer';
+import type { ConnectionPath, ConnectionPathHop } from '../../domain/entities/connection-path';
+import { getWeightedDomains, sharesAnyDomain } from '../../domain/entities/note-domain';
+import type {
+  ConnectionAnalysisOptions,
+  VaultSearchOptions,
+} from '../../domain/interfaces/connection-analyzer';
 import { inferConnectionType } from '../../domain/entities/cross-domain-connection';
 import { SerendipityScore } from '../../domain/value-objects/serendipity-score';
 import { DomainDistance } from '../../domain/value-objects/domain-distance';
+import type { DomainCentroids } from '../../domain/value-objects/domain-centroids';
+import { dotProduct, packNormalized, toNormalizedFloat32 } from '../../domain/utils/vector-math';
+import { rerankByDiversity } from '../../domain/utils/diversity-rerank';
+import { findCheapestPath, type PathEdge } from '../../domain/utils/cheapest-path';
+import {
+  createGenericTermMatcher,
+  learnGenericTermsFromTags,
+  DEFAULT_GENERIC_TERMS,
+  type GenericTermMatcher,
+} from '../../domain/utils/generic-terms';
 import type { DomainClassificationService } from '../services/domain-classification-service';
-import type { VaultEmbeddingsReader } from '../../adapters/embeddings/vault-embeddings-reader';
+import type { VaultEmbeddingsReader, NoteEmbedding } from '../../adapters/embeddings/vault-embeddings-reader';
+import type { VectorIndex } from '../../adapters/embeddings/vector-index';
+import { SimilarityWorker, type SimilarityDatasetHandle } from '../../adapters/compute/similarity-worker';
+
+/**
+ * 학습된 일반적 용어 재계산 주기 (태그 변경 반영)
+ */
+const LEARNED_TERMS_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * 전체 쌍 탐색 블록 크기 (블록 하나 처리 후 UI 스레드에 양보)
+ */
+const PAIR_BLOCK_SIZE = 256;
+
+/**
+ * 다양성 재정렬용 후보 풀 크기 (결과 수의 배수)
+ */
+const RERANK_POOL_FACTOR = 3;
+
+/**
+ * 임베딩 생성 직후 저장 지연을 허용하는 오차 (ms)
+ */
+const STALE_TOLERANCE_MS = 60000;
+
+/**
+ * 경로 탐색에서 노트마다 단계로 고려할 임베딩 이웃 수
+ */
+const PATH_NEIGHBOURS = 8;
 
 /**
- * 일반적 용어 목록 (창발성 감점 대상)
+ * 경로 탐색에서 확장할 최대 노트 수
  */
-const GENERIC_TERMS = [
-  'note',
-  'idea',
-  'concept',
-  'thought',
-  '노트',
-  '아이디어',
-  '개념',
-  '생각',
-  'summary',
-  'overview',
-  '요약',
-  '개요',
-];
+const PATH_MAX_EXPANSIONS = 1000;
+
+/**
+ * 경로 단계당 고정 비용 (비슷한 점수면 짧은 경로 우선)
+ */
+const PATH_HOP_COST = 0.1;
+
+/**
+ * 경로 탐색 취소 (간선 조회 중 탐색을 멈추기 위해 사용)
+ */
+class PathSearchCancelled extends Error {}
+
+/**
+ * 전체 탐색 대상 노트 (분류 결과 + 벡터)
+ */
+interface EligibleNote {
+  domain: NoteDomain;
+  embedding: number[];
+}
 
 export class DiscoverConnectionsUseCase {
+  private similarityWorker: SimilarityWorker;
+
+  /** 정규화된 청크 벡터 캐시 (임베딩 객체가 바뀌면 자동 폐기) */
+  private chunkVectors = new WeakMap<NoteEmbedding, Float32Array[]>();
+  /** 정규화된 노트 벡터 캐시 (다양성 재정렬용) */
+  private noteVectors = new WeakMap<NoteEmbedding, Float32Array>();
+  /** 일반적 용어 매처 (태그 학습 시 주기적으로 재생성) */
+  private genericTermMatcher: GenericTermMatcher | null = null;
+  private genericTermsBuiltAt = 0;
+  /** 이번 탐색에 사용할 도메인 중심 (centroid 방식일 때만) */
+  private domainCentroids: DomainCentroids | null = null;
+
   constructor(
     private vault: Vault,
     private embeddingsReader: VaultEmbeddingsReader,
     private classificationService: DomainClassificationService,
-    private options: ConnectionAnalysisOptions
-  ) {}
+    private options: ConnectionAnalysisOptions,
+    private vectorIndex: VectorIndex | null = null,
+    similarityWorker: SimilarityWorker | null = null
+  ) {
+    this.similarityWorker = similarityWorker ?? new SimilarityWorker();
+  }
 
   /**
    * 소스 노트에서 크로스 도메인 연결 발견
@@ -56,25 +124,41 @@ export class DiscoverConnectionsUseCase {
     }
     console.log(`[CDC] Source embedding loaded, dimensions: ${sourceEmbedding.embedding.length}`);
 
+    // 다른 모델의 임베딩은 비교 불가
+    if (!(await this.embeddingsReader.isActiveModel(sourceEmbedding))) {
+      console.warn(`[CDC] Source note embedding uses inactive model: ${sourceEmbedding.model}`);
+      return [];
+    }
+
     // 2. 소스 노트 도메인 분류
     const sourceNoteDomain = await this.classificationService.classifyNote(
       sourceNoteId,
       sourceEmbedding.embedding
     );
+    sourceNoteDomain.embeddingStale = this.isEmbeddingStale(sourceNoteId, sourceEmbedding);
     console.log(`[CDC] Source domain: ${sourceNoteDomain.primaryDomain}, tags: ${sourceNoteDomain.tags.join(', ')}`);
 
     // 3. 모든 임베딩 가져오기
     const allEmbeddings = await this.embeddingsReader.getAllEmbeddings();
+    await this.prepareDomainDistances();
     console.log(`[CDC] Total embeddings loaded: ${allEmbeddings.size}`);
     const candidates: CrossDomainConnection[] = [];
 
     // Debug counters
     let skipSelf = 0, skipExcluded = 0, skipSameDomain = 0;
     let skipLowSimilarity = 0, skipLowSerendipity = 0, classifyErrors = 0;
-    let skipAlreadyLinked = 0;
+    let skipAlreadyLinked = 0, skipStale = 0;
+
+    // 4. 비교 대상 수집 (인덱스가 있으면 근사 범위 검색)
+    // 구절은 후보 선정 후 최종 결과에만 찾음 (attachPassages)
+    const targetSimilarities = await this.collectTargetSimilarities(sourceEmbedding, allEmbeddings);
+    console.log(`[CDC] Targets to compare: ${targetSimilarities.size}`);
+
+    // 각 노트와 비교
+    for (const [targetNoteId, similarity] of targetSimilarities) {
+      const targetEmbedding = allEmbeddings.get(targetNoteId);
+      if (!targetEmbedding) continue;
 
-    // 4. 각 노트와 비교
-    for (const [targetNoteId, targetEmbedding] of allEmbeddings) {
       // 자기 자신 스킵
       if (targetNoteId === sourceNoteId) {
         skipSelf++;
@@ -105,61 +189,42 @@ export class DiscoverConnectionsUseCase {
         continue;
       }
 
+      // 오래된 임베딩 제외 (옵션)
+      const targetStale = this.isEmbeddingStale(targetNoteId, targetEmbedding);
+      if (targetStale && this.options.excludeStaleNotes) {
+        skipStale++;
+        continue;
+      }
+
       try {
         // 5. 타겟 노트 도메인 분류
         const targetNoteDomain = await this.classificationService.classifyNote(
           targetNoteId,
           targetEmbedding.embedding
         );
+        targetNoteDomain.embeddingStale = targetStale;
 
         // 6. 같은 도메인이면 스킵 (Cross-Domain만 찾음)
-        if (sourceNoteDomain.primaryDomain === targetNoteDomain.primaryDomain) {
+        if (this.isSameDomain(sourceNoteDomain, targetNoteDomain)) {
           skipSameDomain++;
           continue;
         }
 
-        // 7. 코사인 유사도 계산
-        const similarity = this.cosineSimilarity(
-          sourceEmbedding.embedding,
-          targetEmbedding.embedding
-        );
-
-        // 8. 유사도 임계값 필터링
+        // 7-8. 유사도 임계값 필터링 (인덱스 근사 검색 결과는 정확한 값으로 재계산됨)
         if (similarity < this.options.minSimilarity) {
           skipLowSimilarity++;
           continue;
         }
 
-        // 9. 도메인 거리 계산
-        const domainDistance = DomainDistance.fromTagJaccard(
-          sourceNoteDomain.tags,
-          targetNoteDomain.tags
-        );
-
-        // 10. 창발성 점수 계산
-        const serendipityScore = SerendipityScore.calculate({
-          similarity,
-          domainDistance: domainDistance.value,
-          isAlreadyLinked: false, // 이미 위에서 연결된 노트는 제외했으므로 여기서는 항상 false
-          genericTermsCount: this.countGenericTerms(targetNoteDomain),
-        });
-
-        // 11. 창발성 임계값 필터링
-        if (serendipityScore.value < this.options.minSerendipityScore) {
+        // 9-11. 도메인 거리, 창발성 점수 계산 및 임계값 필터링
+        const connection = this.evaluatePair(sourceNoteDomain, targetNoteDomain, similarity);
+        if (!connection) {
           skipLowSerendipity++;
           continue;
         }
 
         // 12. 연결 추가
-        candidates.push({
-          sourceNote: sourceNoteDomain,
-          targetNote: targetNoteDomain,
-          serendipityScore,
-          domainDistance,
-          similarity,
-          connectionType: inferConnectionType(similarity, domainDistance.value),
-          discoveredAt: new Date(),
-        });
+        candidates.push(connection);
       } catch (error) {
         // 분류 실패한 노트는 스킵
         classifyErrors++;
@@ -172,24 +237,34 @@ export class DiscoverConnectionsUseCase {
     console.log(`[CDC] Skip self: ${skipSelf}`);
     console.log(`[CDC] Skip excluded: ${skipExcluded}`);
     console.log(`[CDC] Skip already linked: ${skipAlreadyLinked}`);
+    console.log(`[CDC] Skip stale embeddings: ${skipStale}`);
     console.log(`[CDC] Skip same domain: ${skipSameDomain}`);
     console.log(`[CDC] Skip low similarity: ${skipLowSimilarity}`);
     console.log(`[CDC] Skip low serendipity: ${skipLowSerendipity}`);
     console.log(`[CDC] Classify errors: ${classifyErrors}`);
     console.log(`[CDC] Candidates found: ${candidates.length}`);
 
-    // 13. 창발성 점수로 정렬 후 상위 N개 반환
-    return candidates
-      .sort((a, b) => b.serendipityScore.value - a.serendipityScore.value)
-      .slice(0, this.options.maxResults);
+    // 13. 창발성 점수로 정렬 후 다양성을 고려해 상위 N개 선택, 구절 단위면 가장 유사한 구절 표시
+    const top = this.selectDiverseTop(
+      candidates.sort((a, b) => b.serendipityScore.value - a.serendipityScore.value),
+      this.options.maxResults,
+      allEmbeddings
+    );
+    return this.attachPassages(top, allEmbeddings);
   }
 
   /**
    * 전체 볼트에서 가장 창발적인 연결 발견
+   * vaultWideMode가 'exhaustive'면 모든 쌍을 평가, 아니면 100개 노트 샘플링
    */
   async findTopSerendipitousConnections(
-    limit: number = 10
+    limit: number = 10,
+    searchOptions: VaultSearchOptions = {}
   ): Promise<CrossDomainConnection[]> {
+    if (this.options.vaultWideMode === 'exhaustive') {
+      return this.findExhaustiveTopConnections(limit, searchOptions);
+    }
+
     const allConnections: CrossDomainConnection[] = [];
     const processedPairs = new Set<string>();
 
@@ -216,34 +291,660 @@ export class DiscoverConnectionsUseCase {
       }
     }
 
-    // 창발성 점수로 정렬 후 상위 N개 반환
-    return allConnections
-      .sort((a, b) => b.serendipityScore.value - a.serendipityScore.value)
-      .slice(0, limit);
+    // 창발성 점수로 정렬 후 다양성을 고려해 상위 N개 반환
+    return this.selectDiverseTop(
+      allConnections.sort((a, b) => b.serendipityScore.value - a.serendipityScore.value),
+      limit,
+      allEmbeddings
+    );
+  }
+
+  /**
+   * 전체 쌍 탐색으로 전역 상위 N개 연결 발견 (결정적)
+   * 정규화된 행렬을 워커에 한 번 적재하고 블록 단위로 쌍을 요청하며 진행률 보고
+   * 취소되면 그 시점까지의 상위 결과 반환
+   */
+  async findExhaustiveTopConnections(
+    limit: number = 10,
+    searchOptions: VaultSearchOptions = {}
+  ): Promise<CrossDomainConnection[]> {
+    const allEmbeddings = await this.embeddingsReader.getAllEmbeddings();
+    const notes = await this.collectEligibleNotes(allEmbeddings);
+    await this.prepareDomainDistances();
+    console.log(`[CDC] Exhaustive search over ${notes.length} notes (${(notes.length * (notes.length - 1)) / 2} pairs)`);
+
+    const top = await this.collectTopPairs(notes, allEmbeddings, limit, searchOptions, (source, target, similarity) =>
+      this.evaluatePair(source, target, similarity)
+    );
+    return this.attachPassages(this.selectDiverseTop(top, limit, allEmbeddings), allEmbeddings);
+  }
+
+  /**
+   * 두 주 도메인 사이의 상위 N개 연결 (전체 쌍 탐색, 소스는 항상 domainA 쪽)
+   * 취소되면 그 시점까지의 상위 결과 반환
+   */
+  async findDomainPairConnections(
+    domainA: string,
+    domainB: string,
+    limit: number = 10,
+    searchOptions: VaultSearchOptions = {}
+  ): Promise<CrossDomainConnection[]> {
+    const allEmbeddings = await this.embeddingsReader.getAllEmbeddings();
+    const notes = (await this.collectEligibleNotes(allEmbeddings)).filter((note) =>
+      note.domain.primaryDomain === domainA || note.domain.primaryDomain === domainB
+    );
+    await this.prepareDomainDistances();
+    console.log(`[CDC] Domain pair search: ${domainA} ↔ ${domainB} (${notes.length} notes)`);
+
+    const top = await this.collectTopPairs(notes, allEmbeddings, limit, searchOptions, (source, target, similarity) =>
+      source.primaryDomain === domainA
+        ? this.evaluatePair(source, target, similarity)
+        : this.evaluatePair(target, source, similarity)
+    );
+    return this.attachPassages(this.selectDiverseTop(top, limit, allEmbeddings), allEmbeddings);
+  }
+
+  /**
+   * 탐색 대상 노트의 주 도메인별 노트 수
+   */
+  async countDomainNotes(): Promise<Map<string, number>> {
+    const allEmbeddings = await this.embeddingsReader.getAllEmbeddings();
+    const counts = new Map<string, number>();
+    for (const { domain } of await this.collectEligibleNotes(allEmbeddings)) {
+      counts.set(domain.primaryDomain, (counts.get(domain.primaryDomain) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * 주 도메인 쌍별 크로스 도메인 연결 수 (도메인 → 상대 도메인 → 연결 수, 양방향 기록)
+   * 최소 유사도/창발성 점수를 통과한 쌍만 셈, 취소되면 그 시점까지의 집계 반환
+   */
+  async countDomainConnections(
+    searchOptions: VaultSearchOptions = {}
+  ): Promise<Map<string, Map<string, number>>> {
+    const allEmbeddings = await this.embeddingsReader.getAllEmbeddings();
+    const notes = await this.collectEligibleNotes(allEmbeddings);
+    await this.prepareDomainDistances();
+
+    const counts = new Map<string, Map<string, number>>();
+    const increment = (domain: string, partner: string) => {
+      let partners = counts.get(domain);
+      if (!partners) {
+        partners = new Map();
+        counts.set(domain, partners);
+      }
+      partners.set(partner, (partners.get(partner) ?? 0) + 1);
+    };
+
+    await this.scanCrossDomainPairs(notes, allEmbeddings, searchOptions, (source, target, similarity) => {
+      if (!this.evaluatePair(source, target, similarity)) return;
+      increment(source.primaryDomain, target.primaryDomain);
+      increment(target.primaryDomain, source.primaryDomain);
+    });
+    return counts;
+  }
+
+  /**
+   * 두 노트를 잇는 다단계 경로 중 단계별 창발성 점수 합이 가장 큰 경로 (없으면 null)
+   * 단계 = 임베딩이 가장 가까운 이웃 또는 링크로 연결된 노트
+   * 단계 비용 = 1 - 창발성 점수 + 단계당 고정 비용 (이미 링크된 단계는 새로움 감점 적용)
+   * 취소되면 null
+   */
+  async findConnectionPath(
+    sourceNoteId: string,
+    targetNoteId: string,
+    searchOptions: VaultSearchOptions = {}
+  ): Promise<ConnectionPath | null> {
+    const { onProgress, signal } = searchOptions;
+
+    const allEmbeddings = await this.embeddingsReader.getAllEmbeddings();
+    const notes = await this.collectEligibleNotes(allEmbeddings);
+    await this.prepareDomainDistances();
+
+    const indexById = new Map(notes.map((note, i) => [note.domain.noteId, i]));
+    const indexByPath = new Map(notes.map((note, i) => [note.domain.path, i]));
+    const start = indexById.get(sourceNoteId);
+    const goal = indexById.get(targetNoteId);
+    if (start === undefined || goal === undefined) {
+      console.warn('[CDC] Path endpoints are not searchable (no embedding or excluded folder)');
+      return null;
+    }
+    if (start === goal) {
+      console.warn('[CDC] Path endpoints are the same note');
+      return null;
+    }
+    console.log(`[CDC] Path search over ${notes.length} notes`);
+
+    // 탐색이 끝날 때까지 같은 데이터셋에 질의 (탐색 노트 행만 후보로)
+    const dataset = await this.loadNoteDataset(allEmbeddings);
+    const rowById = new Map(dataset.rowIds.map((noteId, row) => [noteId, row]));
+    const candidateRows = Int32Array.from(
+      notes.filter((note) => rowById.has(note.domain.noteId)),
+      (note) => rowById.get(note.domain.noteId)!
+    );
+
+    const getLinkedPaths = this.options.createLinkedPathsLookup?.();
+    const hops = new Map<string, ConnectionPathHop>();
+    let expansions = 0;
+
+    const getEdges = async (i: number): Promise<PathEdge[]> => {
+      if (signal?.aborted) throw new PathSearchCancelled();
+      onProgress?.({ completed: ++expansions, total: PATH_MAX_EXPANSIONS });
+
+      const source = notes[i].domain;
+      // 자기 자신이 포함될 수 있으므로 하나 더 요청
+      const { indices, similarities } = await this.similarityWorker.topK(
+        dataset,
+        notes[i].embedding,
+        PATH_NEIGHBOURS + 1,
+        this.options.minSimilarity,
+        candidateRows
+      );
+      const neighbours = Array.from(indices, (row, k) => ({
+        j: indexById.get(dataset.rowIds[row]) ?? -1,
+        similarity: similarities[k],
+        linked: false,
+      }))
+        .filter(({ j }) => j >= 0 && j !== i)
+        .slice(0, PATH_NEIGHBOURS);
+
+      for (const path of getLinkedPaths?.(source.path) ?? []) {
+        const j = indexByPath.get(path);
+        if (j === undefined || j === i) continue;
+        const existing = neighbours.find((neighbour) => neighbour.j === j);
+        if (existing) {
+          existing.linked = true;
+        } else {
+          const similarity = dotProduct(
+            this.getNoteVector(allEmbeddings.get(source.noteId))!,
+            this.getNoteVector(allEmbeddings.get(notes[j].domain.noteId))!
+          );
+          neighbours.push({ j, similarity, linked: true });
+        }
+      }
+
+      return neighbours.map(({ j, similarity, linked }) => {
+        const connection = this.scorePair(source, notes[j].domain, similarity, linked);
+        hops.set(`${i}-${j}`, { connection, linked });
+        return { to: j, cost: 1 - connection.serendipityScore.value + PATH_HOP_COST };
+      });
+    };
+
+    let path: number[] | null;
+    try {
+      path = await findCheapestPath(start, goal, getEdges, PATH_MAX_EXPANSIONS);
+    } catch (error) {
+      if (error instanceof PathSearchCancelled) {
+        console.log(`[CDC] Path search cancelled after ${expansions} expansions`);
+        return null;
+      }
+      throw error;
+    }
+
+    if (!path) {
+      console.log(`[CDC] No path found within ${PATH_MAX_EXPANSIONS} expansions`);
+      return null;
+    }
+
+    const pathHops = path.slice(1).map((j, k) => hops.get(`${path![k]}-${j}`)!);
+    const score = pathHops.reduce((sum, hop) => sum + hop.connection.serendipityScore.value, 0) / pathHops.length;
+    console.log(`[CDC] Path found: ${pathHops.length} hops, score ${score.toFixed(3)}`);
+    return { hops: pathHops, score };
+  }
+
+  /**
+   * 전체 쌍을 평가해 창발성 점수순 상위 후보 수집 (다양성 재정렬용 풀 포함)
+   */
+  private async collectTopPairs(
+    notes: EligibleNote[],
+    allEmbeddings: Map<string, NoteEmbedding>,
+    limit: number,
+    searchOptions: VaultSearchOptions,
+    evaluate: (source: NoteDomain, target: NoteDomain, similarity: number) => CrossDomainConnection | null
+  ): Promise<CrossDomainConnection[]> {
+    let top: CrossDomainConnection[] = [];
+
+    await this.scanCrossDomainPairs(notes, allEmbeddings, searchOptions, (source, target, similarity) => {
+      const connection = evaluate(source, target, similarity);
+      if (!connection) return;
+      top.push(connection);
+
+      // 상위 후보만 유지 (메모리 제한, 다양성 재정렬용 풀은 남김)
+      if (top.length > limit * RERANK_POOL_FACTOR * 2) {
+        top = this.rankConnections(top).slice(0, limit * RERANK_POOL_FACTOR);
+      }
+    });
+
+    return this.rankConnections(top);
+  }
+
+  /**
+   * 노트 전체 쌍 중 최소 유사도 이상인 크로스 도메인 쌍을 블록 단위로 순회
+   * 워커에 적재된 노트 데이터셋의 행 번호로 블록을 요청하고, 이미 연결된 쌍과 같은 도메인 쌍은 건너뜀
+   * @returns 끝까지 순회했으면 true, 취소되면 false
+   */
+  private async scanCrossDomainPairs(
+    eligibleNotes: EligibleNote[],
+    allEmbeddings: Map<string, NoteEmbedding>,
+    searchOptions: VaultSearchOptions,
+    onPair: (source: NoteDomain, target: NoteDomain, similarity: number) => void
+  ): Promise<boolean> {
+    const { onProgress, signal } = searchOptions;
+    const dataset = await this.loadNoteDataset(allEmbeddings);
+    const rowById = new Map(dataset.rowIds.map((noteId, row) => [noteId, row]));
+    const notes = eligibleNotes.filter((note) => rowById.has(note.domain.noteId));
+    const n = notes.length;
+    if (n < 2) return true;
+
+    // 같은 주 도메인 쌍은 워커에서 건너뛰도록 도메인별 그룹 ID 부여
+    const rows = Int32Array.from(notes, (note) => rowById.get(note.domain.noteId)!);
+    const domainIds = new Map<string, number>();
+    const groups = new Int32Array(n);
+    notes.forEach((note, i) => {
+      const domain = note.domain.primaryDomain;
+      if (!domainIds.has(domain)) domainIds.set(domain, domainIds.size);
+      groups[i] = domainIds.get(domain)!;
+    });
+
+    const blockCount = Math.ceil(n / PAIR_BLOCK_SIZE);
+    const totalBlocks = (blockCount * (blockCount + 1)) / 2;
+    let completedBlocks = 0;
+
+    onProgress?.({ completed: 0, total: totalBlocks });
+
+    for (let bi = 0; bi < blockCount; bi++) {
+      const rowStart = bi * PAIR_BLOCK_SIZE;
+      const rowEnd = Math.min(n, rowStart + PAIR_BLOCK_SIZE);
+
+      for (let bj = bi; bj < blockCount; bj++) {
+        if (signal?.aborted) {
+          console.log(`[CDC] Pair scan cancelled at ${completedBlocks}/${totalBlocks} blocks`);
+          return false;
+        }
+
+        const colStart = bj * PAIR_BLOCK_SIZE;
+        const colEnd = Math.min(n, colStart + PAIR_BLOCK_SIZE);
+
+        // 최소 유사도 이상이고 주 도메인이 다른 쌍만 반환됨
+        const pairs = await this.similarityWorker.pairs(
+          dataset,
+          {
+            rows: rows.slice(rowStart, rowEnd),
+            cols: rows.slice(colStart, colEnd),
+            rowGroups: groups.slice(rowStart, rowEnd),
+            colGroups: groups.slice(colStart, colEnd),
+            diagonal: bi === bj,
+          },
+          this.options.minSimilarity
+        );
+
+        for (let k = 0; k < pairs.a.length; k++) {
+          const source = notes[rowStart + pairs.a[k]].domain;
+          const target = notes[colStart + pairs.b[k]].domain;
+          if (this.isAlreadyLinked(source.path, target.path)) continue;
+          if (this.isSameDomain(source, target)) continue;
+
+          onPair(source, target, pairs.similarities[k]);
+        }
+
+        completedBlocks++;
+        onProgress?.({ completed: completedBlocks, total: totalBlocks });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+
+    return true;
   }
 
   /**
-   * 코사인 유사도 계산
+   * 점수순 후보에서 다양성(MMR)을 고려해 상위 N개 선택
+   * diversityWeight가 0이면 점수순 상위 N개와 동일
    */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      throw new Error('Vectors must have same length');
+  private selectDiverseTop(
+    ranked: CrossDomainConnection[],
+    limit: number,
+    allEmbeddings: Map<string, NoteEmbedding>
+  ): CrossDomainConnection[] {
+    return rerankByDiversity(
+      ranked,
+      limit,
+      this.options.diversityWeight ?? 0,
+      (a, b) => {
+        const vectorA = this.getNoteVector(allEmbeddings.get(a.targetNote.noteId));
+        const vectorB = this.getNoteVector(allEmbeddings.get(b.targetNote.noteId));
+        if (!vectorA || !vectorB || vectorA.length !== vectorB.length) return 0;
+        return dotProduct(vectorA, vectorB);
+      }
+    );
+  }
+
+  private getNoteVector(embedding: NoteEmbedding | undefined): Float32Array | null {
+    if (!embedding) return null;
+    let vector = this.noteVectors.get(embedding);
+    if (!vector) {
+      vector = toNormalizedFloat32(embedding.embedding);
+      this.noteVectors.set(embedding, vector);
     }
+    return vector;
+  }
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+  /**
+   * 최종 결과에만 가장 유사한 구절 쌍 표시 (후보 선정은 노트 벡터로만 비교)
+   */
+  private attachPassages(
+    connections: CrossDomainConnection[],
+    allEmbeddings: Map<string, NoteEmbedding>
+  ): CrossDomainConnection[] {
+    if (!this.options.passageLevel) return connections;
+
+    for (const connection of connections) {
+      const source = allEmbeddings.get(connection.sourceNote.noteId);
+      const target = allEmbeddings.get(connection.targetNote.noteId);
+      if (!source || !target) continue;
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
+      const passage = this.findBestPassage(source, target);
+      if (passage) {
+        connection.passage = passage;
+      }
     }
+    return connections;
+  }
 
-    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-    if (denominator === 0) return 0;
+  /**
+   * 두 노트의 청크 중 가장 유사한 쌍 찾기
+   * 한쪽에만 청크가 있으면 다른 쪽은 노트 전체 벡터로 비교
+   */
+  private findBestPassage(source: NoteEmbedding, target: NoteEmbedding): PassageMatch | null {
+    if (!source.chunks?.length && !target.chunks?.length) return null;
 
-    return dotProduct / denominator;
+    const sourceVectors = this.getChunkVectors(source);
+    const targetVectors = this.getChunkVectors(target);
+
+    let bestSimilarity = -Infinity;
+    let bestI = -1;
+    let bestJ = -1;
+    for (let i = 0; i < sourceVectors.length; i++) {
+      for (let j = 0; j < targetVectors.length; j++) {
+        if (sourceVectors[i].length !== targetVectors[j].length) continue;
+        const similarity = dotProduct(sourceVectors[i], targetVectors[j]);
+        if (similarity > bestSimilarity) {
+          bestSimilarity = similarity;
+          bestI = i;
+          bestJ = j;
+        }
+      }
+    }
+
+    if (bestI < 0) return null;
+    return {
+      source: this.toAnchor(source, bestI),
+      target: this.toAnchor(target, bestJ),
+      similarity: bestSimilarity,
+    };
+  }
+
+  /**
+   * 노트의 정규화된 청크 벡터 (청크가 없으면 노트 벡터 하나)
+   */
+  private getChunkVectors(embedding: NoteEmbedding): Float32Array[] {
+    let vectors = this.chunkVectors.get(embedding);
+    if (!vectors) {
+      vectors = embedding.chunks?.length
+        ? embedding.chunks.map((chunk) => toNormalizedFloat32(chunk.embedding))
+        : [toNormalizedFloat32(embedding.embedding)];
+      this.chunkVectors.set(embedding, vectors);
+    }
+    return vectors;
+  }
+
+  private toAnchor(embedding: NoteEmbedding, index: number): PassageAnchor {
+    const chunk = embedding.chunks?.[index];
+    return chunk ? { heading: chunk.heading, blockId: chunk.blockId } : {};
+  }
+
+  /**
+   * 전체 탐색 대상 노트 수집
+   * 폴더 필터를 통과하고 분류 가능한 노트를 noteId 순으로 정렬 (결정적 순서)
+   * 가장 흔한 차원이 아닌 벡터는 제외
+   */
+  private async collectEligibleNotes(
+    allEmbeddings: Map<string, NoteEmbedding>
+  ): Promise<EligibleNote[]> {
+    const dimension = this.findCommonDimension(allEmbeddings);
+    const notes: EligibleNote[] = [];
+    const noteIds = Array.from(allEmbeddings.keys()).sort();
+
+    for (const noteId of noteIds) {
+      const emb = allEmbeddings.get(noteId)!;
+      if (emb.embedding?.length !== dimension) continue;
+
+      const path = this.classificationService.getPathByNoteId(noteId);
+      if (!path || !this.isIncludedPath(path) || this.isExcludedPath(path)) continue;
+
+      const stale = this.isEmbeddingStale(noteId, emb);
+      if (stale && this.options.excludeStaleNotes) continue;
+
+      try {
+        const domain = await this.classificationService.classifyNote(noteId, emb.embedding);
+        domain.embeddingStale = stale;
+        notes.push({ domain, embedding: emb.embedding });
+      } catch {
+        // 분류 실패한 노트는 스킵
+        continue;
+      }
+    }
+
+    return notes;
+  }
+
+  /**
+   * 가장 흔한 임베딩 차원 (임베딩이 없으면 0)
+   */
+  private findCommonDimension(allEmbeddings: Map<string, NoteEmbedding>): number {
+    const dimensionCounts = new Map<number, number>();
+    for (const emb of allEmbeddings.values()) {
+      const length = emb.embedding?.length ?? 0;
+      dimensionCounts.set(length, (dimensionCounts.get(length) ?? 0) + 1);
+    }
+    let dimension = 0;
+    let maxCount = 0;
+    for (const [length, count] of dimensionCounts) {
+      if (length > 0 && count > maxCount) {
+        maxCount = count;
+        dimension = length;
+      }
+    }
+    return dimension;
+  }
+
+  /**
+   * centroid 방식이면 도메인 중심을 준비 (실패하면 태그 거리로 대체)
+   */
+  private async prepareDomainDistances(): Promise<void> {
+    this.domainCentroids = null;
+    if (this.options.domainDistanceStrategy !== 'centroid' || !this.options.getDomainCentroids) return;
+
+    try {
+      this.domainCentroids = await this.options.getDomainCentroids();
+    } catch (error) {
+      console.error('[CDC] Failed to compute domain centroids, using tag distance:', error);
+    }
+  }
+
+  /**
+   * 같은 도메인 여부 (주 도메인이 같거나, skip 정책이면 도메인을 하나라도 공유)
+   */
+  private isSameDomain(source: NoteDomain, target: NoteDomain): boolean {
+    if (source.primaryDomain === target.primaryDomain) return true;
+    return this.options.multiDomain?.sharedDomainPolicy === 'skip' && sharesAnyDomain(source, target);
+  }
+
+  /**
+   * 도메인 거리
+   * 주 도메인 쌍: 계층 트리 거리 → 중첩 태그 경로 거리 → (centroid 방식) 중심 거리 → 태그 Jaccard 거리 순으로 사용
+   * 다중 도메인이면 부 도메인까지 포함한 가중 집합 거리 (부 도메인 쌍은 구조적 거리가 없으면 1.0)
+   */
+  private measureDomainDistance(source: NoteDomain, target: NoteDomain): DomainDistance {
+    const primaryDistance = () =>
+      this.measureStructuralDistance(source.primaryDomain, target.primaryDomain) ??
+      DomainDistance.fromTagJaccard(source.tags, target.tags);
+
+    const multiDomain = this.options.multiDomain;
+    if (!multiDomain) return primaryDistance();
+
+    return DomainDistance.fromDomainSets(
+      getWeightedDomains(source, multiDomain.secondaryWeight),
+      getWeightedDomains(target, multiDomain.secondaryWeight),
+      (domain1, domain2) => {
+        const isPrimaryPair =
+          (domain1 === source.primaryDomain && domain2 === target.primaryDomain) ||
+          (domain1 === target.primaryDomain && domain2 === source.primaryDomain);
+        if (isPrimaryPair) return primaryDistance().value;
+        return this.measureStructuralDistance(domain1, domain2)?.value ?? 1.0;
+      }
+    );
+  }
+
+  /**
+   * 도메인 쌍의 구조적 거리 (계층 → 중첩 태그 경로 → 중심 순, 모두 없으면 null)
+   */
+  private measureStructuralDistance(domain1: string, domain2: string): DomainDistance | null {
+    const taxonomy = this.options.getTaxonomy?.() ?? null;
+    const treeDistance = taxonomy ? DomainDistance.fromTaxonomy(domain1, domain2, taxonomy) : null;
+    if (treeDistance) return treeDistance;
+
+    const pathDistance = DomainDistance.fromDomainPaths(domain1, domain2);
+    if (pathDistance) return pathDistance;
+
+    return this.domainCentroids
+      ? DomainDistance.fromCentroids(domain1, domain2, this.domainCentroids)
+      : null;
+  }
+
+  /**
+   * 두 노트 쌍의 도메인 거리와 창발성 점수를 계산해 연결 생성
+   * 최소 창발성 점수 미만이면 null
+   */
+  private evaluatePair(
+    sourceNoteDomain: NoteDomain,
+    targetNoteDomain: NoteDomain,
+    similarity: number
+  ): CrossDomainConnection | null {
+    // 이미 연결된 노트는 호출 전에 제외됨
+    const connection = this.scorePair(sourceNoteDomain, targetNoteDomain, similarity, false);
+    return connection.serendipityScore.value < this.options.minSerendipityScore ? null : connection;
+  }
+
+  /**
+   * 두 노트 쌍의 도메인 거리와 창발성 점수를 계산해 연결 생성 (임계값 없음)
+   */
+  private scorePair(
+    sourceNoteDomain: NoteDomain,
+    targetNoteDomain: NoteDomain,
+    similarity: number,
+    isAlreadyLinked: boolean
+  ): CrossDomainConnection {
+    const domainDistance = this.measureDomainDistance(sourceNoteDomain, targetNoteDomain);
+    const matchedGenericTerms = this.findGenericTerms(targetNoteDomain, this.getGenericTermMatcher());
+
+    const serendipityScore = SerendipityScore.calculate({
+      similarity,
+      domainDistance: domainDistance.value,
+      isAlreadyLinked,
+      genericTermsCount: matchedGenericTerms.length,
+      matchedGenericTerms,
+    }, this.options.scoringProfile);
+
+    return {
+      sourceNote: sourceNoteDomain,
+      targetNote: targetNoteDomain,
+      serendipityScore,
+      domainDistance,
+      similarity,
+      connectionType: inferConnectionType(similarity, domainDistance.value),
+      discoveredAt: new Date(),
+    };
+  }
+
+  /**
+   * 창발성 점수 내림차순 정렬 (동점은 noteId 쌍 순서로 결정적 정렬)
+   */
+  private rankConnections(connections: CrossDomainConnection[]): CrossDomainConnection[] {
+    return connections.sort((a, b) => {
+      const diff = b.serendipityScore.value - a.serendipityScore.value;
+      if (diff !== 0) return diff;
+      const keyA = `${a.sourceNote.noteId}-${a.targetNote.noteId}`;
+      const keyB = `${b.sourceNote.noteId}-${b.targetNote.noteId}`;
+      return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+    });
+  }
+
+  /**
+   * 비교 대상과 노트 단위 유사도 수집 (noteId → 유사도)
+   * 벡터 인덱스가 있으면 근사 후보 행만, 없으면 전체 행을 워커에서 스캔
+   */
+  private async collectTargetSimilarities(
+    sourceEmbedding: NoteEmbedding,
+    allEmbeddings: Map<string, NoteEmbedding>
+  ): Promise<Map<string, number>> {
+    const result = new Map<string, number>();
+    const dataset = await this.loadNoteDataset(allEmbeddings);
+
+    let candidateRows: Int32Array | null = null;
+    if (this.vectorIndex) {
+      try {
+        await this.vectorIndex.sync(allEmbeddings);
+        const candidates = this.vectorIndex.searchCandidates(sourceEmbedding.embedding);
+        if (candidates) {
+          const rowById = new Map(dataset.rowIds.map((noteId, row) => [noteId, row]));
+          candidateRows = Int32Array.from(
+            candidates.filter((noteId) => rowById.has(noteId)),
+            (noteId) => rowById.get(noteId)!
+          );
+        }
+      } catch (error) {
+        console.error('[CDC] Vector index search failed, falling back to full scan:', error);
+      }
+    }
+
+    const { indices, similarities } = await this.similarityWorker.query(
+      dataset,
+      sourceEmbedding.embedding,
+      this.options.minSimilarity,
+      candidateRows
+    );
+    indices.forEach((row, k) => result.set(dataset.rowIds[row], similarities[k]));
+    return result;
+  }
+
+  /**
+   * 활성 모델 임베딩 전체를 워커 데이터셋으로 적재 (임베딩 버전이 같으면 재사용)
+   * 행은 noteId 순, 가장 흔한 차원이 아닌 벡터는 제외
+   * 탐색마다 받은 핸들로만 요청하므로 다른 탐색이 다른 데이터셋을 적재해도 영향 없음
+   */
+  private loadNoteDataset(allEmbeddings: Map<string, NoteEmbedding>): Promise<SimilarityDatasetHandle> {
+    return this.similarityWorker.ensureLoaded(`notes:${this.embeddingsReader.getVersion()}`, () => {
+      const dimension = this.findCommonDimension(allEmbeddings);
+      const rowIds = Array.from(allEmbeddings.keys())
+        .filter((noteId) => allEmbeddings.get(noteId)!.embedding?.length === dimension)
+        .sort();
+      return {
+        matrix: packNormalized(rowIds.map((noteId) => allEmbeddings.get(noteId)!.embedding), dimension),
+        dimension,
+        rowIds,
+      };
+    });
+  }
+
+  /**
+   * 임베딩이 노트 수정 시각보다 오래되었는지 확인
+   */
+  private isEmbeddingStale(noteId: string, embedding: NoteEmbedding): boolean {
+    const mtime = this.classificationService.getModifiedTime(noteId);
+    const embeddedAt = Date.parse(embedding.updatedAt);
+    if (mtime === null || isNaN(embeddedAt)) return false;
+    return mtime > embeddedAt + STALE_TOLERANCE_MS;
   }
 
   /**
@@ -258,29 +959,43 @@ export class DiscoverConnectionsUseCase {
   }
 
   /**
-   * 일반적 용어 개수 계산
+   * 일반적 용어 매처 (설정 목록 + 자주 쓰인 태그에서 학습한 용어)
    */
-  private countGenericTerms(note: NoteDomain): number {
-    const titleLower = note.title.toLowerCase();
-    let count = 0;
+  private getGenericTermMatcher(): GenericTermMatcher {
+    const learn = !!this.options.learnGenericTerms;
+    if (this.genericTermMatcher && (!learn || Date.now() - this.genericTermsBuiltAt < LEARNED_TERMS_TTL_MS)) {
+      return this.genericTermMatcher;
+    }
 
-    for (const term of GENERIC_TERMS) {
-      if (titleLower.includes(term.toLowerCase())) {
-        count++;
+    const terms = [...(this.options.genericTerms ?? [...DEFAULT_GENERIC_TERMS.en, ...DEFAULT_GENERIC_TERMS.ko])];
+    if (learn) {
+      const learned = learnGenericTermsFromTags(
+        this.classificationService.getNonDomainTagLists(),
+        this.options.learnedTermMinShare ?? 0.2
+      );
+      if (learned.length > 0) {
+        console.log(`[CDC] Learned generic terms from tags: ${learned.join(', ')}`);
       }
+      terms.push(...learned);
     }
 
+    this.genericTermMatcher = createGenericTermMatcher(terms);
+    this.genericTermsBuiltAt = Date.now();
+    return this.genericTermMatcher;
+  }
+
+  /**
+   * 제목/태그에서 일반적 용어 찾기 (등장한 곳마다 한 번씩, 개수가 감점 기준)
+   */
+  private findGenericTerms(note: NoteDomain, matcher: GenericTermMatcher): string[] {
+    const matched = matcher(note.title);
+
     // 태그에서도 체크
     for (const tag of note.tags) {
-      const tagLower = tag.toLowerCase();
-      for (const term of GENERIC_TERMS) {
-        if (tagLower.includes(term.toLowerCase())) {
-          count++;
-        }
-      }
+      matched.push(...matcher(tag));
     }
 
-    return count;
+    return matched;
   }
 
   /**
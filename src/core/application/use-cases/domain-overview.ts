@@ -0,0 +1,94 @@
+/**
+ * DomainOverviewUseCase
+ * 분류된 주 도메인 현황(노트 수, 중심이 가까운 도메인, 크로스 도메인 연결 수)을 집계하는 유스케이스
+ *
+ * 노트 수와 이웃 도메인은 바로 계산하고, 연결 수는 전체 쌍 탐색이 필요해 따로 요청할 때만 계산
+ */
+
+import type { VaultSearchOptions } from '../../domain/interfaces/connection-analyzer';
+import type { DomainCentroids } from '../../domain/value-objects/domain-centroids';
+import type { DiscoverConnectionsUseCase } from './discover-connections';
+
+/**
+ * 표시할 이웃 도메인 수
+ */
+const NEIGHBOUR_COUNT = 3;
+
+/**
+ * 도메인 요약
+ */
+export interface DomainOverviewEntry {
+  domain: string;
+  noteCount: number;
+  /** 중심이 가까운 도메인 (중심이 없는 도메인이면 빈 배열) */
+  neighbours: Array<{ domain: string; distance: number }>;
+}
+
+/**
+ * 도메인별 크로스 도메인 연결 집계
+ */
+export interface DomainConnectionSummary {
+  domain: string;
+  total: number;
+  /** 연결된 상대 도메인 (연결 수 내림차순) */
+  partners: Array<{ domain: string; count: number }>;
+}
+
+export class DomainOverviewUseCase {
+  constructor(
+    private discoverUseCase: DiscoverConnectionsUseCase,
+    private getCentroids: () => Promise<DomainCentroids>
+  ) {}
+
+  /**
+   * 주 도메인 목록 (노트 수 내림차순)
+   */
+  async getDomains(): Promise<DomainOverviewEntry[]> {
+    const counts = await this.discoverUseCase.countDomainNotes();
+
+    let centroids: DomainCentroids | null = null;
+    try {
+      centroids = await this.getCentroids();
+    } catch (error) {
+      console.error('[CDC] Failed to compute domain centroids for overview:', error);
+    }
+
+    return Array.from(counts.entries())
+      .map(([domain, noteCount]) => ({
+        domain,
+        noteCount,
+        neighbours: centroids?.nearest(domain, NEIGHBOUR_COUNT) ?? [],
+      }))
+      .sort((a, b) => b.noteCount - a.noteCount || a.domain.localeCompare(b.domain));
+  }
+
+  /**
+   * 도메인별 크로스 도메인 연결 수 (연결이 없는 도메인은 빠짐)
+   * 취소되면 그 시점까지의 집계 반환
+   */
+  async countConnections(
+    searchOptions: VaultSearchOptions = {}
+  ): Promise<Map<string, DomainConnectionSummary>> {
+    const counts = await this.discoverUseCase.countDomainConnections(searchOptions);
+
+    const summaries = new Map<string, DomainConnectionSummary>();
+    for (const [domain, partnerCounts] of counts) {
+      const partners = Array.from(partnerCounts.entries())
+        .map(([partner, count]) => ({ domain: partner, count }))
+        .sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain));
+      const total = partners.reduce((sum, partner) => sum + partner.count, 0);
+      summaries.set(domain, { domain, total, partners });
+    }
+    return summaries;
+  }
+
+  /**
+   * 어떤 도메인과도 연결되지 않는 도메인
+   */
+  findLonelyDomains(
+    entries: DomainOverviewEntry[],
+    summaries: Map<string, DomainConnectionSummary>
+  ): DomainOverviewEntry[] {
+    return entries.filter((entry) => !summaries.get(entry.domain)?.total);
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * GenerateEmbeddingsUseCase
+ * 내장 임베딩 프로바이더로 노트 임베딩을 생성해 Vault Embeddings 형식으로 저장
+ *
+ * - 노트 본문(frontmatter/코드 블록 제외)을 헤딩 섹션별로 나누고 문단 단위 청크로 분할
+ * - 청크 벡터를 길이 가중 평균 후 정규화하여 노트 벡터로 사용
+ * - 청크가 둘 이상이면 헤딩/블록 참조와 함께 청크 벡터도 저장 (구절 단위 연결용)
+ * - 인덱스의 updatedAt이 노트 수정 시각보다 새로우면 건너뜀 (force 시 전체 재생성)
+ */
+
+import type { TFile, Vault } from 'obsidian';
+import type { BaseEmbeddingProvider } from '../../adapters/embeddings/embedding-provider';
+import type { VaultEmbeddingsWriter } from '../../adapters/embeddings/vault-embeddings-writer';
+import type { DiscoveryProgress } from '../../domain/interfaces/connection-analyzer';
+import { generateNoteId } from '../../domain/utils/note-id';
+import {
+  chunkText,
+  cleanMarkdown,
+  extractTrailingBlockId,
+  splitSections,
+  stripFrontmatter,
+} from '../../domain/utils/text-chunker';
+
+// 인덱스를 중간 저장하는 주기 (노트 수) - 중단되어도 진행분 보존
+const INDEX_FLUSH_INTERVAL = 25;
+
+export interface GenerateEmbeddingsOptions {
+  excludeFolders: string[];
+  maxChunkChars: number;
+}
+
+export interface GenerateEmbeddingsRunOptions {
+  /** 변경 여부와 무관하게 다시 생성 */
+  force?: boolean;
+  onProgress?: (progress: DiscoveryProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface GenerateEmbeddingsResult {
+  generated: number;
+  skipped: number;
+  failed: number;
+  /** 마지막 실패 메시지 (사용자 알림용) */
+  lastError?: string;
+  cancelled: boolean;
+}
+
+interface NoteChunk {
+  heading?: string;
+  blockId?: string;
+  text: string;
+}
+
+interface EmbeddedNote {
+  vector: number[];
+  chunks?: Array<{ heading?: string; blockId?: string; vector: number[] }>;
+}
+
+export class GenerateEmbeddingsUseCase {
+  constructor(
+    private vault: Vault,
+    private provider: BaseEmbeddingProvider,
+    private writer: VaultEmbeddingsWriter,
+    private options: GenerateEmbeddingsOptions
+  ) {}
+
+  /**
+   * 볼트 전체 (제외 폴더 제외) 임베딩 생성
+   */
+  async execute(runOptions: GenerateEmbeddingsRunOptions = {}): Promise<GenerateEmbeddingsResult> {
+    const files = this.vault
+      .getMarkdownFiles()
+      .filter((file) => !this.isExcludedPath(file.path));
+    return this.generate(files, runOptions);
+  }
+
+  /**
+   * 지정한 노트만 임베딩 생성
+   */
+  async executeForFile(file: TFile): Promise<GenerateEmbeddingsResult> {
+    return this.generate([file], { force: true });
+  }
+
+  private async generate(
+    files: TFile[],
+    runOptions: GenerateEmbeddingsRunOptions
+  ): Promise<GenerateEmbeddingsResult> {
+    const index = await this.writer.readIndex();
+    const result: GenerateEmbeddingsResult = { generated: 0, skipped: 0, failed: 0, cancelled: false };
+
+    const targets = files.filter((file) => {
+      if (runOptions.force) return true;
+      const entry = index.notes[generateNoteId(file.path)];
+      const upToDate = entry && Date.parse(entry.updatedAt) >= file.stat.mtime;
+      if (upToDate) result.skipped++;
+      return !upToDate;
+    });
+
+    console.log(`[CDC] Generating embeddings for ${targets.length} notes (${result.skipped} up to date) with ${this.provider.model}`);
+    runOptions.onProgress?.({ completed: 0, total: targets.length });
+
+    let sinceFlush = 0;
+    for (let i = 0; i < targets.length; i++) {
+      if (runOptions.signal?.aborted) {
+        result.cancelled = true;
+        break;
+      }
+
+      const file = targets[i];
+      try {
+        const embedded = await this.embedNote(file);
+        if (embedded) {
+          const noteId = generateNoteId(file.path);
+          const updatedAt = new Date().toISOString();
+          await this.writer.writeEmbedding({
+            noteId,
+            path: file.path,
+            vector: embedded.vector,
+            chunks: embedded.chunks,
+            model: this.provider.model,
+            updatedAt,
+          });
+          index.notes[noteId] = { path: file.path, updatedAt };
+          result.generated++;
+          sinceFlush++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        result.failed++;
+        result.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`[CDC] Failed to embed ${file.path}:`, error);
+      }
+
+      if (sinceFlush >= INDEX_FLUSH_INTERVAL) {
+        await this.writer.writeIndex(index);
+        sinceFlush = 0;
+      }
+
+      runOptions.onProgress?.({ completed: i + 1, total: targets.length });
+    }
+
+    if (result.generated > 0) {
+      await this.writer.writeIndex(index);
+    }
+
+    console.log(`[CDC] Embedding generation: ${result.generated} generated, ${result.skipped} skipped, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * 노트 한 개 임베딩 (본문이 비어 있으면 null)
+   */
+  private async embedNote(file: TFile): Promise<EmbeddedNote | null> {
+    const content = await this.vault.cachedRead(file);
+    const chunks = this.chunkNote(file.basename, stripFrontmatter(content));
+    if (chunks.length === 0) return null;
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < chunks.length; i += this.provider.maxBatchSize) {
+      const batch = chunks.slice(i, i + this.provider.maxBatchSize);
+      const response = await this.provider.embed({ texts: batch.map((c) => c.text) });
+      if (!response.success || !response.vectors) {
+        throw new Error(response.error?.message ?? 'Embedding request failed');
+      }
+      vectors.push(...response.vectors);
+    }
+
+    return {
+      vector: this.poolChunks(vectors, chunks.map((c) => c.text.length)),
+      chunks: chunks.length > 1
+        ? chunks.map((chunk, idx) => ({ heading: chunk.heading, blockId: chunk.blockId, vector: vectors[idx] }))
+        : undefined,
+    };
+  }
+
+  /**
+   * 헤딩 섹션별 청크 분할 (청크 앞에 노트 제목과 헤딩을 붙여 문맥 보존)
+   */
+  private chunkNote(title: string, body: string): NoteChunk[] {
+    const chunks: NoteChunk[] = [];
+
+    for (const section of splitSections(body)) {
+      const text = cleanMarkdown(section.text);
+      if (!text) continue;
+
+      const prefix = section.heading ? `${title} > ${section.heading}` : title;
+      for (const chunk of chunkText(text, this.options.maxChunkChars)) {
+        chunks.push({
+          heading: section.heading,
+          blockId: extractTrailingBlockId(chunk),
+          text: `${prefix}\n\n${chunk}`,
+        });
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * 청크 벡터의 길이 가중 평균 (L2 정규화)
+   */
+  private poolChunks(vectors: number[][], weights: number[]): number[] {
+    const dimension = vectors[0].length;
+    const pooled = new Array<number>(dimension).fill(0);
+
+    vectors.forEach((vector, idx) => {
+      for (let d = 0; d < dimension; d++) {
+        pooled[d] += vector[d] * weights[idx];
+      }
+    });
+
+    const norm = Math.sqrt(pooled.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? pooled.map((v) => v / norm) : pooled;
+  }
+
+  /**
+   * 제외 경로인지 확인
+   */
+  private isExcludedPath(path: string): boolean {
+    const pathLower = path.toLowerCase();
+    return this.options.excludeFolders.some((folder) =>
+      pathLower.startsWith(folder.toLowerCase() + '/')
+    );
+  }
+}
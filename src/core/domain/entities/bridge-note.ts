@@ -0,0 +1,33 @@
+/**
+ * BridgeNote Entity
+ * 서로 먼 두 도메인 사이에 위치해 양쪽 노트와 모두 가까운 기존 노트
+ */
+
+import type { NoteDomain } from './note-domain';
+
+/**
+ * 브리지 노트가 잇는 한쪽 도메인
+ */
+export interface BridgeSide {
+  domain: string;
+
+  /** 도메인 중심과의 코사인 유사도 */
+  centroidSimilarity: number;
+
+  /** 이 도메인에서 가장 가까운 노트 (브리지 노트 자신 제외) */
+  nearestNote: { noteId: string; path: string; title: string; similarity: number } | null;
+}
+
+export interface BridgeNote {
+  /** 브리지 노트 */
+  note: NoteDomain;
+
+  /** 잇는 두 도메인 */
+  sides: [BridgeSide, BridgeSide];
+
+  /** 두 도메인의 정규화된 중심 거리 (0-1) */
+  domainDistance: number;
+
+  /** 브리지 점수 (0-1, 양쪽과 고르게 가깝고 두 도메인이 멀수록 높음) */
+  score: number;
+}
@@ -0,0 +1,24 @@
+/**
+ * ConnectionPath Entity
+ * 먼 두 노트를 중간 노트들로 잇는 다단계 연결 경로
+ */
+
+import type { CrossDomainConnection } from './cross-domain-connection';
+
+/**
+ * 경로의 한 단계 (인접한 두 노트의 연결)
+ */
+export interface ConnectionPathHop {
+  connection: CrossDomainConnection;
+
+  /** 두 노트가 이미 링크로 연결되어 있음 */
+  linked: boolean;
+}
+
+export interface ConnectionPath {
+  /** 시작 노트부터 순서대로 */
+  hops: ConnectionPathHop[];
+
+  /** 단계별 창발성 점수의 평균 (0-1) */
+  score: number;
+}
@@ -16,6 +16,24 @@ export type ConnectionType =
   | 'analogical'              // 구조적 유사성
   | 'contrasting';            // 대조적 관점
 
+/**
+ * 노트 안의 구절 위치 (헤딩 또는 블록 참조)
+ */
+export interface PassageAnchor {
+  heading?: string;
+  blockId?: string;
+}
+
+/**
+ * 두 노트에서 가장 유사한 구절 쌍
+ */
+export interface PassageMatch {
+  source: PassageAnchor;
+  target: PassageAnchor;
+  /** 구절 간 임베딩 유사도 (0-1) */
+  similarity: number;
+}
+
 /**
  * CrossDomainConnection 인터페이스
  */
@@ -41,6 +59,9 @@ export interface CrossDomainConnection {
   /** LLM 생성 유추 (선택적) */
   analogy?: string;
 
+  /** 가장 유사한 구절 쌍 (청크 임베딩이 있을 때) */
+  passage?: PassageMatch;
+
   /** 발견 시각 */
   discoveredAt: Date;
 }
@@ -58,6 +79,23 @@ export function getConnectionTypeLabel(type: ConnectionType): string {
   return labels[type];
 }
 
+/**
+ * 양 끝 노트 중 하나라도 임베딩이 오래되었는지 확인
+ */
+export function hasStaleEmbedding(connection: CrossDomainConnection): boolean {
+  return !!(connection.sourceNote.embeddingStale || connection.targetNote.embeddingStale);
+}
+
+/**
+ * 구절 위치를 링크 하위 경로로 변환 (예: "#^abc123", "#Heading")
+ * 위치 정보가 없으면 빈 문자열
+ */
+export function getPassageSubpath(anchor: PassageAnchor | undefined): string {
+  if (anchor?.blockId) return `#^${anchor.blockId}`;
+  if (anchor?.heading) return `#${anchor.heading}`;
+  return '';
+}
+
 /**
  * 유사도와 도메인 거리를 기반으로 연결 유형 추론
  */
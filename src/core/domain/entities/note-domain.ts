@@ -24,6 +24,9 @@ export interface NoteDomain {
 
   /** 임베딩 벡터 (선택적) */
   embedding?: number[];
+
+  /** 임베딩이 노트 수정 시각보다 오래됨 (발견 시 설정) */
+  embeddingStale?: boolean;
 }
 
 /**
@@ -48,3 +51,35 @@ export function createNoteDomain(params: {
     embedding: params.embedding,
   };
 }
+
+/**
+ * 가중치가 있는 도메인 (주 도메인 1, 부 도메인은 설정한 가중치)
+ */
+export interface WeightedDomain {
+  domain: string;
+  weight: number;
+}
+
+/**
+ * 노트의 도메인 집합 (주 도메인 + 부 도메인)
+ * @param secondaryWeight 부 도메인 가중치 (0이면 주 도메인만)
+ */
+export function getWeightedDomains(note: NoteDomain, secondaryWeight: number): WeightedDomain[] {
+  const domains: WeightedDomain[] = [{ domain: note.primaryDomain, weight: 1 }];
+  if (secondaryWeight <= 0) return domains;
+
+  for (const domain of note.secondaryDomains) {
+    if (domain !== note.primaryDomain && !domains.some((d) => d.domain === domain)) {
+      domains.push({ domain, weight: secondaryWeight });
+    }
+  }
+  return domains;
+}
+
+/**
+ * 두 노트가 주/부 도메인 중 하나라도 공유하는지 확인
+ */
+export function sharesAnyDomain(a: NoteDomain, b: NoteDomain): boolean {
+  const domainsA = new Set([a.primaryDomain, ...a.secondaryDomains]);
+  return b.primaryDomain === a.primaryDomain || [b.primaryDomain, ...b.secondaryDomains].some((d) => domainsA.has(d));
+}
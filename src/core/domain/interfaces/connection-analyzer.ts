@@ -4,6 +4,10 @@
  */
 
 import type { CrossDomainConnection } from '../entities/cross-domain-connection';
+import type { ScoringProfile } from '../value-objects/serendipity-score';
+import type { DomainTaxonomy } from '../value-objects/domain-taxonomy';
+import type { DomainCentroids } from '../value-objects/domain-centroids';
+import type { DomainDistanceStrategy } from '../value-objects/domain-distance';
 
 /**
  * 연결 분석기 인터페이스
@@ -19,19 +23,70 @@ export interface IConnectionAnalyzer {
   /**
    * 전체 볼트에서 가장 창발적인 연결 발견
    * @param limit 최대 결과 수
+   * @param searchOptions 진행률 콜백 및 취소 신호 (선택적)
    * @returns 발견된 연결 목록
    */
   findTopSerendipitousConnections(
-    limit: number
+    limit: number,
+    searchOptions?: VaultSearchOptions
   ): Promise<CrossDomainConnection[]>;
 }
 
+/**
+ * 볼트 전체 탐색 방식
+ * - sampled: 무작위 100개 노트를 소스로 샘플링 (빠름, 비결정적)
+ * - exhaustive: 모든 크로스 도메인 쌍 평가 (느림, 결정적 전역 상위 N)
+ */
+export type VaultWideMode = 'sampled' | 'exhaustive';
+
+/**
+ * 주/부 도메인을 공유하는 쌍의 처리
+ * - penalize: 공유 도메인만큼 도메인 거리가 줄어듦 (창발성 점수 감소)
+ * - skip: 도메인을 하나라도 공유하면 같은 도메인으로 보고 제외
+ */
+export type SharedDomainPolicy = 'penalize' | 'skip';
+
+/**
+ * 다중 도메인 옵션
+ */
+export interface MultiDomainOptions {
+  /** 부 도메인 가중치 (주 도메인은 1) */
+  secondaryWeight: number;
+
+  /** 도메인을 공유하는 쌍의 처리 */
+  sharedDomainPolicy: SharedDomainPolicy;
+}
+
+/**
+ * 볼트 전체 탐색 진행률
+ */
+export interface DiscoveryProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * 볼트 전체 탐색 옵션
+ */
+export interface VaultSearchOptions {
+  /** 진행률 콜백 */
+  onProgress?: (progress: DiscoveryProgress) => void;
+
+  /** 취소 신호 */
+  signal?: AbortSignal;
+}
+
 /**
  * 링크 체커 함수 타입
  * 두 노트 경로 간에 링크가 있는지 확인
  */
 export type LinkChecker = (path1: string, path2: string) => boolean;
 
+/**
+ * 링크로 연결된 노트 경로 조회 함수 타입 (나가는 링크 + 백링크)
+ */
+export type LinkedPathsLookup = (path: string) => string[];
+
 /**
  * 연결 분석 옵션
  */
@@ -53,4 +108,43 @@ export interface ConnectionAnalysisOptions {
 
   /** 링크 체커 함수 (이미 연결된 노트 제외용) */
   linkChecker?: LinkChecker;
+
+  /** 링크 조회 함수 생성 (다단계 경로 탐색마다 한 번 만들어 링크도 단계로 사용) */
+  createLinkedPathsLookup?: () => LinkedPathsLookup;
+
+  /** 볼트 전체 탐색 방식 (기본 sampled) */
+  vaultWideMode?: VaultWideMode;
+
+  /** 임베딩이 노트보다 오래된 타겟 제외 */
+  excludeStaleNotes?: boolean;
+
+  /** 청크 임베딩이 있으면 구절 단위로 비교 */
+  passageLevel?: boolean;
+
+  /** 다양성 재정렬 가중치 (0이면 창발성 점수순, 1에 가까울수록 다양성 우선) */
+  diversityWeight?: number;
+
+  /** 창발성 점수 프로필 (없으면 기본 프로필) */
+  scoringProfile?: ScoringProfile;
+
+  /** 일반적 용어 목록 (없으면 영어/한국어 기본 목록) */
+  genericTerms?: string[];
+
+  /** 자주 쓰인 태그를 일반적 용어로 학습 */
+  learnGenericTerms?: boolean;
+
+  /** 학습 기준: 태그가 붙은 노트 비율 (기본 0.2) */
+  learnedTermMinShare?: number;
+
+  /** 현재 도메인 계층 (없거나 null이면 태그 Jaccard 거리만 사용) */
+  getTaxonomy?: () => DomainTaxonomy | null;
+
+  /** 계층에 없는 도메인 쌍의 거리 계산 방식 (기본 tags) */
+  domainDistanceStrategy?: DomainDistanceStrategy;
+
+  /** 도메인 중심 임베딩 (centroid 방식에서 사용) */
+  getDomainCentroids?: () => Promise<DomainCentroids>;
+
+  /** 부 도메인까지 포함한 도메인 집합으로 비교 (없으면 주 도메인만) */
+  multiDomain?: MultiDomainOptions | null;
 }
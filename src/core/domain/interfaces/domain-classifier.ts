@@ -34,5 +34,12 @@ export interface IDomainClassifier {
 
 /**
  * 분류 방법 타입
+ * - llm: 태그 우선, 도메인 태그가 없으면 LLM이 붙인 라벨, 그마저 없으면 폴더
+ * - frontmatter: 도메인 속성(domain:, field: 등)과 태그/폴더를 지정한 우선순위로 확인
  */
-export type ClassificationMethod = 'tag' | 'folder' | 'cluster';
+export type ClassificationMethod = 'tag' | 'folder' | 'cluster' | 'llm' | 'frontmatter';
+
+/**
+ * frontmatter 분류 방식에서 도메인을 찾는 출처
+ */
+export type DomainSource = 'frontmatter' | 'tag' | 'folder';
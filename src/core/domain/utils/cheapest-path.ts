@@ -0,0 +1,102 @@
+/**
+ * Cheapest Path
+ * 간선 비용이 0 이상인 그래프에서 최소 비용 경로 탐색 (다익스트라)
+ *
+ * 간선은 노드를 처음 확장할 때 비동기로 조회하므로 전체 그래프를 미리 만들 필요 없음
+ * 확장 수가 상한에 닿으면 탐색을 멈추고 null 반환
+ */
+
+export interface PathEdge {
+  to: number;
+  cost: number;
+}
+
+/**
+ * start에서 goal까지 최소 비용 경로의 노드 목록 (start, goal 포함, 없으면 null)
+ * @param getEdges 노드의 간선 조회 (노드마다 한 번만 호출됨)
+ * @param maxExpansions 확장할 최대 노드 수
+ */
+export async function findCheapestPath(
+  start: number,
+  goal: number,
+  getEdges: (node: number) => Promise<PathEdge[]>,
+  maxExpansions: number
+): Promise<number[] | null> {
+  const costs = new Map<number, number>([[start, 0]]);
+  const previous = new Map<number, number>();
+  const expanded = new Set<number>();
+  const heap = new MinHeap();
+  heap.push(start, 0);
+
+  while (heap.size > 0 && expanded.size < maxExpansions) {
+    const { node, cost } = heap.pop()!;
+    if (expanded.has(node)) continue;
+    expanded.add(node);
+
+    if (node === goal) {
+      const path = [goal];
+      let current = goal;
+      while (current !== start) {
+        current = previous.get(current)!;
+        path.push(current);
+      }
+      return path.reverse();
+    }
+
+    for (const edge of await getEdges(node)) {
+      if (expanded.has(edge.to)) continue;
+      const nextCost = cost + edge.cost;
+      if (nextCost < (costs.get(edge.to) ?? Infinity)) {
+        costs.set(edge.to, nextCost);
+        previous.set(edge.to, node);
+        heap.push(edge.to, nextCost);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 비용 기준 이진 최소 힙 (같은 노드가 여러 번 들어갈 수 있음, 꺼낼 때 확장 여부로 거름)
+ */
+class MinHeap {
+  private items: Array<{ node: number; cost: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(node: number, cost: number): void {
+    const items = this.items;
+    items.push({ node, cost });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { node: number; cost: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
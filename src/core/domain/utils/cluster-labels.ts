@@ -0,0 +1,69 @@
+/**
+ * Cluster Labels
+ * 클러스터 구성 노트의 태그/제목에서 대표 용어를 뽑아 라벨 생성
+ *
+ * 클러스터 안에서 자주 나오면서 다른 클러스터에는 드문 용어를 TF-IDF로 선택
+ * (태그는 제목 단어보다 가중치 2배, 일반적 용어와 짧은 숫자 토큰은 제외)
+ */
+
+import { tokenize } from './generic-terms';
+
+export interface ClusterMember {
+  title: string;
+  tags: string[];
+}
+
+const TAG_WEIGHT = 2;
+const TITLE_WEIGHT = 1;
+const TERMS_PER_LABEL = 2;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'about', 'how', 'what', 'why', 'of', 'in', 'on', 'to', 'a', 'an',
+]);
+
+/**
+ * 클러스터별 라벨 (중복 라벨에는 번호를 붙여 구분)
+ * @param clusters 클러스터별 구성 노트
+ * @param excludeTerms 라벨에서 제외할 용어 (일반적 용어, 도메인 태그 접두사 등)
+ */
+export function labelClusters(clusters: ClusterMember[][], excludeTerms: string[] = []): string[] {
+  const excluded = new Set([...STOPWORDS, ...excludeTerms.flatMap((term) => tokenize(term))]);
+
+  const termWeights = clusters.map((members) => {
+    const weights = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      for (const token of tokenize(text)) {
+        if (excluded.has(token) || token.length < 2 || /^\d+$/.test(token)) continue;
+        weights.set(token, (weights.get(token) ?? 0) + weight);
+      }
+    };
+    for (const member of members) {
+      for (const tag of member.tags) add(tag, TAG_WEIGHT);
+      add(member.title, TITLE_WEIGHT);
+    }
+    return weights;
+  });
+
+  // 용어가 등장하는 클러스터 수
+  const clusterFrequency = new Map<string, number>();
+  for (const weights of termWeights) {
+    for (const term of weights.keys()) {
+      clusterFrequency.set(term, (clusterFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const used = new Map<string, number>();
+  return termWeights.map((weights, i) => {
+    const idf = (term: string) => Math.log(1 + clusters.length / clusterFrequency.get(term)!);
+    const terms = Array.from(weights.entries())
+      .map(([term, weight]) => ({ term, score: weight * idf(term) }))
+      .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+      .slice(0, TERMS_PER_LABEL)
+      .map(({ term }) => term);
+
+    const base = terms.length > 0 ? terms.join(' · ') : `Cluster ${i + 1}`;
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Diversity Re-ranking
+ * MMR(Maximal Marginal Relevance)로 연결 목록을 다양하게 재정렬
+ *
+ * MMR = (1 - λ) × 창발성 점수 - λ × 이미 선택된 연결과의 최대 중복도
+ * 중복도 = 0.5 × 타겟 노트 간 임베딩 유사도 + 0.5 × (같은 타겟 도메인이면 1)
+ *
+ * λ(diversityWeight)가 0이면 창발성 점수 순서와 동일
+ */
+
+import type { CrossDomainConnection } from '../entities/cross-domain-connection';
+
+/**
+ * 두 연결의 타겟 노트 간 유사도 (0-1)
+ */
+export type TargetSimilarityFn = (
+  a: CrossDomainConnection,
+  b: CrossDomainConnection
+) => number;
+
+/**
+ * 창발성 점수로 정렬된 후보에서 다양성을 고려해 상위 limit개 선택
+ * @param ranked 창발성 점수 내림차순으로 정렬된 후보
+ */
+export function rerankByDiversity(
+  ranked: CrossDomainConnection[],
+  limit: number,
+  diversityWeight: number,
+  targetSimilarity: TargetSimilarityFn
+): CrossDomainConnection[] {
+  if (diversityWeight <= 0 || ranked.length <= 1) {
+    return ranked.slice(0, limit);
+  }
+
+  const remaining = [...ranked];
+  const selected: CrossDomainConnection[] = [];
+  // 후보별 선택된 연결과의 최대 중복도 (선택할 때마다 갱신)
+  const redundancy = new Array<number>(remaining.length).fill(0);
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const score =
+        (1 - diversityWeight) * remaining[i].serendipityScore.value -
+        diversityWeight * redundancy[i];
+      // 동점이면 원래 순서(앞쪽) 유지
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    redundancy.splice(bestIndex, 1);
+    selected.push(picked);
+
+    for (let i = 0; i < remaining.length; i++) {
+      const sameDomain =
+        remaining[i].targetNote.primaryDomain === picked.targetNote.primaryDomain ? 1 : 0;
+      const overlap = 0.5 * Math.max(0, targetSimilarity(remaining[i], picked)) + 0.5 * sameDomain;
+      redundancy[i] = Math.max(redundancy[i], overlap);
+    }
+  }
+
+  return selected;
+}
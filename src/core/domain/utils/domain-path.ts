@@ -0,0 +1,60 @@
+/**
+ * Domain Path Utilities
+ * 중첩 태그("domain/과학/물리학")에서 온 도메인을 경로로 다루는 유틸리티
+ *
+ * 도메인 "과학/물리학"은 "과학" 아래의 "물리학"으로 보고,
+ * 공통 상위 경로가 깊을수록 가까운 도메인으로 계산
+ */
+
+import type { DomainTaxonomy } from '../value-objects/domain-taxonomy';
+
+const SEPARATOR = '/';
+
+/**
+ * 도메인 경로 분할 (예: "과학/물리학" → ['과학', '물리학'])
+ */
+export function splitDomainPath(domain: string): string[] {
+  return domain.split(SEPARATOR).map((segment) => segment.trim()).filter(Boolean);
+}
+
+/**
+ * 경로의 마지막 단계 (예: "과학/물리학" → "물리학")
+ */
+export function getDomainLeaf(domain: string): string {
+  const segments = splitDomainPath(domain);
+  return segments[segments.length - 1] ?? domain;
+}
+
+/**
+ * 두 경로의 공통 상위 단계 수 (대소문자 무시)
+ */
+export function sharedPathDepth(path1: string[], path2: string[]): number {
+  let depth = 0;
+  while (
+    depth < path1.length &&
+    depth < path2.length &&
+    path1[depth].toLowerCase() === path2[depth].toLowerCase()
+  ) {
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * 경로 거리 (0-1)
+ * 1 - 2 × 공통 깊이 / (깊이1 + 깊이2), 최상위부터 다르면 null
+ */
+export function domainPathDistance(domain1: string, domain2: string): number | null {
+  const path1 = splitDomainPath(domain1);
+  const path2 = splitDomainPath(domain2);
+  const shared = sharedPathDepth(path1, path2);
+  if (shared === 0) return null;
+  return 1 - (2 * shared) / (path1.length + path2.length);
+}
+
+/**
+ * 화면 표시용 경로 (도메인 계층에 있으면 계층 경로, 아니면 태그 경로)
+ */
+export function getDomainBreadcrumb(domain: string, taxonomy: DomainTaxonomy | null): string[] {
+  return taxonomy?.getPath(domain) ?? splitDomainPath(domain);
+}
@@ -0,0 +1,124 @@
+/**
+ * Generic Terms
+ * 창발성 감점 대상인 일반적 용어 매칭
+ *
+ * - 부분 문자열이 아닌 토큰 단위로 비교 ("notebook"은 "note"와 일치하지 않음)
+ * - 영어 복수형(-s, -es)과 한국어 조사(은/는/이/가/의 등)를 떼고도 비교
+ * - 여러 단어 용어는 연속된 토큰으로 비교
+ */
+
+export type GenericTermLanguage = 'en' | 'ko';
+
+/**
+ * 언어별 기본 용어
+ */
+export const DEFAULT_GENERIC_TERMS: Record<GenericTermLanguage, string[]> = {
+  en: ['note', 'idea', 'concept', 'thought', 'summary', 'overview', 'misc', 'todo', 'draft', 'inbox'],
+  ko: ['노트', '아이디어', '개념', '생각', '요약', '개요', '메모', '정리', '기타', '초안'],
+};
+
+export const GENERIC_TERM_LANGUAGE_NAMES: Record<GenericTermLanguage, string> = {
+  en: 'English',
+  ko: 'Korean',
+};
+
+/**
+ * 조사 (긴 것부터 비교)
+ */
+const KOREAN_PARTICLES = [
+  '에서는', '으로는', '에게서', '이라는',
+  '에서', '으로', '에게', '까지', '부터', '처럼', '보다', '라는', '이나',
+  '은', '는', '이', '가', '을', '를', '의', '에', '로', '와', '과', '도', '만', '나',
+];
+
+const HANGUL_PATTERN = /[가-힣]/;
+
+/**
+ * 텍스트/태그를 소문자 토큰으로 분리 (문자와 숫자 외의 모든 문자가 구분자, 태그의 '/', '-', '_' 포함)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * 토큰의 비교 후보 (원형 + 복수형/조사 제거형)
+ */
+function tokenForms(token: string): string[] {
+  const forms = [token];
+
+  if (HANGUL_PATTERN.test(token)) {
+    const particle = KOREAN_PARTICLES.find((p) => token.length > p.length && token.endsWith(p));
+    if (particle) forms.push(token.slice(0, -particle.length));
+  } else if (token.length > 3 && token.endsWith('s')) {
+    forms.push(token.slice(0, -1));
+    if (token.endsWith('es')) forms.push(token.slice(0, -2));
+  }
+
+  return forms;
+}
+
+/**
+ * 텍스트에서 일치한 용어 목록 반환 (일치한 위치마다 한 번씩)
+ */
+export type GenericTermMatcher = (text: string) => string[];
+
+/**
+ * 용어 목록으로 매처 생성
+ */
+export function createGenericTermMatcher(terms: string[]): GenericTermMatcher {
+  const compiled = Array.from(new Set(terms.map((t) => t.trim()).filter((t) => t.length > 0)))
+    .map((term) => ({ term, tokens: tokenize(term) }))
+    .filter((entry) => entry.tokens.length > 0);
+
+  return (text: string): string[] => {
+    const forms = tokenize(text).map(tokenForms);
+    const matched: string[] = [];
+
+    for (const { term, tokens } of compiled) {
+      for (let start = 0; start + tokens.length <= forms.length; start++) {
+        if (tokens.every((token, offset) => forms[start + offset].includes(token))) {
+          matched.push(term);
+        }
+      }
+    }
+
+    return matched;
+  };
+}
+
+/**
+ * 많은 노트에 붙은 태그를 일반적 용어로 학습
+ * 태그 마지막 경로 요소 기준으로 셈 (도메인 태그는 호출 전에 제외)
+ *
+ * @param tagLists 노트별 태그 목록
+ * @param minShare 일반적 용어로 볼 최소 노트 비율 (0-1)
+ * @param minNotes 학습에 필요한 최소 노트 수 (작은 볼트의 오탐 방지)
+ */
+export function learnGenericTermsFromTags(
+  tagLists: string[][],
+  minShare: number,
+  minNotes = 20
+): string[] {
+  if (tagLists.length < minNotes) return [];
+
+  const counts = new Map<string, number>();
+  for (const tags of tagLists) {
+    const leaves = new Set<string>();
+    for (const tag of tags) {
+      const leaf = tag.split('/').pop()?.toLowerCase();
+      if (leaf) leaves.add(leaf);
+    }
+    for (const leaf of leaves) {
+      counts.set(leaf, (counts.get(leaf) ?? 0) + 1);
+    }
+  }
+
+  const threshold = Math.max(2, Math.ceil(tagLists.length * minShare));
+  return Array.from(counts.entries())
+    .filter(([, count]) => count >= threshold)
+    .sort((a, b) => b[1] - a[1])
+    .map(([leaf]) => leaf);
+}
@@ -0,0 +1,214 @@
+/**
+ * Spherical K-Means
+ * 정규화된 임베딩을 코사인 유사도 기준으로 군집화
+ *
+ * - k-means++ 초기화 (시드 고정으로 같은 입력이면 같은 결과)
+ * - 클러스터 수 자동 선택: 표본에서 후보 k별 실루엣 점수 비교
+ * - 반복마다 UI 스레드에 양보
+ */
+
+import { dotProduct, toNormalizedFloat32 } from './vector-math';
+
+export interface KMeansResult {
+  /** 벡터별 클러스터 번호 */
+  assignments: Int32Array;
+  /** 정규화된 중심 */
+  centroids: Float32Array[];
+}
+
+export interface KMeansOptions {
+  maxIterations?: number;
+  seed?: number;
+}
+
+const DEFAULT_ITERATIONS = 20;
+const SILHOUETTE_SAMPLE_SIZE = 400;
+const SELECTION_ITERATIONS = 8;
+
+/**
+ * 시드 고정 난수 (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const yieldToUI = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * 가장 가까운 중심 번호와 유사도
+ */
+export function nearestCentroid(vector: Float32Array, centroids: Float32Array[]): { index: number; similarity: number } {
+  let index = 0;
+  let similarity = -Infinity;
+  for (let c = 0; c < centroids.length; c++) {
+    const score = dotProduct(vector, centroids[c]);
+    if (score > similarity) {
+      similarity = score;
+      index = c;
+    }
+  }
+  return { index, similarity };
+}
+
+/**
+ * k-means++ 초기 중심 선택 (거리 = 1 - cos)
+ */
+function initCentroids(vectors: Float32Array[], k: number, random: () => number): Float32Array[] {
+  const centroids = [vectors[Math.floor(random() * vectors.length)]];
+  const distances = new Float64Array(vectors.length).fill(Infinity);
+
+  while (centroids.length < k) {
+    const latest = centroids[centroids.length - 1];
+    let total = 0;
+    for (let i = 0; i < vectors.length; i++) {
+      const distance = Math.max(0, 1 - dotProduct(vectors[i], latest));
+      if (distance < distances[i]) distances[i] = distance;
+      total += distances[i] * distances[i];
+    }
+    if (total === 0) break;
+
+    let target = random() * total;
+    let chosen = vectors.length - 1;
+    for (let i = 0; i < vectors.length; i++) {
+      target -= distances[i] * distances[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    centroids.push(vectors[chosen]);
+  }
+
+  return centroids.map((c) => Float32Array.from(c));
+}
+
+/**
+ * 정규화된 벡터 군집화
+ */
+export async function sphericalKMeans(
+  vectors: Float32Array[],
+  k: number,
+  options: KMeansOptions = {}
+): Promise<KMeansResult> {
+  const n = vectors.length;
+  const assignments = new Int32Array(n);
+  if (n === 0) return { assignments, centroids: [] };
+
+  const dimension = vectors[0].length;
+  let centroids = initCentroids(vectors, Math.max(1, Math.min(k, n)), createRandom(options.seed ?? 42));
+  const maxIterations = options.maxIterations ?? DEFAULT_ITERATIONS;
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let changed = iter === 0;
+    for (let i = 0; i < n; i++) {
+      const { index } = nearestCentroid(vectors[i], centroids);
+      if (assignments[i] !== index) {
+        assignments[i] = index;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+
+    const sums = centroids.map(() => new Float64Array(dimension));
+    const counts = new Array<number>(centroids.length).fill(0);
+    for (let i = 0; i < n; i++) {
+      const sum = sums[assignments[i]];
+      const vector = vectors[i];
+      for (let d = 0; d < dimension; d++) {
+        sum[d] += vector[d];
+      }
+      counts[assignments[i]]++;
+    }
+    // 빈 클러스터는 이전 중심 유지
+    centroids = centroids.map((centroid, c) => (counts[c] > 0 ? toNormalizedFloat32(sums[c]) : centroid));
+
+    await yieldToUI();
+  }
+
+  return { assignments, centroids };
+}
+
+/**
+ * 실루엣 점수로 클러스터 수 선택
+ * 표본 간 유사도 행렬을 한 번 계산하고 후보 k마다 표본을 군집화해 평균 실루엣 비교
+ */
+export async function chooseClusterCount(
+  vectors: Float32Array[],
+  minK: number,
+  maxK: number
+): Promise<number> {
+  const step = Math.max(1, Math.floor(vectors.length / SILHOUETTE_SAMPLE_SIZE));
+  const sample = vectors.filter((_, i) => i % step === 0);
+  const s = sample.length;
+  maxK = Math.min(maxK, s - 1);
+  if (maxK <= minK) return Math.max(1, Math.min(minK, s));
+
+  const similarity = new Float32Array(s * s);
+  for (let i = 0; i < s; i++) {
+    for (let j = i; j < s; j++) {
+      const value = dotProduct(sample[i], sample[j]);
+      similarity[i * s + j] = value;
+      similarity[j * s + i] = value;
+    }
+  }
+  await yieldToUI();
+
+  // 후보 k: 최대 8개를 로그 간격으로
+  const candidates = new Set<number>();
+  const ratio = Math.pow(maxK / minK, 1 / 7);
+  for (let i = 0; i < 8; i++) {
+    candidates.add(Math.round(minK * Math.pow(ratio, i)));
+  }
+
+  let bestK = minK;
+  let bestScore = -Infinity;
+  for (const k of candidates) {
+    const { assignments } = await sphericalKMeans(sample, k, { maxIterations: SELECTION_ITERATIONS });
+    const score = silhouette(similarity, assignments, k);
+    if (score > bestScore) {
+      bestScore = score;
+      bestK = k;
+    }
+  }
+
+  return bestK;
+}
+
+/**
+ * 평균 실루엣 점수 (거리 = 1 - cos)
+ */
+function silhouette(similarity: Float32Array, assignments: Int32Array, k: number): number {
+  const s = assignments.length;
+  const sums = new Float64Array(k);
+  const sizes = new Int32Array(k);
+  for (let i = 0; i < s; i++) sizes[assignments[i]]++;
+
+  let total = 0;
+  for (let i = 0; i < s; i++) {
+    sums.fill(0);
+    for (let j = 0; j < s; j++) {
+      if (i !== j) sums[assignments[j]] += 1 - similarity[i * s + j];
+    }
+
+    const own = assignments[i];
+    if (sizes[own] <= 1) continue;  // 단독 클러스터는 0점
+
+    const a = sums[own] / (sizes[own] - 1);
+    let b = Infinity;
+    for (let c = 0; c < k; c++) {
+      if (c !== own && sizes[c] > 0) b = Math.min(b, sums[c] / sizes[c]);
+    }
+    const scale = Math.max(a, b);
+    if (b === Infinity || scale === 0) continue;
+    total += (b - a) / scale;
+  }
+
+  return total / s;
+}
@@ -7,7 +7,7 @@
  * 간단한 해시 함수
  * Vault Embeddings 플러그인과 동일한 알고리즘 사용
  */
-function simpleHash(str: string): string {
+export function simpleHash(str: string): string {
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
     const char = str.charCodeAt(i);
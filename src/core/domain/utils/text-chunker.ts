@@ -0,0 +1,104 @@
+/**
+ * Text Chunker
+ * 임베딩용 노트 본문 추출 및 청크 분할
+ */
+
+/**
+ * YAML frontmatter 제거
+ */
+export function stripFrontmatter(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '');
+}
+
+/**
+ * 헤딩 단위 섹션
+ */
+export interface TextSection {
+  /** 섹션 헤딩 (첫 헤딩 이전 본문이면 없음) */
+  heading?: string;
+  text: string;
+}
+
+/**
+ * 마크다운 헤딩(#~######) 기준으로 섹션 분할
+ * 코드 블록 안의 '#' 줄은 헤딩으로 보지 않음
+ */
+export function splitSections(content: string): TextSection[] {
+  const sections: TextSection[] = [];
+  let current: TextSection = { text: '' };
+  let inCodeBlock = false;
+
+  for (const line of content.split('\n')) {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const heading = inCodeBlock ? null : line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: heading[1], text: '' };
+      continue;
+    }
+    current.text += line + '\n';
+  }
+
+  if (current.text.trim()) sections.push(current);
+  return sections;
+}
+
+/**
+ * 청크 끝 문단의 블록 참조 ID (예: "... ^abc123" → "abc123")
+ */
+export function extractTrailingBlockId(text: string): string | undefined {
+  return text.match(/\s\^([A-Za-z0-9-]+)\s*$/)?.[1];
+}
+
+/**
+ * 임베딩에 불필요한 마크다운 요소 정리
+ * 코드 블록과 이미지는 제거하고, 위키링크는 표시 텍스트만 남김
+ */
+export function cleanMarkdown(content: string): string {
+  return content
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[\[[^\]]*\]\]/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
+    .replace(/\[\[([^\]]+)\]\]/g, '$1')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 문단 경계를 유지하며 최대 길이 이하의 청크로 분할
+ * 한 문단이 최대 길이보다 길면 강제로 자름
+ */
+export function chunkText(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    if (current && current.length + trimmed.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+
+    if (trimmed.length > maxChars) {
+      for (let i = 0; i < trimmed.length; i += maxChars) {
+        chunks.push(trimmed.slice(i, i + maxChars));
+      }
+      continue;
+    }
+
+    current = current ? `${current}\n\n${trimmed}` : trimmed;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
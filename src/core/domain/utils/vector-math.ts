@@ -0,0 +1,56 @@
+/**
+ * Vector Math Utilities
+ * 임베딩 벡터 연산 공용 함수
+ */
+
+/**
+ * L2 정규화된 Float32Array로 변환
+ * 정규화된 벡터끼리의 내적은 코사인 유사도와 같음
+ */
+export function toNormalizedFloat32(vector: ArrayLike<number>): Float32Array {
+  const result = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm === 0) return result;
+
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = vector[i] / norm;
+  }
+  return result;
+}
+
+/**
+ * 내적 계산 (정규화된 벡터면 코사인 유사도)
+ */
+export function dotProduct(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * 벡터들을 L2 정규화해 하나의 Float64Array 행렬(row-major)로 패킹
+ * 워커로 전송(transferable)하기 위한 형태
+ */
+export function packNormalized(vectors: ArrayLike<number>[], dimension: number): Float64Array {
+  const matrix = new Float64Array(vectors.length * dimension);
+  vectors.forEach((vector, row) => {
+    let norm = 0;
+    for (let d = 0; d < dimension; d++) {
+      norm += vector[d] * vector[d];
+    }
+    norm = Math.sqrt(norm);
+    if (norm === 0) return;
+
+    const offset = row * dimension;
+    for (let d = 0; d < dimension; d++) {
+      matrix[offset + d] = vector[d] / norm;
+    }
+  });
+  return matrix;
+}
@@ -0,0 +1,134 @@
+/**
+ * DomainCentroids Value Object
+ * 주 도메인별 중심 임베딩과 도메인 간 거리 행렬
+ *
+ * - 중심 = 도메인에 속한 노트 벡터(정규화)의 평균을 다시 정규화
+ * - 거리 = 중심 간 코사인 거리(1 - cos)를 가장 먼 도메인 쌍 기준으로 0-1 정규화
+ *   (임베딩 공간에서는 서로 다른 분야도 코사인 거리가 작게 나오므로 상대 거리로 사용)
+ */
+
+import { dotProduct, toNormalizedFloat32 } from '../utils/vector-math';
+
+/**
+ * 중심을 만들 도메인 최소 노트 수 (노트 하나짜리 도메인은 중심이 노트 자체라 제외)
+ */
+const DEFAULT_MIN_NOTES = 2;
+
+/**
+ * 행렬을 만들 최대 도메인 수 (노트가 많은 순, 행렬 크기 제한)
+ */
+const MAX_DOMAINS = 500;
+
+export class DomainCentroids {
+  private readonly index: Map<string, number>;
+
+  private constructor(
+    /** 도메인 목록 (행렬 행 순서) */
+    readonly domains: string[],
+    private readonly centroids: Float32Array[],
+    /** 도메인별 노트 수 */
+    readonly counts: number[],
+    /** 정규화된 거리 행렬 (row-major, k × k) */
+    private readonly matrix: Float64Array
+  ) {
+    this.index = new Map(domains.map((domain, i) => [domain, i]));
+  }
+
+  /**
+   * 노트 벡터에서 도메인 중심과 거리 행렬 계산
+   */
+  static fromVectors(
+    entries: Iterable<{ domain: string; vector: ArrayLike<number> }>,
+    minNotes: number = DEFAULT_MIN_NOTES
+  ): DomainCentroids {
+    const sums = new Map<string, { sum: Float64Array; count: number }>();
+    let dimension = 0;
+
+    for (const { domain, vector } of entries) {
+      if (dimension === 0) dimension = vector.length;
+      if (vector.length !== dimension) continue;
+
+      const normalized = toNormalizedFloat32(vector);
+      let entry = sums.get(domain);
+      if (!entry) {
+        entry = { sum: new Float64Array(dimension), count: 0 };
+        sums.set(domain, entry);
+      }
+      for (let d = 0; d < dimension; d++) {
+        entry.sum[d] += normalized[d];
+      }
+      entry.count++;
+    }
+
+    const selected = Array.from(sums.entries())
+      .filter(([, entry]) => entry.count >= minNotes)
+      .sort((a, b) => b[1].count - a[1].count || a[0].localeCompare(b[0]))
+      .slice(0, MAX_DOMAINS);
+
+    const domains = selected.map(([domain]) => domain);
+    const counts = selected.map(([, entry]) => entry.count);
+    const centroids = selected.map(([, entry]) => toNormalizedFloat32(entry.sum));
+
+    const k = domains.length;
+    const matrix = new Float64Array(k * k);
+    let maxDistance = 0;
+    for (let i = 0; i < k; i++) {
+      for (let j = i + 1; j < k; j++) {
+        const distance = 1 - dotProduct(centroids[i], centroids[j]);
+        matrix[i * k + j] = distance;
+        matrix[j * k + i] = distance;
+        if (distance > maxDistance) maxDistance = distance;
+      }
+    }
+    if (maxDistance > 0) {
+      for (let i = 0; i < matrix.length; i++) {
+        matrix[i] = Math.max(0, matrix[i] / maxDistance);
+      }
+    }
+
+    return new DomainCentroids(domains, centroids, counts, matrix);
+  }
+
+  /**
+   * 중심이 계산된 도메인 수
+   */
+  get size(): number {
+    return this.domains.length;
+  }
+
+  /**
+   * 도메인 중심 벡터 (정규화됨)
+   */
+  getCentroid(domain: string): Float32Array | undefined {
+    const i = this.index.get(domain);
+    return i === undefined ? undefined : this.centroids[i];
+  }
+
+  /**
+   * 두 도메인의 정규화된 중심 거리 (0-1, 둘 중 하나라도 중심이 없으면 null)
+   */
+  distance(domain1: string, domain2: string): number | null {
+    const i = this.index.get(domain1);
+    const j = this.index.get(domain2);
+    if (i === undefined || j === undefined) return null;
+    return this.matrix[i * this.domains.length + j];
+  }
+
+  /**
+   * 중심이 가장 가까운 도메인 (가까운 순, 중심이 없는 도메인이면 빈 배열)
+   */
+  nearest(domain: string, limit: number): Array<{ domain: string; distance: number }> {
+    const i = this.index.get(domain);
+    if (i === undefined) return [];
+
+    const k = this.domains.length;
+    const neighbours: Array<{ domain: string; distance: number }> = [];
+    for (let j = 0; j < k; j++) {
+      if (j === i) continue;
+      neighbours.push({ domain: this.domains[j], distance: this.matrix[i * k + j] });
+    }
+    return neighbours
+      .sort((a, b) => a.distance - b.distance || a.domain.localeCompare(b.domain))
+      .slice(0, limit);
+  }
+}
@@ -3,6 +3,18 @@
  * 두 도메인 간의 거리를 계산하고 관리하는 값 객체
  */
 
+import type { DomainTaxonomy } from './domain-taxonomy';
+import type { DomainCentroids } from './domain-centroids';
+import type { WeightedDomain } from '../entities/note-domain';
+import { domainPathDistance } from '../utils/domain-path';
+
+/**
+ * 도메인 계층에 없는 도메인 쌍의 거리 계산 방식
+ * - tags: 태그 집합 Jaccard 거리 (이름만 다른 도메인도 멀다고 봄)
+ * - centroid: 도메인 중심 임베딩 간 거리 (의미적으로 먼 도메인만 멀다고 봄)
+ */
+export type DomainDistanceStrategy = 'tags' | 'centroid';
+
 export class DomainDistance {
   /** 거리 값 (0-1, 높을수록 먼 도메인) */
   readonly value: number;
@@ -15,33 +27,111 @@ export class DomainDistance {
    * 두 도메인 간 거리 계산
    * @param domain1 첫 번째 도메인
    * @param domain2 두 번째 도메인
-   * @param taxonomyMap 도메인 분류 체계 맵 (선택적)
+   * @param taxonomy 도메인 계층 (선택적, 두 도메인이 모두 있으면 트리 거리 사용)
    */
   static calculate(
     domain1: string,
     domain2: string,
-    taxonomyMap?: Map<string, string>
+    taxonomy?: DomainTaxonomy | null
   ): DomainDistance {
     // 같은 도메인이면 거리 0
     if (domain1 === domain2) {
       return new DomainDistance(0);
     }
 
-    // 분류 체계가 있으면 상위 분류 비교
-    if (taxonomyMap) {
-      const parent1 = taxonomyMap.get(domain1);
-      const parent2 = taxonomyMap.get(domain2);
+    // 계층이 있으면 공통 상위 도메인 깊이로 계산
+    const treeDistance = taxonomy ? DomainDistance.fromTaxonomy(domain1, domain2, taxonomy) : null;
+    if (treeDistance) {
+      return treeDistance;
+    }
 
-      // 같은 상위 분류에 속하면 0.5
-      if (parent1 && parent2 && parent1 === parent2) {
-        return new DomainDistance(0.5);
-      }
+    // 중첩 태그 경로면 공통 상위 경로 깊이로 계산
+    const pathDistance = DomainDistance.fromDomainPaths(domain1, domain2);
+    if (pathDistance) {
+      return pathDistance;
     }
 
     // 다른 도메인이면 기본 거리 1.0
     return new DomainDistance(1.0);
   }
 
+  /**
+   * 도메인 계층의 트리 거리 (최소 공통 상위 도메인 깊이 기반)
+   * 둘 중 하나라도 계층에 없으면 null
+   */
+  static fromTaxonomy(
+    domain1: string,
+    domain2: string,
+    taxonomy: DomainTaxonomy
+  ): DomainDistance | null {
+    const distance = taxonomy.distance(domain1, domain2);
+    return distance === null ? null : new DomainDistance(distance);
+  }
+
+  /**
+   * 중첩 태그 경로 거리 (공통 상위 경로 깊이 기반)
+   * 예: "과학/물리학" ↔ "과학/생물학" = 0.5
+   * 최상위 단계부터 다르면 null
+   */
+  static fromDomainPaths(domain1: string, domain2: string): DomainDistance | null {
+    const distance = domainPathDistance(domain1, domain2);
+    return distance === null ? null : new DomainDistance(distance);
+  }
+
+  /**
+   * 도메인 중심 임베딩 간 거리
+   * 둘 중 하나라도 중심이 없으면 null
+   */
+  static fromCentroids(
+    domain1: string,
+    domain2: string,
+    centroids: DomainCentroids
+  ): DomainDistance | null {
+    if (domain1 === domain2) {
+      return new DomainDistance(0);
+    }
+    const distance = centroids.distance(domain1, domain2);
+    return distance === null ? null : new DomainDistance(distance);
+  }
+
+  /**
+   * 가중 도메인 집합 간 거리
+   * 각 도메인에서 상대 집합의 가장 가까운 도메인까지의 거리를 가중 평균 (양방향)
+   * 주 도메인만 있으면 두 주 도메인의 거리와 같음
+   * @param pairDistance 도메인 쌍 거리 (0-1)
+   */
+  static fromDomainSets(
+    set1: WeightedDomain[],
+    set2: WeightedDomain[],
+    pairDistance: (domain1: string, domain2: string) => number
+  ): DomainDistance {
+    if (set1.length === 0 || set2.length === 0) {
+      return new DomainDistance(1.0);
+    }
+
+    const cache = new Map<string, number>();
+    const distance = (d1: string, d2: string): number => {
+      const key = d1 < d2 ? `${d1}\u0000${d2}` : `${d2}\u0000${d1}`;
+      let value = cache.get(key);
+      if (value === undefined) {
+        value = d1 === d2 ? 0 : pairDistance(d1, d2);
+        cache.set(key, value);
+      }
+      return value;
+    };
+
+    let total = 0;
+    let weights = 0;
+    for (const [from, to] of [[set1, set2], [set2, set1]]) {
+      for (const { domain, weight } of from) {
+        total += weight * Math.min(...to.map((other) => distance(domain, other.domain)));
+        weights += weight;
+      }
+    }
+
+    return new DomainDistance(weights > 0 ? total / weights : 1.0);
+  }
+
   /**
    * 태그 집합 간 Jaccard Distance 계산
    * @param tags1 첫 번째 태그 집합
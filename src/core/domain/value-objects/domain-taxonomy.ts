@@ -0,0 +1,161 @@
+/**
+ * DomainTaxonomy Value Object
+ * 사용자 정의 도메인 계층 (트리)
+ *
+ * 개요(outline) 형식:
+ * - 들여쓰기된 목록 항목이 상위 항목의 하위 도메인 ("- 과학" 아래 "  - 물리학")
+ * - 한 줄에 "과학/물리학/양자역학"처럼 경로를 적으면 중간 도메인도 만듦
+ * - 제목(#), 코드 블록, 프론트매터는 무시
+ *
+ * 도메인 이름은 대소문자를 구분하지 않고, 같은 이름이 여러 번 나오면 처음 위치만 사용
+ */
+
+import { getDomainLeaf } from '../utils/domain-path';
+
+interface TaxonomyNode {
+  name: string;
+  parent: string | null;
+  depth: number;
+}
+
+export class DomainTaxonomy {
+  /** 소문자 키 → 노드 */
+  private readonly nodes: Map<string, TaxonomyNode>;
+
+  private constructor(nodes: Map<string, TaxonomyNode>) {
+    this.nodes = nodes;
+  }
+
+  /**
+   * 개요 텍스트 파싱
+   */
+  static parse(outline: string): DomainTaxonomy {
+    const nodes = new Map<string, TaxonomyNode>();
+    const stack: Array<{ indent: number; key: string }> = [];
+
+    const addNode = (name: string, parentKey: string | null): string => {
+      const key = name.toLowerCase();
+      if (!nodes.has(key)) {
+        const depth = parentKey ? nodes.get(parentKey)!.depth + 1 : 1;
+        nodes.set(key, { name, parent: parentKey, depth });
+      }
+      return key;
+    };
+
+    let inCodeBlock = false;
+    let inFrontmatter = outline.startsWith('---');
+    const lines = outline.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].replace(/\t/g, '    ');
+      const trimmed = line.trim();
+
+      if (inFrontmatter) {
+        if (i > 0 && trimmed === '---') inFrontmatter = false;
+        continue;
+      }
+      if (trimmed.startsWith('```')) {
+        inCodeBlock = !inCodeBlock;
+        continue;
+      }
+      if (inCodeBlock || !trimmed || /^#{1,6}\s/.test(trimmed)) continue;
+
+      const text = trimmed
+        .replace(/^([-*+]|\d+[.)])\s+/, '')
+        .replace(/\[\[([^\]|]+)(\|[^\]]+)?\]\]/g, '$1')
+        .replace(/^#/, '')
+        .trim();
+      if (!text) continue;
+
+      const indent = line.length - line.trimStart().length;
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+
+      let parentKey = stack.length > 0 ? stack[stack.length - 1].key : null;
+      for (const segment of text.split('/').map((s) => s.trim()).filter(Boolean)) {
+        parentKey = addNode(segment, parentKey);
+      }
+      if (parentKey) {
+        stack.push({ indent, key: parentKey });
+      }
+    }
+
+    return new DomainTaxonomy(nodes);
+  }
+
+  /**
+   * 정의된 도메인 수
+   */
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * 도메인 포함 여부
+   */
+  has(domain: string): boolean {
+    return this.resolveKey(domain) !== null;
+  }
+
+  /**
+   * 최상위부터 도메인까지의 경로 (없으면 null)
+   */
+  getPath(domain: string): string[] | null {
+    let key = this.resolveKey(domain);
+    if (!key) return null;
+
+    const path: string[] = [];
+    while (key) {
+      const node: TaxonomyNode = this.nodes.get(key)!;
+      path.unshift(node.name);
+      key = node.parent;
+    }
+    return path;
+  }
+
+  /**
+   * 트리 거리 (0-1)
+   * 1 - 2 × depth(LCA) / (depth(a) + depth(b))
+   * 형제 도메인 0.5, 최상위가 다르면 1.0, 둘 중 하나라도 없으면 null
+   */
+  distance(domain1: string, domain2: string): number | null {
+    const path1 = this.getKeyPath(domain1);
+    const path2 = this.getKeyPath(domain2);
+    if (!path1 || !path2) return null;
+
+    let lcaDepth = 0;
+    while (
+      lcaDepth < path1.length &&
+      lcaDepth < path2.length &&
+      path1[lcaDepth] === path2[lcaDepth]
+    ) {
+      lcaDepth++;
+    }
+
+    return 1 - (2 * lcaDepth) / (path1.length + path2.length);
+  }
+
+  /**
+   * 노드 키 조회 (중첩 태그 경로 "과학/물리학"은 마지막 단계로 조회)
+   */
+  private resolveKey(domain: string): string | null {
+    const key = domain.toLowerCase();
+    if (this.nodes.has(key)) return key;
+
+    const leaf = getDomainLeaf(domain).toLowerCase();
+    return this.nodes.has(leaf) ? leaf : null;
+  }
+
+  private getKeyPath(domain: string): string[] | null {
+    let key = this.resolveKey(domain);
+    if (!key) return null;
+
+    const path: string[] = [];
+    while (key) {
+      path.unshift(key);
+      key = this.nodes.get(key)!.parent;
+    }
+    return path;
+  }
+}
@@ -2,8 +2,8 @@
  * SerendipityScore Value Object
  * 창발성 점수를 계산하고 관리하는 값 객체
  *
- * 핵심 알고리즘:
- * BaseScore = (Similarity × 0.4) + (DomainDistance × 0.6)
+ * 핵심 알고리즘 (가중치/감점은 ScoringProfile로 조정):
+ * BaseScore = (SimilarityTerm × similarityWeight) + (DomainDistance × distanceWeight)
  * SerendipityScore = BaseScore × NoveltyPenalty × SpecificityPenalty
  */
 
@@ -19,53 +19,213 @@ export interface SerendipityScoreParams {
 
   /** 일반적 용어 개수 */
   genericTermsCount: number;
+
+  /** 감점 대상이 된 일반적 용어 (설명용, 선택) */
+  matchedGenericTerms?: string[];
+}
+
+/**
+ * 점수 구성 요소 (설명용)
+ * baseScore = similarityTerm + distanceTerm (가중치 정규화 후 기여분)
+ * value = baseScore × noveltyPenalty × specificityPenalty
+ */
+export interface ScoreBreakdown {
+  baseScore: number;
+  similarityTerm: number;
+  distanceTerm: number;
+  noveltyPenalty: number;
+  specificityPenalty: number;
+  matchedGenericTerms: string[];
+}
+
+/**
+ * 유사도 반영 곡선
+ * - linear: 유사도가 높을수록 점수 증가
+ * - sweet-spot: 중간 유사도(center 근처)에서 최대, 너무 뻔한 고유사도는 감점
+ */
+export type SimilarityCurve = 'linear' | 'sweet-spot';
+
+/**
+ * 점수 계산 프로필
+ */
+export interface ScoringProfile {
+  similarityWeight: number;     // 유사도 가중치 (기본 0.4)
+  distanceWeight: number;       // 도메인 거리 가중치 (기본 0.6)
+  noveltyPenalty: number;       // 이미 연결된 노트에 곱하는 값 (기본 0.5)
+  genericTermPenalty: number;   // 일반적 용어 1개당 감점 (기본 0.15)
+  minSpecificity: number;       // 특이성 감점 하한 (기본 0.3)
+  similarityCurve: SimilarityCurve;
+  sweetSpotCenter: number;      // sweet-spot 곡선의 최대 지점 (기본 0.65)
+  sweetSpotWidth: number;       // sweet-spot 곡선의 폭 (표준편차, 기본 0.15)
+}
+
+export type ScoringPresetId = 'balanced' | 'far-domains' | 'sweet-spot' | 'close-matches';
+
+/**
+ * 기본 프로필 (기존 고정 공식과 동일)
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  similarityWeight: 0.4,
+  distanceWeight: 0.6,
+  noveltyPenalty: 0.5,
+  genericTermPenalty: 0.15,
+  minSpecificity: 0.3,
+  similarityCurve: 'linear',
+  sweetSpotCenter: 0.65,
+  sweetSpotWidth: 0.15,
+};
+
+/**
+ * 프리셋
+ */
+export const SCORING_PRESETS: Record<ScoringPresetId, { name: string; profile: ScoringProfile }> = {
+  balanced: {
+    name: 'Balanced (default)',
+    profile: DEFAULT_SCORING_PROFILE,
+  },
+  'far-domains': {
+    name: 'Far domains',
+    profile: { ...DEFAULT_SCORING_PROFILE, similarityWeight: 0.25, distanceWeight: 0.75 },
+  },
+  'sweet-spot': {
+    name: 'Sweet spot (mid-range similarity)',
+    profile: { ...DEFAULT_SCORING_PROFILE, similarityWeight: 0.5, distanceWeight: 0.5, similarityCurve: 'sweet-spot' },
+  },
+  'close-matches': {
+    name: 'Close matches',
+    profile: { ...DEFAULT_SCORING_PROFILE, similarityWeight: 0.6, distanceWeight: 0.4, genericTermPenalty: 0.1 },
+  },
+};
+
+/**
+ * 프로필 검증 (문제 목록 반환)
+ */
+export function validateScoringProfile(profile: ScoringProfile): string[] {
+  const errors: string[] = [];
+  const inUnitRange = (v: number) => Number.isFinite(v) && v >= 0 && v <= 1;
+
+  if (!inUnitRange(profile.similarityWeight) || !inUnitRange(profile.distanceWeight)) {
+    errors.push('Scoring weights must be between 0 and 1.');
+  } else if (profile.similarityWeight + profile.distanceWeight === 0) {
+    errors.push('At least one scoring weight must be greater than 0.');
+  }
+
+  if (!inUnitRange(profile.noveltyPenalty)) {
+    errors.push('Novelty penalty must be between 0 and 1.');
+  }
+
+  if (!Number.isFinite(profile.genericTermPenalty) || profile.genericTermPenalty < 0 || profile.genericTermPenalty > 0.5) {
+    errors.push('Generic term penalty must be between 0 and 0.5.');
+  }
+
+  if (!inUnitRange(profile.minSpecificity)) {
+    errors.push('Minimum specificity must be between 0 and 1.');
+  }
+
+  if (profile.similarityCurve === 'sweet-spot') {
+    if (!inUnitRange(profile.sweetSpotCenter)) {
+      errors.push('Sweet spot center must be between 0 and 1.');
+    }
+    if (!Number.isFinite(profile.sweetSpotWidth) || profile.sweetSpotWidth <= 0 || profile.sweetSpotWidth > 1) {
+      errors.push('Sweet spot width must be greater than 0 and at most 1.');
+    }
+  }
+
+  return errors;
 }
 
 export class SerendipityScore {
   /** 점수 값 (0-1, 높을수록 창발적) */
   readonly value: number;
 
-  private constructor(value: number) {
+  /** 계산 입력값 (다른 프로필로 재계산할 때 사용, fromValue로 만들면 없음) */
+  readonly params?: SerendipityScoreParams;
+
+  /** 점수 구성 요소 (fromValue로 만들면 없음) */
+  readonly breakdown?: ScoreBreakdown;
+
+  private constructor(value: number, params?: SerendipityScoreParams, breakdown?: ScoreBreakdown) {
     this.value = Math.max(0, Math.min(1, value));
+    this.params = params;
+    this.breakdown = breakdown;
   }
 
   /**
    * 창발성 점수 계산
    *
-   * Formula:
+   * Formula (기본 프로필):
    * BaseScore = (Similarity × 0.4) + (DomainDistance × 0.6)
    * SerendipityScore = BaseScore × NoveltyPenalty × SpecificityPenalty
    *
    * - DomainDistance: 도메인 간 거리 (0-1, 멀수록 높음)
-   * - Similarity: 임베딩 유사도 (0-1)
-   * - NoveltyPenalty: 이미 연결된 노트는 감점 (0.5-1.0)
-   * - SpecificityPenalty: 너무 일반적인 연결은 감점 (0.3-1.0)
+   * - Similarity: 임베딩 유사도 (0-1), sweet-spot 곡선이면 중간 유사도가 최대
+   * - NoveltyPenalty: 이미 연결된 노트는 감점 (기본 0.5)
+   * - SpecificityPenalty: 너무 일반적인 연결은 감점 (기본 최소 30%)
    */
-  static calculate(params: SerendipityScoreParams): SerendipityScore {
+  static calculate(
+    params: SerendipityScoreParams,
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+  ): SerendipityScore {
     const { similarity, domainDistance, isAlreadyLinked, genericTermsCount } = params;
 
-    // Base score: 유사도와 도메인 거리의 가중 합
-    // 도메인이 멀수록 (0.6 가중치), 유사도가 높을수록 (0.4 가중치) 창발성 높음
-    const baseScore = (similarity * 0.4) + (domainDistance * 0.6);
+    // 가중치 합이 1이 아니어도 0-1 범위가 되도록 정규화
+    const weightSum = profile.similarityWeight + profile.distanceWeight || 1;
+    const similarityTerm =
+      (SerendipityScore.applyCurve(similarity, profile) * profile.similarityWeight) / weightSum;
+    const distanceTerm = (domainDistance * profile.distanceWeight) / weightSum;
+    const baseScore = similarityTerm + distanceTerm;
 
-    // Novelty penalty: 이미 연결되어 있으면 50% 감점
-    const noveltyPenalty = isAlreadyLinked ? 0.5 : 1.0;
+    // Novelty penalty: 이미 연결되어 있으면 감점
+    const noveltyPenalty = isAlreadyLinked ? profile.noveltyPenalty : 1.0;
 
-    // Specificity penalty: 일반적 용어가 많으면 감점 (최소 30%)
-    const specificityPenalty = Math.max(0.3, 1 - (genericTermsCount * 0.15));
+    // Specificity penalty: 일반적 용어가 많으면 감점 (하한 있음)
+    const specificityPenalty = Math.max(
+      profile.minSpecificity,
+      1 - (genericTermsCount * profile.genericTermPenalty)
+    );
 
     const finalScore = baseScore * noveltyPenalty * specificityPenalty;
 
-    return new SerendipityScore(finalScore);
+    return new SerendipityScore(finalScore, params, {
+      baseScore,
+      similarityTerm,
+      distanceTerm,
+      noveltyPenalty,
+      specificityPenalty,
+      matchedGenericTerms: params.matchedGenericTerms ?? [],
+    });
   }
 
   /**
-   * 직접 값으로 생성 (테스트용)
+   * 유사도 곡선 적용
+   * sweet-spot: 가우시안 exp(-(s - center)² / (2 × width²))
+   */
+  private static applyCurve(similarity: number, profile: ScoringProfile): number {
+    if (profile.similarityCurve !== 'sweet-spot') {
+      return similarity;
+    }
+    const deviation = (similarity - profile.sweetSpotCenter) / profile.sweetSpotWidth;
+    return Math.exp(-0.5 * deviation * deviation);
+  }
+
+  /**
+   * 직접 값으로 생성 (테스트용, 입력값을 모르는 캐시 복원용)
    */
   static fromValue(value: number): SerendipityScore {
     return new SerendipityScore(value);
   }
 
+  /**
+   * 저장된 값/입력값/구성 요소로 복원 (재계산 없이 캐시 복원용)
+   */
+  static restore(
+    value: number,
+    params?: SerendipityScoreParams,
+    breakdown?: ScoreBreakdown
+  ): SerendipityScore {
+    return new SerendipityScore(value, params, breakdown);
+  }
+
   /**
    * 높은 창발성 여부 (>= 0.7)
    */
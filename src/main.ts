@@ -3,12 +3,16 @@
  * PKM 볼트에서 서로 다른 도메인의 노트 간 창발적 연결을 발견하는 플러그인
  */
 
-import { Plugin, TFile, normalizePath } from 'obsidian';
+import { Notice, Plugin, TFile, normalizePath } from 'obsidian';
 import { CDCSettings, DEFAULT_SETTINGS, migrateSettings, SerendipityCache, hydrateSerendipityCache, DeepSerendipityCache } from './types';
 
 // Views
 import { CDCMainView, VIEW_TYPE_CDC } from './views/main-view';
+import { DomainOverviewView, VIEW_TYPE_DOMAIN_OVERVIEW } from './views/domain-overview-view';
 import { CDCSettingTab } from './views/settings/settings-tab';
+import { DomainLabelModal, type DomainLabelReviewGroup } from './views/domain-label-modal';
+import { DomainPairModal } from './views/domain-pair-modal';
+import { ConnectionPathModal, PathTargetSuggestModal } from './views/connection-path-modal';
 
 // Services
 import {
@@ -18,14 +22,50 @@ import {
   AIService,
 } from './core/application/services/ai-service';
 import { DomainClassificationService } from './core/application/services/domain-classification-service';
+import {
+  DomainLabelService,
+  type DomainLabelOptions,
+  type DomainLabelSuggestion,
+} from './core/application/services/domain-label-service';
 
 // Use Cases
 import { DiscoverConnectionsUseCase } from './core/application/use-cases/discover-connections';
 import { GenerateAnalogyUseCase } from './core/application/use-cases/generate-analogy';
 import { DeepSerendipityUseCase } from './core/application/use-cases/deep-serendipity';
+import { DomainOverviewUseCase } from './core/application/use-cases/domain-overview';
+import { DetectBridgeNotesUseCase } from './core/application/use-cases/detect-bridge-notes';
+import {
+  GenerateEmbeddingsUseCase,
+  type GenerateEmbeddingsResult,
+  type GenerateEmbeddingsRunOptions,
+} from './core/application/use-cases/generate-embeddings';
 
 // Adapters
-import { VaultEmbeddingsReader } from './core/adapters/embeddings/vault-embeddings-reader';
+import {
+  VaultEmbeddingsReader,
+  type EmbeddingDiagnostics,
+  type EmbeddingModelGroup,
+} from './core/adapters/embeddings/vault-embeddings-reader';
+import {
+  createEmbeddingSource,
+  type EmbeddingSourceValidation,
+} from './core/adapters/embeddings/embedding-source';
+import { VectorIndex } from './core/adapters/embeddings/vector-index';
+import { VaultEmbeddingsWriter } from './core/adapters/embeddings/vault-embeddings-writer';
+import { EmbeddingBinaryCache } from './core/adapters/embeddings/embedding-binary-cache';
+import { SimilarityWorker } from './core/adapters/compute/similarity-worker';
+import { ClusterIndex, type ClusterSummary } from './core/adapters/embeddings/cluster-index';
+import { createEmbeddingProvider } from './core/adapters/embeddings/embedding-provider';
+
+// Domain Taxonomy
+import {
+  DomainTaxonomyService,
+  type DomainTaxonomySettings,
+} from './core/application/services/domain-taxonomy-service';
+import type { DomainTaxonomy } from './core/domain/value-objects/domain-taxonomy';
+import type { LinkedPathsLookup, MultiDomainOptions } from './core/domain/interfaces/connection-analyzer';
+import { DomainCentroidService } from './core/application/services/domain-centroid-service';
+import { NoteClusterService, type NoteClusterOptions } from './core/application/services/note-cluster-service';
 
 // Link Creation
 import { LinkCreationService } from './core/application/services/link-creation-service';
@@ -36,8 +76,19 @@ export default class CrossDomainConnectorPlugin extends Plugin {
 
   private aiService: AIService | null = null;
   private embeddingsReader!: VaultEmbeddingsReader;
+  private vectorIndex!: VectorIndex;
+  private binaryCache!: EmbeddingBinaryCache;
+  private similarityWorker!: SimilarityWorker;
+  private embeddingSourceKey = '';
+  private binaryCacheEnabled = false;
   private classificationService!: DomainClassificationService;
+  private taxonomyService!: DomainTaxonomyService;
+  private domainCentroidService!: DomainCentroidService;
+  private clusterService!: NoteClusterService;
+  private domainLabelService!: DomainLabelService;
   private discoverUseCase!: DiscoverConnectionsUseCase;
+  private domainOverviewUseCase!: DomainOverviewUseCase;
+  private detectBridgeNotesUseCase!: DetectBridgeNotesUseCase;
   private analogyUseCase: GenerateAnalogyUseCase | null = null;
   private deepSerendipityUseCase: DeepSerendipityUseCase | null = null;
   private linkCreationService!: LinkCreationService;
@@ -50,11 +101,42 @@ export default class CrossDomainConnectorPlugin extends Plugin {
     await this.loadSettings();
 
     // Initialize adapters
-    this.embeddingsReader = new VaultEmbeddingsReader(this.app.vault);
+    this.embeddingSourceKey = this.getEmbeddingSourceKey();
+    this.binaryCache = new EmbeddingBinaryCache(this.app.vault, this.manifest.dir ?? '');
+    this.binaryCache.setSourceKey(this.embeddingSourceKey);
+    this.embeddingsReader = new VaultEmbeddingsReader(
+      createEmbeddingSource(this.app.vault, this.settings.advanced),
+      this.settings.advanced.useBinaryCache ? this.binaryCache : null
+    );
+    this.binaryCacheEnabled = this.settings.advanced.useBinaryCache;
+    this.embeddingsReader.setPreferredModel(this.settings.advanced.embeddingModel);
+    this.similarityWorker = new SimilarityWorker();
+    this.vectorIndex = new VectorIndex(
+      this.app.vault,
+      normalizePath(`${this.manifest.dir ?? ''}/vector-index.json`)
+    );
 
     // Initialize link creation service
     this.linkCreationService = new LinkCreationService(this.app.vault);
 
+    // Initialize LLM domain labels (llm classification method, cluster names)
+    this.domainLabelService = new DomainLabelService(
+      this.app.vault,
+      this.app.fileManager,
+      (noteId) => this.classificationService.getFileByNoteId(noteId),
+      () => this.aiService,
+      this.getDomainLabelOptions()
+    );
+    await this.domainLabelService.load();
+
+    // Initialize note clustering (cluster classification method)
+    this.clusterService = new NoteClusterService(
+      this.embeddingsReader,
+      new ClusterIndex(this.app.vault, normalizePath(`${this.manifest.dir ?? ''}/clusters.json`)),
+      (noteId) => this.describeNote(noteId),
+      this.getClusterOptions()
+    );
+
     // Initialize domain classification service
     this.classificationService = new DomainClassificationService(
       this.app.vault,
@@ -62,9 +144,26 @@ export default class CrossDomainConnectorPlugin extends Plugin {
       {
         method: this.settings.advanced.classificationMethod,
         domainTagPrefixes: this.settings.advanced.domainTagPrefixes,
+        domainProperties: this.settings.advanced.domainProperties,
+        domainSourceOrder: this.settings.advanced.domainSourceOrder,
+        overrideProperty: this.settings.advanced.domainOverrideProperty,
+      },
+      (noteId) => this.getClusterDomain(noteId),
+      (noteId) => this.domainLabelService.getLabel(noteId)
+    );
+    this.domainCentroidService = new DomainCentroidService(
+      this.embeddingsReader,
+      this.classificationService,
+      {
+        includeFolders: this.settings.discovery.includeFolders,
+        excludeFolders: this.settings.discovery.excludeFolders,
       }
     );
 
+    // Initialize domain taxonomy
+    this.taxonomyService = new DomainTaxonomyService(this.app.vault, this.getTaxonomySettings());
+    await this.taxonomyService.load();
+
     // Initialize AI service if API key is configured
     if (this.settings.ai.apiKeys[this.settings.ai.provider]) {
       this.aiService = initializeAIService(this.settings.ai);
@@ -79,6 +178,10 @@ export default class CrossDomainConnectorPlugin extends Plugin {
           maxResults: this.settings.discovery.maxResults,
           includeFolders: this.settings.discovery.includeFolders,
           excludeFolders: this.settings.discovery.excludeFolders,
+          getTaxonomy: () => this.taxonomyService.getTaxonomy(),
+          domainDistanceStrategy: this.settings.discovery.domainDistanceStrategy,
+          getDomainCentroids: () => this.domainCentroidService.getCentroids(),
+          multiDomain: this.getMultiDomainOptions(),
         }
       );
     }
@@ -95,6 +198,34 @@ export default class CrossDomainConnectorPlugin extends Plugin {
         excludeFolders: this.settings.discovery.excludeFolders,
         includeFolders: this.settings.discovery.includeFolders,
         linkChecker: this.createLinkChecker(),
+        createLinkedPathsLookup: () => this.createLinkedPathsLookup(),
+        vaultWideMode: this.settings.discovery.vaultWideMode,
+        excludeStaleNotes: this.settings.discovery.excludeStaleNotes,
+        passageLevel: this.settings.discovery.passageLevel,
+        diversityWeight: this.settings.discovery.diversityWeight,
+        scoringProfile: this.settings.scoring.profile,
+        genericTerms: this.settings.scoring.genericTerms,
+        learnGenericTerms: this.settings.scoring.learnGenericTerms,
+        learnedTermMinShare: this.settings.scoring.learnedTermMinShare,
+        getTaxonomy: () => this.taxonomyService.getTaxonomy(),
+        domainDistanceStrategy: this.settings.discovery.domainDistanceStrategy,
+        getDomainCentroids: () => this.domainCentroidService.getCentroids(),
+        multiDomain: this.getMultiDomainOptions(),
+      },
+      this.settings.discovery.useVectorIndex ? this.vectorIndex : null,
+      this.similarityWorker
+    );
+    this.domainOverviewUseCase = new DomainOverviewUseCase(
+      this.discoverUseCase,
+      () => this.domainCentroidService.getCentroids()
+    );
+    this.detectBridgeNotesUseCase = new DetectBridgeNotesUseCase(
+      this.embeddingsReader,
+      this.classificationService,
+      () => this.domainCentroidService.getCentroids(),
+      {
+        includeFolders: this.settings.discovery.includeFolders,
+        excludeFolders: this.settings.discovery.excludeFolders,
       }
     );
 
@@ -108,6 +239,8 @@ export default class CrossDomainConnectorPlugin extends Plugin {
       );
     });
 
+    this.registerView(VIEW_TYPE_DOMAIN_OVERVIEW, (leaf) => new DomainOverviewView(leaf, this));
+
     // Commands
     this.addCommand({
       id: 'open-cdc-view',
@@ -115,6 +248,33 @@ export default class CrossDomainConnectorPlugin extends Plugin {
       callback: () => this.activateView(),
     });
 
+    this.addCommand({
+      id: 'open-domain-overview',
+      name: 'Open Domain Overview',
+      callback: () => this.activateDomainOverview(),
+    });
+
+    this.addCommand({
+      id: 'find-connection-path',
+      name: 'Find Connection Path from Current Note',
+      checkCallback: (checking: boolean) => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile || activeFile.extension !== 'md') return false;
+        if (!checking) {
+          new PathTargetSuggestModal(this.app, activeFile, (target) => {
+            new ConnectionPathModal(this.app, this, activeFile, target).open();
+          }).open();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'discover-domain-pair',
+      name: 'Discover Connections Between Two Domains',
+      callback: () => new DomainPairModal(this.app, this).open(),
+    });
+
     this.addCommand({
       id: 'discover-connections',
       name: 'Discover Cross-Domain Connections for Current Note',
@@ -128,6 +288,64 @@ export default class CrossDomainConnectorPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'recluster-notes',
+      name: 'Re-cluster Notes',
+      checkCallback: (checking: boolean) => {
+        if (this.settings.advanced.classificationMethod !== 'cluster') return false;
+        if (!checking) {
+          new Notice('Clustering notes...');
+          this.reclusterNotes()
+            .then((clusters) => new Notice(`Clustered notes into ${clusters.length} clusters`))
+            .catch((error) => {
+              console.error('[CDC] Re-clustering failed:', error);
+              new Notice('Failed to cluster notes');
+            });
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'suggest-domain-labels',
+      name: 'Suggest Domains with AI',
+      checkCallback: (checking: boolean) => {
+        if (!this.aiService) return false;
+        if (!checking) {
+          void this.suggestDomainLabels();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'generate-embeddings',
+      name: 'Generate Embeddings for Modified Notes',
+      callback: () => this.runEmbeddingGeneration(),
+    });
+
+    this.addCommand({
+      id: 'generate-embedding-current-note',
+      name: 'Generate Embedding for Current Note',
+      checkCallback: (checking: boolean) => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile || activeFile.extension !== 'md') return false;
+        if (!checking) {
+          this.generateEmbeddingForFile(activeFile)
+            .then((result) => {
+              new Notice(result.generated > 0
+                ? `Embedding updated for ${activeFile.basename}`
+                : `Embedding not generated: ${result.lastError ?? 'note is empty'}`);
+            })
+            .catch((error) => {
+              console.error('[CDC] Embedding generation failed:', error);
+              new Notice('Embedding generation failed');
+            });
+        }
+        return true;
+      },
+    });
+
     // Settings tab
     this.settingTab = new CDCSettingTab(this.app, this);
     this.addSettingTab(this.settingTab);
@@ -139,20 +357,34 @@ export default class CrossDomainConnectorPlugin extends Plugin {
 
     // File events - refresh classification index
     this.registerEvent(
-      this.app.vault.on('create', () => {
+      this.app.vault.on('create', (file) => {
         this.classificationService.refreshIndex();
+        this.embeddingsReader.handleFileChange(file.path);
+        void this.taxonomyService.handleFileChange(file.path);
       })
     );
 
     this.registerEvent(
-      this.app.vault.on('delete', () => {
+      this.app.vault.on('delete', (file) => {
         this.classificationService.refreshIndex();
+        this.embeddingsReader.handleFileChange(file.path);
       })
     );
 
     this.registerEvent(
-      this.app.vault.on('rename', () => {
+      this.app.vault.on('rename', (file, oldPath) => {
         this.classificationService.refreshIndex();
+        this.embeddingsReader.handleFileChange(oldPath);
+        this.embeddingsReader.handleFileChange(file.path);
+        void this.taxonomyService.handleFileChange(file.path);
+      })
+    );
+
+    // Embedding file events - invalidate single entries
+    this.registerEvent(
+      this.app.vault.on('modify', (file) => {
+        this.embeddingsReader.handleFileChange(file.path);
+        void this.taxonomyService.handleFileChange(file.path);
       })
     );
 
@@ -161,6 +393,8 @@ export default class CrossDomainConnectorPlugin extends Plugin {
 
   async onunload(): Promise<void> {
     console.log('[CDC] Unloading Cross-Domain Connector plugin');
+    await this.embeddingsReader.flushBinaryCache();
+    this.similarityWorker.terminate();
     resetAIService();
   }
 
@@ -176,6 +410,26 @@ export default class CrossDomainConnectorPlugin extends Plugin {
   async saveSettings(): Promise<void> {
     await this.saveData(this.settings);
 
+    // Update embedding source if its configuration changed
+    const sourceKey = this.getEmbeddingSourceKey();
+    if (sourceKey !== this.embeddingSourceKey) {
+      this.embeddingSourceKey = sourceKey;
+      this.binaryCache.setSourceKey(sourceKey);
+      this.embeddingsReader.setSource(
+        createEmbeddingSource(this.app.vault, this.settings.advanced)
+      );
+    }
+    this.embeddingsReader.setPreferredModel(this.settings.advanced.embeddingModel);
+    if (this.settings.advanced.useBinaryCache !== this.binaryCacheEnabled) {
+      this.binaryCacheEnabled = this.settings.advanced.useBinaryCache;
+      this.embeddingsReader.setBinaryCache(this.binaryCacheEnabled ? this.binaryCache : null);
+      if (!this.binaryCacheEnabled) {
+        await this.binaryCache.clear();
+      }
+    }
+
+    await this.taxonomyService.updateSettings(this.getTaxonomySettings());
+
     // Update AI service
     if (this.settings.ai.apiKeys[this.settings.ai.provider]) {
       if (this.aiService) {
@@ -195,6 +449,10 @@ export default class CrossDomainConnectorPlugin extends Plugin {
           maxResults: this.settings.discovery.maxResults,
           includeFolders: this.settings.discovery.includeFolders,
           excludeFolders: this.settings.discovery.excludeFolders,
+          getTaxonomy: () => this.taxonomyService.getTaxonomy(),
+          domainDistanceStrategy: this.settings.discovery.domainDistanceStrategy,
+          getDomainCentroids: () => this.domainCentroidService.getCentroids(),
+          multiDomain: this.getMultiDomainOptions(),
         }
       );
     } else {
@@ -204,6 +462,9 @@ export default class CrossDomainConnectorPlugin extends Plugin {
       resetAIService();
     }
 
+    this.clusterService.updateOptions(this.getClusterOptions());
+    this.domainLabelService.updateOptions(this.getDomainLabelOptions());
+
     // Update classification service
     this.classificationService = new DomainClassificationService(
       this.app.vault,
@@ -211,6 +472,19 @@ export default class CrossDomainConnectorPlugin extends Plugin {
       {
         method: this.settings.advanced.classificationMethod,
         domainTagPrefixes: this.settings.advanced.domainTagPrefixes,
+        domainProperties: this.settings.advanced.domainProperties,
+        domainSourceOrder: this.settings.advanced.domainSourceOrder,
+        overrideProperty: this.settings.advanced.domainOverrideProperty,
+      },
+      (noteId) => this.getClusterDomain(noteId),
+      (noteId) => this.domainLabelService.getLabel(noteId)
+    );
+    this.domainCentroidService = new DomainCentroidService(
+      this.embeddingsReader,
+      this.classificationService,
+      {
+        includeFolders: this.settings.discovery.includeFolders,
+        excludeFolders: this.settings.discovery.excludeFolders,
       }
     );
 
@@ -226,6 +500,34 @@ export default class CrossDomainConnectorPlugin extends Plugin {
         excludeFolders: this.settings.discovery.excludeFolders,
         includeFolders: this.settings.discovery.includeFolders,
         linkChecker: this.createLinkChecker(),
+        createLinkedPathsLookup: () => this.createLinkedPathsLookup(),
+        vaultWideMode: this.settings.discovery.vaultWideMode,
+        excludeStaleNotes: this.settings.discovery.excludeStaleNotes,
+        passageLevel: this.settings.discovery.passageLevel,
+        diversityWeight: this.settings.discovery.diversityWeight,
+        scoringProfile: this.settings.scoring.profile,
+        genericTerms: this.settings.scoring.genericTerms,
+        learnGenericTerms: this.settings.scoring.learnGenericTerms,
+        learnedTermMinShare: this.settings.scoring.learnedTermMinShare,
+        getTaxonomy: () => this.taxonomyService.getTaxonomy(),
+        domainDistanceStrategy: this.settings.discovery.domainDistanceStrategy,
+        getDomainCentroids: () => this.domainCentroidService.getCentroids(),
+        multiDomain: this.getMultiDomainOptions(),
+      },
+      this.settings.discovery.useVectorIndex ? this.vectorIndex : null,
+      this.similarityWorker
+    );
+    this.domainOverviewUseCase = new DomainOverviewUseCase(
+      this.discoverUseCase,
+      () => this.domainCentroidService.getCentroids()
+    );
+    this.detectBridgeNotesUseCase = new DetectBridgeNotesUseCase(
+      this.embeddingsReader,
+      this.classificationService,
+      () => this.domainCentroidService.getCentroids(),
+      {
+        includeFolders: this.settings.discovery.includeFolders,
+        excludeFolders: this.settings.discovery.excludeFolders,
       }
     );
   }
@@ -239,6 +541,268 @@ export default class CrossDomainConnectorPlugin extends Plugin {
     return this.embeddingsReader.getEmbeddingCount();
   }
 
+  /**
+   * 임베딩 모델 일관성 진단
+   */
+  async getEmbeddingDiagnostics(): Promise<EmbeddingDiagnostics> {
+    return this.embeddingsReader.getDiagnostics();
+  }
+
+  /**
+   * 임베딩 모델/차원별 그룹 목록
+   */
+  async getEmbeddingModelGroups(): Promise<EmbeddingModelGroup[]> {
+    return this.embeddingsReader.getModelGroups();
+  }
+
+  /**
+   * 현재 임베딩 출처 설정 검증
+   */
+  async validateEmbeddingSource(): Promise<EmbeddingSourceValidation> {
+    return this.embeddingsReader.getSource().validate();
+  }
+
+  /**
+   * 내장 프로바이더로 새로 추가/수정된 노트 임베딩 생성
+   */
+  async generateEmbeddings(runOptions: GenerateEmbeddingsRunOptions = {}): Promise<GenerateEmbeddingsResult> {
+    const result = await this.createGenerateEmbeddingsUseCase().execute(runOptions);
+    this.onEmbeddingsGenerated();
+    return result;
+  }
+
+  /**
+   * 단일 노트 임베딩 생성
+   */
+  async generateEmbeddingForFile(file: TFile): Promise<GenerateEmbeddingsResult> {
+    const result = await this.createGenerateEmbeddingsUseCase().executeForFile(file);
+    this.onEmbeddingsGenerated();
+    return result;
+  }
+
+  /**
+   * 명령어용: 진행률 알림과 함께 임베딩 생성
+   */
+  private async runEmbeddingGeneration(): Promise<void> {
+    const notice = new Notice('Generating embeddings...', 0);
+    try {
+      const result = await this.generateEmbeddings({
+        onProgress: ({ completed, total }) => {
+          notice.setMessage(`Generating embeddings... ${completed} / ${total}`);
+        },
+      });
+      notice.setMessage(
+        `Embeddings: ${result.generated} generated, ${result.skipped} up to date` +
+        (result.failed > 0 ? `, ${result.failed} failed (${result.lastError})` : '')
+      );
+    } catch (error) {
+      console.error('[CDC] Embedding generation failed:', error);
+      notice.setMessage('Embedding generation failed');
+    } finally {
+      window.setTimeout(() => notice.hide(), 5000);
+    }
+  }
+
+  private createGenerateEmbeddingsUseCase(): GenerateEmbeddingsUseCase {
+    const { embeddingFolder, embeddingSource } = this.settings.advanced;
+    if (embeddingSource !== 'vault-embeddings') {
+      new Notice(`Generated embeddings are written to "${embeddingFolder}". Switch the Embeddings Source to Vault Embeddings to use them.`);
+    }
+
+    return new GenerateEmbeddingsUseCase(
+      this.app.vault,
+      createEmbeddingProvider(this.settings.embeddings, this.settings.ai.apiKeys),
+      new VaultEmbeddingsWriter(this.app.vault, embeddingFolder),
+      {
+        excludeFolders: [...this.settings.discovery.excludeFolders, embeddingFolder],
+        maxChunkChars: this.settings.embeddings.maxChunkChars,
+      }
+    );
+  }
+
+  /**
+   * 생성 후 리더가 인덱스를 다시 확인하도록 알림
+   */
+  private onEmbeddingsGenerated(): void {
+    this.embeddingsReader.handleFileChange(
+      normalizePath(`${this.settings.advanced.embeddingFolder}/index.json`)
+    );
+    this.clusterService.invalidate();
+  }
+
+  /**
+   * 클러스터 설정 (라벨에서 일반적 용어와 도메인 태그 접두사 제외)
+   */
+  private getClusterOptions(): NoteClusterOptions {
+    return {
+      clusterCount: this.settings.advanced.clusterCount,
+      excludeLabelTerms: [
+        ...this.settings.scoring.genericTerms,
+        ...this.settings.advanced.domainTagPrefixes,
+      ],
+    };
+  }
+
+  /**
+   * 노트 제목과 태그 (클러스터 라벨 생성용)
+   */
+  private describeNote(noteId: string): { title: string; tags: string[] } | null {
+    const file = this.classificationService.getFileByNoteId(noteId);
+    if (!file) return null;
+    const tags = this.app.metadataCache.getFileCache(file)?.tags?.map((t) => t.tag.replace(/^#/, '')) ?? [];
+    return { title: file.basename, tags };
+  }
+
+  /**
+   * 전체 재군집화
+   * @returns 클러스터 목록
+   */
+  async reclusterNotes(): Promise<ClusterSummary[]> {
+    return this.clusterService.recluster();
+  }
+
+  /**
+   * 노트의 클러스터 도메인 (LLM이 붙인 이름이 있으면 그 이름)
+   */
+  private async getClusterDomain(noteId: string): Promise<string | null> {
+    const cluster = await this.clusterService.getNoteCluster(noteId);
+    if (!cluster) return null;
+    return this.domainLabelService.getClusterName(cluster.id, cluster.memberHash) ?? cluster.label;
+  }
+
+  /**
+   * LLM 도메인 라벨 설정
+   */
+  private getDomainLabelOptions(): DomainLabelOptions {
+    return {
+      cachePath: normalizePath(`${this.manifest.dir ?? ''}/domain-labels.json`),
+      maxNewLabels: this.settings.advanced.aiLabelMaxNotes,
+    };
+  }
+
+  /**
+   * LLM으로 도메인 제안 후 검토 모달 열기
+   * cluster 방식이면 클러스터 이름을, 그 외에는 도메인 태그가 없는 노트의 라벨을 제안
+   */
+  async suggestDomainLabels(): Promise<void> {
+    const notice = new Notice('Suggesting domains...', 0);
+    try {
+      let suggestions: DomainLabelSuggestion[];
+      let description: string;
+
+      if (this.settings.advanced.classificationMethod === 'cluster') {
+        const clusters = await Promise.all(
+          (await this.clusterService.getClusters()).map(async (cluster) => ({
+            ...cluster,
+            noteIds: await this.clusterService.getClusterMembers(cluster.id),
+          }))
+        );
+        const names = await this.domainLabelService.nameClusters(
+          clusters.map((cluster) => ({
+            id: cluster.id,
+            memberHash: cluster.memberHash,
+            label: cluster.label,
+            members: cluster.noteIds
+              .map((noteId) => this.describeNote(noteId))
+              .filter((member): member is { title: string; tags: string[] } => member !== null),
+          }))
+        );
+        suggestions = clusters.map((cluster) => ({
+          label: names.get(cluster.id) ?? cluster.label,
+          noteIds: cluster.noteIds,
+        }));
+        description = 'AI names for your embedding clusters. They are used as cluster domains right away; accept a name to also write it as a domain tag.';
+      } else {
+        const { includeFolders, excludeFolders } = this.settings.discovery;
+        const noteIds = this.classificationService.getUntaggedNoteIds().filter((noteId) => {
+          const path = (this.classificationService.getPathByNoteId(noteId) ?? '').toLowerCase();
+          const inFolder = (folder: string) => path.startsWith(folder.toLowerCase() + '/');
+          return (includeFolders.length === 0 || includeFolders.some(inFolder)) && !excludeFolders.some(inFolder);
+        });
+        suggestions = await this.domainLabelService.labelNotes(noteIds, {
+          knownDomains: this.classificationService.getTaggedDomains(),
+          onProgress: ({ completed, total }) => {
+            notice.setMessage(`Suggesting domains... ${completed} / ${total}`);
+          },
+        });
+        description = this.settings.advanced.classificationMethod === 'llm'
+          ? 'AI domains for notes without a domain tag. They are already used for classification; accept a domain to write it as a tag.'
+          : 'AI domains for notes without a domain tag. Accept a domain to write it as a tag.';
+      }
+
+      notice.hide();
+      new DomainLabelModal(this.app, this, this.toReviewGroups(suggestions), description).open();
+    } catch (error) {
+      console.error('[CDC] Domain suggestion failed:', error);
+      notice.setMessage(`Domain suggestion failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+      window.setTimeout(() => notice.hide(), 5000);
+    }
+  }
+
+  /**
+   * 수락한 도메인을 첫 번째 도메인 태그 접두사로 기록
+   * @returns 기록한 노트 수
+   */
+  async writeDomainLabel(noteIds: string[], label: string): Promise<number> {
+    const prefix = this.settings.advanced.domainTagPrefixes[0] ?? 'domain/';
+    return this.domainLabelService.writeDomainTags(noteIds, label, prefix);
+  }
+
+  private toReviewGroups(suggestions: DomainLabelSuggestion[]): DomainLabelReviewGroup[] {
+    return suggestions.map(({ label, noteIds }) => ({
+      label,
+      notes: noteIds.flatMap((noteId) => {
+        const file = this.classificationService.getFileByNoteId(noteId);
+        return file ? [{ noteId, title: file.basename, path: file.path }] : [];
+      }),
+    }));
+  }
+
+  /**
+   * 다중 도메인 설정 (꺼져 있으면 null = 주 도메인만 비교)
+   */
+  private getMultiDomainOptions(): MultiDomainOptions | null {
+    const { multiDomain, secondaryDomainWeight, sharedDomainPolicy } = this.settings.advanced;
+    return multiDomain ? { secondaryWeight: secondaryDomainWeight, sharedDomainPolicy } : null;
+  }
+
+  /**
+   * 도메인 계층 설정
+   */
+  private getTaxonomySettings(): DomainTaxonomySettings {
+    return {
+      outline: this.settings.advanced.domainTaxonomy,
+      notePath: this.settings.advanced.taxonomyNotePath,
+    };
+  }
+
+  /**
+   * 현재 도메인 계층 (설정 화면 표시용)
+   */
+  getDomainTaxonomy(): DomainTaxonomy | null {
+    return this.taxonomyService.getTaxonomy();
+  }
+
+  /**
+   * 임베딩 출처 설정 식별 키 (변경 감지용)
+   */
+  private getEmbeddingSourceKey(): string {
+    const { embeddingSource, embeddingFolder, smartEnvFolder, embeddingExportPath } =
+      this.settings.advanced;
+    return [embeddingSource, embeddingFolder, smartEnvFolder, embeddingExportPath].join('|');
+  }
+
+  /**
+   * 벡터 인덱스 강제 재빌드
+   * @returns 인덱싱된 노트 수
+   */
+  async rebuildVectorIndex(): Promise<number> {
+    this.embeddingsReader.clearAllCache();
+    const embeddings = await this.embeddingsReader.getAllEmbeddings();
+    await this.vectorIndex.rebuild(embeddings);
+    return this.vectorIndex.size;
+  }
+
   /**
    * LinkCreationService 인스턴스 반환
    */
@@ -307,13 +871,41 @@ export default class CrossDomainConnectorPlugin extends Plugin {
     };
   }
 
+  /**
+   * 링크로 연결된 노트 경로 조회 (나가는 링크 + 백링크, resolvedLinks 기준)
+   * 백링크 역방향 맵은 조회 함수를 만들 때 한 번만 구성
+   */
+  private createLinkedPathsLookup(): LinkedPathsLookup {
+    const resolvedLinks = this.app.metadataCache.resolvedLinks;
+    const backlinks = new Map<string, string[]>();
+    for (const [sourcePath, targets] of Object.entries(resolvedLinks)) {
+      for (const targetPath of Object.keys(targets)) {
+        const sources = backlinks.get(targetPath);
+        if (sources) {
+          sources.push(sourcePath);
+        } else {
+          backlinks.set(targetPath, [sourcePath]);
+        }
+      }
+    }
+
+    return (path: string): string[] => {
+      const linked = new Set([
+        ...Object.keys(resolvedLinks[path] ?? {}),
+        ...(backlinks.get(path) ?? []),
+      ]);
+      linked.delete(path);
+      return Array.from(linked);
+    };
+  }
+
   // Serendipity 캐시 관련 메서드 (파일 기반 영구 저장)
   async getSerendipityCache(): Promise<SerendipityCache | null> {
     const data = await this.loadData() as { serendipityCache?: Record<string, unknown> } | null;
     if (!data?.serendipityCache) return null;
 
     // JSON에서 로드한 plain object를 클래스 인스턴스로 hydrate
-    return hydrateSerendipityCache(data.serendipityCache);
+    return hydrateSerendipityCache(data.serendipityCache, this.settings.scoring.profile);
   }
 
   async setSerendipityCache(cache: SerendipityCache): Promise<void> {
@@ -328,6 +920,34 @@ export default class CrossDomainConnectorPlugin extends Plugin {
     await this.saveData(data);
   }
 
+  /**
+   * 현재 설정의 DiscoverConnectionsUseCase 반환 (설정 저장 시 교체됨)
+   */
+  getDiscoverUseCase(): DiscoverConnectionsUseCase {
+    return this.discoverUseCase;
+  }
+
+  /**
+   * 현재 설정의 DomainOverviewUseCase 반환 (설정 저장 시 교체됨)
+   */
+  getDomainOverviewUseCase(): DomainOverviewUseCase {
+    return this.domainOverviewUseCase;
+  }
+
+  /**
+   * 현재 설정의 DetectBridgeNotesUseCase 반환 (설정 저장 시 교체됨)
+   */
+  getDetectBridgeNotesUseCase(): DetectBridgeNotesUseCase {
+    return this.detectBridgeNotesUseCase;
+  }
+
+  /**
+   * GenerateAnalogyUseCase 인스턴스 반환 (AI 서비스 필요)
+   */
+  getAnalogyUseCase(): GenerateAnalogyUseCase | null {
+    return this.analogyUseCase;
+  }
+
   // Deep Serendipity (LLM-First) 관련 메서드
   /**
    * DeepSerendipityUseCase 인스턴스 반환 (AI 서비스 필요)
@@ -371,4 +991,19 @@ export default class CrossDomainConnectorPlugin extends Plugin {
       workspace.revealLeaf(leaf);
     }
   }
+
+  /**
+   * 도메인 현황 뷰 열기 (메인 영역 탭)
+   */
+  private async activateDomainOverview(): Promise<void> {
+    const { workspace } = this.app;
+
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_DOMAIN_OVERVIEW)[0];
+    if (!leaf) {
+      leaf = workspace.getLeaf('tab');
+      await leaf.setViewState({ type: VIEW_TYPE_DOMAIN_OVERVIEW, active: true });
+    }
+
+    workspace.revealLeaf(leaf);
+  }
 }
@@ -4,7 +4,18 @@
  */
 
 import type { AIProvider } from './core/application/services/ai-service';
-import type { ClassificationMethod } from './core/domain/interfaces/domain-classifier';
+import type { ClassificationMethod, DomainSource } from './core/domain/interfaces/domain-classifier';
+import type { VaultWideMode, SharedDomainPolicy } from './core/domain/interfaces/connection-analyzer';
+import type { EmbeddingSourceType } from './core/adapters/embeddings/embedding-source';
+import type { EmbeddingProviderType } from './core/adapters/embeddings/embedding-provider';
+import {
+  DEFAULT_SCORING_PROFILE,
+  validateScoringProfile,
+  type ScoringPresetId,
+  type ScoringProfile,
+} from './core/domain/value-objects/serendipity-score';
+import { DEFAULT_GENERIC_TERMS } from './core/domain/utils/generic-terms';
+import type { DomainDistanceStrategy } from './core/domain/value-objects/domain-distance';
 import { isDeprecatedModel, getProviderConfig } from 'obsidian-llm-shared';
 
 // =============================================================================
@@ -18,6 +29,12 @@ export interface CDCSettings {
   // 발견 설정
   discovery: DiscoverySettings;
 
+  // 점수 계산 설정
+  scoring: ScoringSettings;
+
+  // 임베딩 생성 설정
+  embeddings: EmbeddingGenerationSettings;
+
   // 고급 설정
   advanced: AdvancedSettings;
 }
@@ -37,12 +54,52 @@ export interface DiscoverySettings {
   // Deep Serendipity (LLM-First) 설정
   deepMaxPairs: number;         // LLM에 보낼 최대 쌍 수 (기본 30)
   deepMinQuality: number;       // 최소 품질 점수 (기본 0.5)
+  useVectorIndex: boolean;      // 근사 최근접 이웃 인덱스 사용 (기본 true)
+  vaultWideMode: VaultWideMode; // Serendipity 모드 탐색 방식 (기본 sampled)
+  excludeStaleNotes: boolean;   // 노트보다 오래된 임베딩 제외 (기본 false)
+  passageLevel: boolean;        // 청크 임베딩이 있으면 결과마다 가장 유사한 구절 표시 (기본 true)
+  diversityWeight: number;      // 결과 다양성 가중치 (기본 0.3, 0이면 점수순)
+  domainDistanceStrategy: DomainDistanceStrategy;  // 계층 밖 도메인 거리 방식 (기본 tags)
+}
+
+export interface ScoringSettings {
+  preset: ScoringPresetId | 'custom';  // 프리셋 (값을 직접 바꾸면 custom)
+  profile: ScoringProfile;
+  genericTerms: string[];       // 특이성 감점 대상 용어 (기본 영어 + 한국어)
+  learnGenericTerms: boolean;   // 자주 쓰인 태그를 일반적 용어로 학습 (기본 false)
+  learnedTermMinShare: number;  // 학습 기준 노트 비율 (기본 0.2)
+}
+
+export interface EmbeddingGenerationSettings {
+  provider: EmbeddingProviderType;
+  model: string;                // 빈 문자열이면 프로바이더 기본 모델
+  localEndpoint: string;        // OpenAI 호환 로컬 서버 base URL
+  localApiKey: string;          // 로컬 서버 인증 키 (선택)
+  maxChunkChars: number;        // 청크 최대 길이 (기본 6000자)
 }
 
 export interface AdvancedSettings {
   classificationMethod: ClassificationMethod;
   domainTagPrefixes: string[];  // 도메인 태그 접두사
+  domainProperties: string[];   // frontmatter 방식의 도메인 속성 (목록 값의 두 번째 이후는 부 도메인)
+  domainSourceOrder: DomainSource[];  // frontmatter 방식의 출처 우선순위
+  domainOverrideProperty: string;     // 노트 도메인을 고정하는 속성 (모든 방식에 적용)
+  multiDomain: boolean;         // 부 도메인까지 포함한 도메인 집합으로 비교
+  secondaryDomainWeight: number;      // 부 도메인 가중치 (주 도메인은 1)
+  sharedDomainPolicy: SharedDomainPolicy;  // 도메인을 공유하는 쌍의 처리
   debugMode: boolean;
+  // 임베딩 출처
+  embeddingSource: EmbeddingSourceType;
+  embeddingFolder: string;      // Vault Embeddings 폴더 (기본 09_Embedded)
+  smartEnvFolder: string;       // Smart Connections 데이터 폴더 (기본 .smart-env)
+  embeddingExportPath: string;  // JSONL/NPY 내보내기 파일 경로
+  embeddingModel: string;       // 발견에 사용할 임베딩 모델 (빈 문자열이면 최다 모델)
+  useBinaryCache: boolean;      // 임베딩을 플러그인 폴더의 바이너리 캐시로 패킹 (기본 true)
+  // 도메인 계층
+  domainTaxonomy: string;       // 들여쓰기 목록 형식의 도메인 트리
+  taxonomyNotePath: string;     // 도메인 트리를 읽을 노트 (설정하면 위 개요 대신 사용)
+  clusterCount: number;         // cluster 분류 방식의 클러스터 수 (0이면 자동)
+  aiLabelMaxNotes: number;      // AI 도메인 제안 1회당 새로 질의할 최대 노트 수
 }
 
 // =============================================================================
@@ -64,12 +121,50 @@ export const DEFAULT_SETTINGS: CDCSettings = {
     includeFolders: ['04_Zettelkasten'],  // 기본: Zettelkasten 폴더만 검색
     deepMaxPairs: 30,     // Deep 모드: LLM에 보낼 최대 쌍 수
     deepMinQuality: 0.5,  // Deep 모드: 최소 품질 점수
+    useVectorIndex: true,
+    vaultWideMode: 'sampled',
+    excludeStaleNotes: false,
+    passageLevel: true,
+    diversityWeight: 0.3,
+    domainDistanceStrategy: 'tags',
+  },
+
+  scoring: {
+    preset: 'balanced',
+    profile: { ...DEFAULT_SCORING_PROFILE },
+    genericTerms: [...DEFAULT_GENERIC_TERMS.en, ...DEFAULT_GENERIC_TERMS.ko],
+    learnGenericTerms: false,
+    learnedTermMinShare: 0.2,
+  },
+
+  embeddings: {
+    provider: 'openai',
+    model: '',
+    localEndpoint: 'http://localhost:11434/v1',
+    localApiKey: '',
+    maxChunkChars: 6000,
   },
 
   advanced: {
     classificationMethod: 'tag',
     domainTagPrefixes: ['domain/', 'topic/'],
+    domainProperties: ['domain', 'field', 'area'],
+    domainSourceOrder: ['frontmatter', 'tag', 'folder'],
+    domainOverrideProperty: 'cdc-domain',
+    multiDomain: false,
+    secondaryDomainWeight: 0.5,
+    sharedDomainPolicy: 'penalize',
     debugMode: false,
+    embeddingSource: 'vault-embeddings',
+    embeddingFolder: '09_Embedded',
+    smartEnvFolder: '.smart-env',
+    embeddingExportPath: '',
+    embeddingModel: '',
+    useBinaryCache: true,
+    domainTaxonomy: '',
+    taxonomyNotePath: '',
+    clusterCount: 0,
+    aiLabelMaxNotes: 100,
   },
 };
 
@@ -113,7 +208,7 @@ export const PROVIDER_MODELS: Record<AIProvider, ModelOption[]> = {
 // =============================================================================
 
 import type { CrossDomainConnection } from './core/domain/entities/cross-domain-connection';
-import { SerendipityScore } from './core/domain/value-objects/serendipity-score';
+import { SerendipityScore, type ScoreBreakdown, type SerendipityScoreParams } from './core/domain/value-objects/serendipity-score';
 import { DomainDistance } from './core/domain/value-objects/domain-distance';
 
 export interface SerendipityCache {
@@ -151,19 +246,29 @@ export interface DeepSerendipityCacheItem {
 /**
  * JSON에서 로드한 plain object를 CrossDomainConnection으로 hydrate
  * 클래스 인스턴스(SerendipityScore, DomainDistance, Date)를 복원
+ * 점수 입력값이 저장되어 있으면 현재 점수 프로필로 다시 계산 (구성 요소도 함께 갱신)
+ * 프로필이 없으면 저장된 값과 구성 요소를 그대로 복원
  */
-export function hydrateConnection(plain: Record<string, unknown>): CrossDomainConnection {
-  const serendipityValue = (plain.serendipityScore as { value: number })?.value ?? 0;
+export function hydrateConnection(
+  plain: Record<string, unknown>,
+  profile?: ScoringProfile
+): CrossDomainConnection {
+  const storedScore = plain.serendipityScore as
+    | { value: number; params?: SerendipityScoreParams; breakdown?: ScoreBreakdown }
+    | undefined;
   const domainDistanceValue = (plain.domainDistance as { value: number })?.value ?? 0;
 
   return {
     sourceNote: plain.sourceNote as CrossDomainConnection['sourceNote'],
     targetNote: plain.targetNote as CrossDomainConnection['targetNote'],
-    serendipityScore: SerendipityScore.fromValue(serendipityValue),
+    serendipityScore: storedScore?.params && profile
+      ? SerendipityScore.calculate(storedScore.params, profile)
+      : SerendipityScore.restore(storedScore?.value ?? 0, storedScore?.params, storedScore?.breakdown),
     domainDistance: DomainDistance.fromValue(domainDistanceValue),
     similarity: plain.similarity as number,
     connectionType: plain.connectionType as CrossDomainConnection['connectionType'],
     analogy: plain.analogy as string | undefined,
+    passage: plain.passage as CrossDomainConnection['passage'],
     discoveredAt: new Date(plain.discoveredAt as string),
   };
 }
@@ -171,10 +276,18 @@ export function hydrateConnection(plain: Record<string, unknown>): CrossDomainCo
 /**
  * SerendipityCache를 hydrate
  */
-export function hydrateSerendipityCache(plain: Record<string, unknown>): SerendipityCache {
-  const connections = (plain.connections as Record<string, unknown>[]) || [];
+export function hydrateSerendipityCache(
+  plain: Record<string, unknown>,
+  profile?: ScoringProfile
+): SerendipityCache {
+  const connections = ((plain.connections as Record<string, unknown>[]) || [])
+    .map((connection) => hydrateConnection(connection, profile));
+  // 현재 프로필로 재계산했으면 점수 순서도 다시 맞춤
+  if (profile) {
+    connections.sort((a, b) => b.serendipityScore.value - a.serendipityScore.value);
+  }
   return {
-    connections: connections.map(hydrateConnection),
+    connections,
     timestamp: plain.timestamp as number,
   };
 }
@@ -202,6 +315,101 @@ export function validateSettings(settings: CDCSettings): string[] {
     errors.push('Maximum results must be between 1 and 100.');
   }
 
+  if (settings.discovery.diversityWeight < 0 || settings.discovery.diversityWeight > 1) {
+    errors.push('Diversity weight must be between 0 and 1.');
+  }
+
+  // 점수 프로필 검증
+  errors.push(...validateScoringProfile(settings.scoring.profile));
+  errors.push(...validateGenericTermSettings(settings.scoring));
+
+  // 임베딩 생성 검증
+  if (settings.embeddings.maxChunkChars < 500 || settings.embeddings.maxChunkChars > 30000) {
+    errors.push('Embedding chunk size must be between 500 and 30000 characters.');
+  }
+
+  errors.push(...validateLocalEndpoint(settings.embeddings));
+
+  // 임베딩 출처 검증
+  errors.push(...validateEmbeddingSource(settings.advanced));
+
+  errors.push(...validateDomainProperties(settings.advanced));
+  errors.push(...validateDomainOverrideProperty(settings.advanced));
+
+  if (settings.advanced.secondaryDomainWeight < 0.1 || settings.advanced.secondaryDomainWeight > 1) {
+    errors.push('Secondary domain weight must be between 0.1 and 1.');
+  }
+
+  const clusterCount = settings.advanced.clusterCount;
+  if (clusterCount !== 0 && (!Number.isInteger(clusterCount) || clusterCount < 2 || clusterCount > 100)) {
+    errors.push('Cluster count must be 0 (auto) or between 2 and 100.');
+  }
+
+  if (settings.advanced.aiLabelMaxNotes < 1 || settings.advanced.aiLabelMaxNotes > 1000) {
+    errors.push('AI domain suggestions per run must be between 1 and 1000.');
+  }
+
+  return errors;
+}
+
+/**
+ * 일반적 용어 학습 설정 검증
+ */
+export function validateGenericTermSettings(scoring: ScoringSettings): string[] {
+  if (scoring.learnedTermMinShare < 0.05 || scoring.learnedTermMinShare > 1) {
+    return ['Learned generic term threshold must be between 0.05 and 1.'];
+  }
+  return [];
+}
+
+/**
+ * 로컬 임베딩 엔드포인트 검증
+ */
+export function validateLocalEndpoint(embeddings: EmbeddingGenerationSettings): string[] {
+  if (embeddings.provider === 'local' && !/^https?:\/\//.test(embeddings.localEndpoint)) {
+    return ['Local embedding endpoint must be an http(s) URL.'];
+  }
+  return [];
+}
+
+/**
+ * frontmatter 도메인 속성 검증
+ */
+export function validateDomainProperties(advanced: AdvancedSettings): string[] {
+  if (advanced.classificationMethod === 'frontmatter' && advanced.domainProperties.length === 0) {
+    return ['Frontmatter classification needs at least one domain property.'];
+  }
+  return [];
+}
+
+/**
+ * 도메인 지정 속성 검증
+ */
+export function validateDomainOverrideProperty(advanced: AdvancedSettings): string[] {
+  if (/\s/.test(advanced.domainOverrideProperty.trim())) {
+    return ['Domain override property must not contain spaces.'];
+  }
+  return [];
+}
+
+/**
+ * 임베딩 출처 경로 검증 (선택한 출처의 경로만)
+ */
+export function validateEmbeddingSource(advanced: AdvancedSettings): string[] {
+  const errors: string[] = [];
+
+  if (advanced.embeddingSource === 'vault-embeddings' && !advanced.embeddingFolder.trim()) {
+    errors.push('Embeddings folder must not be empty.');
+  }
+
+  if (advanced.embeddingSource === 'smart-connections' && !advanced.smartEnvFolder.trim()) {
+    errors.push('Smart Connections folder must not be empty.');
+  }
+
+  if (advanced.embeddingSource === 'export-file' && !/\.(jsonl|ndjson|npy)$/i.test(advanced.embeddingExportPath)) {
+    errors.push('Embedding export file must be a .jsonl, .ndjson or .npy path.');
+  }
+
   return errors;
 }
 
@@ -222,6 +430,12 @@ export function migrateSettings(oldSettings: Partial<CDCSettings>): CDCSettings
       apiKeys: { ...DEFAULT_SETTINGS.ai.apiKeys, ...(oldSettings.ai?.apiKeys || {}) },
     },
     discovery: { ...DEFAULT_SETTINGS.discovery, ...oldSettings.discovery },
+    scoring: {
+      ...DEFAULT_SETTINGS.scoring,
+      ...oldSettings.scoring,
+      profile: { ...DEFAULT_SETTINGS.scoring.profile, ...(oldSettings.scoring?.profile || {}) },
+    },
+    embeddings: { ...DEFAULT_SETTINGS.embeddings, ...oldSettings.embeddings },
     advanced: { ...DEFAULT_SETTINGS.advanced, ...oldSettings.advanced },
   };
 
@@ -0,0 +1,40 @@
+/**
+ * Domain Path
+ * 두 노트의 도메인 경로를 브레드크럼으로 표시 (공통 상위 경로 강조)
+ */
+
+import type { DomainTaxonomy } from '../../core/domain/value-objects/domain-taxonomy';
+import { getDomainBreadcrumb, sharedPathDepth } from '../../core/domain/utils/domain-path';
+
+export function renderDomainPath(
+  container: HTMLElement,
+  sourceDomain: string,
+  targetDomain: string,
+  taxonomy: DomainTaxonomy | null
+): HTMLElement {
+  const source = getDomainBreadcrumb(sourceDomain, taxonomy);
+  const target = getDomainBreadcrumb(targetDomain, taxonomy);
+  const shared = sharedPathDepth(source, target);
+
+  const el = container.createEl('p', { cls: 'cdc-domain-path' });
+  renderBreadcrumb(el, source, shared);
+  el.createSpan({ text: ' → ', cls: 'cdc-domain-arrow' });
+  renderBreadcrumb(el, target, shared);
+
+  if (shared > 0) {
+    el.title = `Shared: ${source.slice(0, shared).join(' › ')}`;
+  }
+  return el;
+}
+
+function renderBreadcrumb(container: HTMLElement, path: string[], shared: number): void {
+  path.forEach((segment, i) => {
+    if (i > 0) {
+      container.createSpan({ text: ' › ', cls: 'cdc-domain-separator' });
+    }
+    container.createSpan({
+      text: segment,
+      cls: i < shared ? 'cdc-domain-segment cdc-domain-shared' : 'cdc-domain-segment',
+    });
+  });
+}
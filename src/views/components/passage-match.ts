@@ -0,0 +1,47 @@
+/**
+ * Passage Match
+ * 연결 카드에 가장 유사한 구절 쌍(헤딩/블록 참조)을 표시하고 클릭 시 해당 위치로 이동
+ */
+
+import type {
+  CrossDomainConnection,
+  PassageAnchor,
+} from '../../core/domain/entities/cross-domain-connection';
+import { getPassageSubpath } from '../../core/domain/entities/cross-domain-connection';
+
+export function renderPassageMatch(
+  container: HTMLElement,
+  conn: CrossDomainConnection,
+  openLink: (linktext: string) => void
+): HTMLElement | null {
+  const passage = conn.passage;
+  if (!passage) return null;
+
+  const row = container.createDiv({ cls: 'cdc-passage' });
+  row.title = `Passage similarity: ${(passage.similarity * 100).toFixed(1)}%`;
+
+  addAnchorLink(row, conn.sourceNote.path, passage.source, openLink);
+  row.createEl('span', { text: '↔', cls: 'cdc-passage-arrow' });
+  addAnchorLink(row, conn.targetNote.path, passage.target, openLink);
+
+  return row;
+}
+
+function addAnchorLink(
+  container: HTMLElement,
+  path: string,
+  anchor: PassageAnchor,
+  openLink: (linktext: string) => void
+): void {
+  const label = anchor.blockId
+    ? `^${anchor.blockId}`
+    : anchor.heading
+      ? `§ ${anchor.heading}`
+      : 'Whole note';
+
+  const link = container.createEl('a', { text: label, cls: 'cdc-passage-link' });
+  link.onclick = (event) => {
+    event.preventDefault();
+    openLink(`${path}${getPassageSubpath(anchor)}`);
+  };
+}
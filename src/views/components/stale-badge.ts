@@ -0,0 +1,22 @@
+/**
+ * Stale Badge
+ * 임베딩이 노트보다 오래된 연결에 표시하는 배지
+ */
+
+import type { CrossDomainConnection } from '../../core/domain/entities/cross-domain-connection';
+
+export function renderStaleBadge(
+  container: HTMLElement,
+  conn: CrossDomainConnection
+): HTMLElement {
+  const staleTitles: string[] = [];
+  if (conn.sourceNote.embeddingStale) staleTitles.push(conn.sourceNote.title);
+  if (conn.targetNote.embeddingStale) staleTitles.push(conn.targetNote.title);
+
+  const badge = container.createEl('span', {
+    text: 'stale',
+    cls: 'cdc-stale-badge',
+  });
+  badge.title = `Edited after its embedding was generated: ${staleTitles.join(', ')}`;
+  return badge;
+}
@@ -100,6 +100,8 @@ export class ConnectionModal extends Modal {
       cls: 'cdc-metric-value',
     });
 
+    this.renderScoreBreakdown(contentEl);
+
     // Analogy section
     const analogySection = contentEl.createDiv({ cls: 'cdc-analogy-section' });
     analogySection.createEl('h3', { text: 'Analogy' });
@@ -160,6 +162,43 @@ export class ConnectionModal extends Modal {
     };
   }
 
+  /**
+   * 점수 구성 요소 표 (구성 요소가 없는 오래된 캐시 결과는 생략)
+   */
+  private renderScoreBreakdown(container: HTMLElement): void {
+    const breakdown = this.connection.serendipityScore.breakdown;
+    if (!breakdown) return;
+
+    const section = container.createDiv({ cls: 'cdc-breakdown-section' });
+    section.createEl('h3', { text: 'Score Breakdown' });
+
+    const table = section.createEl('table', { cls: 'cdc-breakdown-table' });
+    const addRow = (label: string, value: string, note = '') => {
+      const row = table.createEl('tr');
+      row.createEl('td', { text: label, cls: 'cdc-breakdown-label' });
+      row.createEl('td', { text: value, cls: 'cdc-breakdown-value' });
+      row.createEl('td', { text: note, cls: 'cdc-breakdown-note' });
+    };
+    const percent = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+    addRow('Similarity term', `+${percent(breakdown.similarityTerm)}`,
+      `similarity ${percent(this.connection.similarity)}`);
+    addRow('Domain distance term', `+${percent(breakdown.distanceTerm)}`,
+      `distance ${this.connection.domainDistance.toString()}`);
+    addRow('Base score', percent(breakdown.baseScore));
+    addRow('Novelty penalty', `×${breakdown.noveltyPenalty.toFixed(2)}`,
+      breakdown.noveltyPenalty < 1 ? 'already linked' : 'not linked');
+
+    const terms = Array.from(new Set(breakdown.matchedGenericTerms));
+    addRow('Specificity penalty', `×${breakdown.specificityPenalty.toFixed(2)}`,
+      terms.length > 0 ? `generic: ${terms.join(', ')}` : 'no generic terms');
+
+    const total = table.createEl('tr', { cls: 'cdc-breakdown-total' });
+    total.createEl('td', { text: 'Serendipity', cls: 'cdc-breakdown-label' });
+    total.createEl('td', { text: this.connection.serendipityScore.toString(), cls: 'cdc-breakdown-value' });
+    total.createEl('td');
+  }
+
   onClose(): void {
     this.contentEl.empty();
   }
@@ -0,0 +1,250 @@
+/**
+ * ConnectionPathModal
+ * 먼 두 노트를 잇는 다단계 연결 경로를 단계별로 보여주는 모달
+ * - 단계마다 유사도/창발성 점수, 이미 링크된 단계 표시
+ * - AI 서비스가 있으면 단계별 유추 생성 (하나씩 또는 한꺼번에)
+ */
+
+import { App, FuzzySuggestModal, Modal, Notice, TFile } from 'obsidian';
+import type { ConnectionPath, ConnectionPathHop } from '../core/domain/entities/connection-path';
+import { getDomainBreadcrumb } from '../core/domain/utils/domain-path';
+import { generateNoteId } from '../core/domain/utils/note-id';
+import type CrossDomainConnectorPlugin from '../main';
+
+/**
+ * 경로 도착 노트 선택 모달
+ */
+export class PathTargetSuggestModal extends FuzzySuggestModal<TFile> {
+  constructor(
+    app: App,
+    private source: TFile,
+    private onChoose: (target: TFile) => void
+  ) {
+    super(app);
+    this.setPlaceholder(`Find a path from "${source.basename}" to...`);
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getMarkdownFiles().filter((file) => file.path !== this.source.path);
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
+
+export class ConnectionPathModal extends Modal {
+  private searchAbortController: AbortController | null = null;
+
+  constructor(
+    app: App,
+    private plugin: CrossDomainConnectorPlugin,
+    private source: TFile,
+    private target: TFile
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('cdc-serendipity-modal');
+
+    contentEl.createEl('h2', { text: 'Connection Path' });
+    contentEl.createEl('p', {
+      text: `${this.source.basename} → ${this.target.basename}`,
+      cls: 'cdc-description',
+    });
+
+    void this.performSearch();
+  }
+
+  onClose(): void {
+    this.searchAbortController?.abort();
+    this.searchAbortController = null;
+    this.contentEl.empty();
+  }
+
+  /**
+   * 경로 탐색 수행
+   */
+  private async performSearch(): Promise<void> {
+    const { contentEl } = this;
+
+    const loadingEl = contentEl.createEl('p', {
+      text: 'Searching for a path...',
+      cls: 'cdc-loading',
+    });
+
+    this.searchAbortController = new AbortController();
+    const controller = this.searchAbortController;
+    const progressEl = contentEl.createDiv({ cls: 'cdc-progress' });
+    progressEl.hide();
+    const progressText = progressEl.createSpan();
+    const cancelBtn = progressEl.createEl('button', {
+      text: 'Cancel',
+      cls: 'cdc-btn cdc-btn-small',
+    });
+    cancelBtn.onclick = () => {
+      controller.abort();
+      cancelBtn.disabled = true;
+      progressText.setText('Cancelling...');
+    };
+
+    try {
+      const path = await this.plugin.getDiscoverUseCase().findConnectionPath(
+        generateNoteId(this.source.path),
+        generateNoteId(this.target.path),
+        {
+          signal: controller.signal,
+          onProgress: ({ completed }) => {
+            progressEl.show();
+            progressText.setText(`Explored ${completed} notes `);
+          },
+        }
+      );
+      loadingEl.remove();
+      progressEl.remove();
+      this.searchAbortController = null;
+
+      if (controller.signal.aborted) {
+        contentEl.createEl('p', { text: 'Search cancelled.', cls: 'cdc-no-results' });
+        return;
+      }
+
+      if (!path) {
+        contentEl.createEl('p', {
+          text: 'No path found. Make sure both notes have embeddings and are not in excluded folders.',
+          cls: 'cdc-no-results',
+        });
+        return;
+      }
+
+      this.renderPath(path);
+    } catch (error) {
+      console.error('[CDC] Connection path search error:', error);
+      loadingEl.remove();
+      progressEl.remove();
+      this.searchAbortController = null;
+      contentEl.createEl('p', {
+        text: 'Failed to search for a path. Check console for details.',
+        cls: 'cdc-error',
+      });
+    }
+  }
+
+  /**
+   * 경로를 단계별 체인으로 렌더링
+   */
+  private renderPath(path: ConnectionPath): void {
+    const { contentEl } = this;
+    const analogyUseCase = this.plugin.getAnalogyUseCase();
+
+    const summary = contentEl.createDiv({ cls: 'cdc-path-summary' });
+    summary.createSpan({
+      text: `${path.hops.length} steps · average serendipity ${path.score.toFixed(2)}`,
+      cls: 'cdc-result-count',
+    });
+
+    const chain = contentEl.createDiv({ cls: 'cdc-path-chain' });
+    const analogyButtons: Array<() => Promise<void>> = [];
+
+    this.renderStep(chain, path.hops[0].connection.sourceNote);
+    for (const hop of path.hops) {
+      const generate = this.renderHop(chain, hop, !!analogyUseCase);
+      if (generate) analogyButtons.push(generate);
+      this.renderStep(chain, hop.connection.targetNote);
+    }
+
+    if (analogyUseCase && analogyButtons.length > 1) {
+      const allBtn = summary.createEl('button', {
+        text: 'Generate All Analogies',
+        cls: 'cdc-btn cdc-btn-small cdc-btn-secondary',
+      });
+      allBtn.onclick = async () => {
+        allBtn.disabled = true;
+        // 순차 처리 (API rate limit 고려)
+        for (const generate of analogyButtons) {
+          await generate();
+        }
+        allBtn.remove();
+      };
+    }
+  }
+
+  /**
+   * 경로의 노트 한 개
+   */
+  private renderStep(
+    container: HTMLElement,
+    note: { title: string; path: string; primaryDomain: string }
+  ): void {
+    const step = container.createDiv({ cls: 'cdc-path-step' });
+    const link = step.createEl('a', { text: note.title, cls: 'cdc-path-title' });
+    link.title = note.path;
+    link.onclick = (event) => {
+      event.preventDefault();
+      this.app.workspace.openLinkText(note.path, '', false);
+    };
+    step.createSpan({
+      text: getDomainBreadcrumb(note.primaryDomain, this.plugin.getDomainTaxonomy()).join(' › '),
+      cls: 'cdc-domain-badge',
+    });
+  }
+
+  /**
+   * 두 노트 사이 단계 (유사도/점수, 유추 버튼)
+   * @returns 유추 생성 함수 (이미 생성됐거나 AI가 없으면 null)
+   */
+  private renderHop(
+    container: HTMLElement,
+    hop: ConnectionPathHop,
+    canGenerate: boolean
+  ): (() => Promise<void>) | null {
+    const { connection } = hop;
+    const hopEl = container.createDiv({ cls: 'cdc-path-hop' });
+
+    const meta = hopEl.createDiv({ cls: 'cdc-path-hop-meta' });
+    meta.createSpan({ text: '↓ ' });
+    meta.createSpan({
+      text: `similarity ${(connection.similarity * 100).toFixed(0)}% · serendipity ${connection.serendipityScore.toString()}`,
+    });
+    if (hop.linked) {
+      meta.createSpan({ text: 'linked', cls: 'cdc-path-linked' });
+    }
+
+    if (connection.analogy) {
+      hopEl.createEl('p', { text: connection.analogy, cls: 'cdc-analogy' });
+      return null;
+    }
+    if (!canGenerate) return null;
+
+    const analogyBtn = hopEl.createEl('button', {
+      text: 'Analogy',
+      cls: 'cdc-btn cdc-btn-small cdc-btn-secondary',
+    });
+    const generate = async () => {
+      const analogyUseCase = this.plugin.getAnalogyUseCase();
+      if (!analogyUseCase || connection.analogy) return;
+
+      analogyBtn.disabled = true;
+      analogyBtn.textContent = '...';
+      try {
+        connection.analogy = await analogyUseCase.execute(connection);
+        hopEl.createEl('p', { text: connection.analogy, cls: 'cdc-analogy' });
+        analogyBtn.remove();
+      } catch (error) {
+        console.error('[CDC] Analogy generation failed:', error);
+        new Notice('Analogy generation failed');
+        analogyBtn.textContent = 'Fail';
+        analogyBtn.disabled = false;
+      }
+    };
+    analogyBtn.onclick = generate;
+    return generate;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * DomainLabelModal
+ * LLM이 제안한 도메인 라벨을 검토하고 도메인 태그로 기록하는 모달
+ * - 라벨은 수정 가능, 노트별로 체크 해제 가능
+ */
+
+import { Modal, App, Notice } from 'obsidian';
+import type CrossDomainConnectorPlugin from '../main';
+import { toTagSegment } from '../core/application/services/domain-label-service';
+
+/**
+ * 검토할 라벨 묶음
+ */
+export interface DomainLabelReviewGroup {
+  label: string;
+  notes: Array<{ noteId: string; title: string; path: string }>;
+}
+
+export class DomainLabelModal extends Modal {
+  constructor(
+    app: App,
+    private plugin: CrossDomainConnectorPlugin,
+    private groups: DomainLabelReviewGroup[],
+    private description: string
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('cdc-label-modal');
+
+    contentEl.createEl('h2', { text: 'Suggested Domains' });
+    contentEl.createEl('p', { text: this.description, cls: 'cdc-description' });
+
+    if (this.groups.length === 0) {
+      contentEl.createEl('p', { text: 'No domain suggestions.', cls: 'cdc-loading' });
+      return;
+    }
+
+    const prefix = this.plugin.settings.advanced.domainTagPrefixes[0] ?? 'domain/';
+    const list = contentEl.createDiv({ cls: 'cdc-label-list' });
+    for (const group of this.groups) {
+      this.renderGroup(list, group, prefix);
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * 라벨 묶음 렌더링
+   */
+  private renderGroup(container: HTMLElement, group: DomainLabelReviewGroup, prefix: string): void {
+    const groupEl = container.createDiv({ cls: 'cdc-label-group' });
+    const header = groupEl.createDiv({ cls: 'cdc-label-header' });
+
+    header.createSpan({ text: `#${prefix}`, cls: 'cdc-label-prefix' });
+    const labelInput = header.createEl('input', { type: 'text', cls: 'cdc-label-input' });
+    labelInput.value = group.label;
+    header.createSpan({ text: `${group.notes.length} notes`, cls: 'cdc-label-count' });
+
+    const acceptBtn = header.createEl('button', { text: 'Accept', cls: 'mod-cta' });
+
+    const selected = new Set(group.notes.map((note) => note.noteId));
+    const notesEl = groupEl.createEl('ul', { cls: 'cdc-label-notes' });
+    for (const note of group.notes) {
+      const item = notesEl.createEl('li');
+      const checkbox = item.createEl('input', { type: 'checkbox' });
+      checkbox.checked = true;
+      checkbox.onchange = () => {
+        if (checkbox.checked) selected.add(note.noteId);
+        else selected.delete(note.noteId);
+      };
+
+      const link = item.createEl('a', { text: note.title });
+      link.title = note.path;
+      link.onclick = (event) => {
+        event.preventDefault();
+        this.app.workspace.openLinkText(note.path, '', false);
+      };
+    }
+
+    acceptBtn.onclick = async () => {
+      const label = labelInput.value.trim();
+      if (!label || selected.size === 0) {
+        new Notice('Enter a domain and select at least one note');
+        return;
+      }
+
+      acceptBtn.disabled = true;
+      acceptBtn.setText('Writing...');
+      try {
+        const written = await this.plugin.writeDomainLabel(Array.from(selected), label);
+        new Notice(`Tagged ${written} notes with #${prefix}${toTagSegment(label)}`);
+        groupEl.addClass('cdc-label-accepted');
+        acceptBtn.setText('Accepted');
+      } catch (error) {
+        console.error('[CDC] Failed to write domain tags:', error);
+        new Notice('Failed to write domain tags');
+        acceptBtn.disabled = false;
+        acceptBtn.setText('Accept');
+      }
+    };
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * DomainOverviewView
+ * 분류된 주 도메인 현황 대시보드
+ * - 도메인별 노트 수, 중심이 가까운 도메인, 크로스 도메인 연결 수
+ * - 어떤 도메인과도 연결되지 않는 도메인
+ * - 먼 두 도메인을 이미 잇고 있는 브리지 노트
+ * - 도메인 쌍을 누르면 그 쌍으로 제한한 연결 탐색
+ */
+
+import { ItemView, WorkspaceLeaf, Notice } from 'obsidian';
+import type {
+  DomainConnectionSummary,
+  DomainOverviewEntry,
+} from '../core/application/use-cases/domain-overview';
+import type { BridgeNote } from '../core/domain/entities/bridge-note';
+import { getDomainBreadcrumb } from '../core/domain/utils/domain-path';
+import type CrossDomainConnectorPlugin from '../main';
+import { DomainPairModal } from './domain-pair-modal';
+
+export const VIEW_TYPE_DOMAIN_OVERVIEW = 'cdc-domain-overview';
+
+/**
+ * 도메인 행에 표시할 연결 상대 도메인 수
+ */
+const PARTNER_COUNT = 3;
+
+export class DomainOverviewView extends ItemView {
+  private entries: DomainOverviewEntry[] = [];
+  private summaries: Map<string, DomainConnectionSummary> | null = null;
+  private bridges: BridgeNote[] | null = null;
+  private countAbortController: AbortController | null = null;
+  private statusEl: HTMLElement | null = null;
+  private contentContainer: HTMLElement | null = null;
+  private countBtn: HTMLButtonElement | null = null;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: CrossDomainConnectorPlugin
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_DOMAIN_OVERVIEW;
+  }
+
+  getDisplayText(): string {
+    return 'Domain Overview';
+  }
+
+  getIcon(): string {
+    return 'layout-grid';
+  }
+
+  async onOpen(): Promise<void> {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('cdc-container');
+
+    const header = container.createDiv({ cls: 'cdc-header' });
+    header.createEl('h4', { text: 'Domain Overview' });
+
+    const buttonContainer = container.createDiv({ cls: 'cdc-button-container' });
+
+    const refreshBtn = buttonContainer.createEl('button', {
+      text: 'Refresh',
+      cls: 'cdc-btn cdc-btn-secondary',
+    });
+    refreshBtn.onclick = () => this.loadDomains();
+
+    this.countBtn = buttonContainer.createEl('button', {
+      text: 'Count Connections',
+      cls: 'cdc-btn cdc-btn-primary',
+    });
+    this.countBtn.onclick = () => this.countConnections();
+
+    const bridgeBtn = buttonContainer.createEl('button', {
+      text: 'Find Bridge Notes',
+      cls: 'cdc-btn cdc-btn-secondary',
+    });
+    bridgeBtn.onclick = () => this.findBridgeNotes(bridgeBtn);
+
+    this.statusEl = container.createDiv({ cls: 'cdc-status' });
+    this.contentContainer = container.createDiv({ cls: 'cdc-domain-overview' });
+
+    await this.loadDomains();
+  }
+
+  async onClose(): Promise<void> {
+    this.countAbortController?.abort();
+    this.countAbortController = null;
+    this.statusEl = null;
+    this.contentContainer = null;
+    this.countBtn = null;
+  }
+
+  /**
+   * 도메인 목록 로드 (연결 집계는 초기화)
+   */
+  private async loadDomains(): Promise<void> {
+    this.countAbortController?.abort();
+    this.summaries = null;
+    this.bridges = null;
+    this.statusEl?.setText('Classifying notes...');
+
+    try {
+      this.entries = await this.plugin.getDomainOverviewUseCase().getDomains();
+      this.statusEl?.setText(this.entries.length > 0
+        ? `${this.entries.length} domains. Click "Count Connections" to see how they connect.`
+        : 'No classified notes. Make sure you have embeddings generated.');
+      this.render();
+    } catch (error) {
+      console.error('[CDC] Failed to load domain overview:', error);
+      this.statusEl?.setText('Failed to load domains. Check console for details.');
+    }
+  }
+
+  /**
+   * 도메인별 크로스 도메인 연결 수 집계 (전체 쌍 탐색, 취소 가능)
+   */
+  private async countConnections(): Promise<void> {
+    if (this.countAbortController) {
+      this.countAbortController.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    this.countAbortController = controller;
+    this.countBtn?.setText('Cancel');
+    this.setPairChipsEnabled(false);
+    this.statusEl?.setText('Evaluating all pairs...');
+
+    try {
+      const summaries = await this.plugin.getDomainOverviewUseCase().countConnections({
+        signal: controller.signal,
+        onProgress: ({ completed, total }) => {
+          const percent = total > 0 ? Math.floor((completed / total) * 100) : 0;
+          this.statusEl?.setText(`Evaluating all pairs... ${percent}%`);
+        },
+      });
+
+      // 취소된 부분 집계로는 연결 없는 도메인을 판단할 수 없으므로 버림
+      if (controller.signal.aborted) {
+        this.statusEl?.setText('Counting cancelled');
+        return;
+      }
+
+      this.summaries = summaries;
+      const total = Array.from(summaries.values()).reduce((sum, summary) => sum + summary.total, 0) / 2;
+      this.statusEl?.setText(`${this.entries.length} domains, ${total} cross-domain connections`);
+      this.render();
+    } catch (error) {
+      console.error('[CDC] Failed to count domain connections:', error);
+      new Notice('Failed to count connections');
+      this.statusEl?.setText('Failed to count connections. Check console for details.');
+    } finally {
+      if (this.countAbortController === controller) {
+        this.countAbortController = null;
+      }
+      this.countBtn?.setText('Count Connections');
+      this.setPairChipsEnabled(!this.countAbortController);
+    }
+  }
+
+  /**
+   * 브리지 노트 탐색
+   */
+  private async findBridgeNotes(button: HTMLButtonElement): Promise<void> {
+    button.disabled = true;
+    this.statusEl?.setText('Finding bridge notes...');
+
+    try {
+      this.bridges = await this.plugin.getDetectBridgeNotesUseCase().execute();
+      this.statusEl?.setText(`Found ${this.bridges.length} bridge notes`);
+      this.render();
+    } catch (error) {
+      console.error('[CDC] Failed to find bridge notes:', error);
+      new Notice('Failed to find bridge notes');
+      this.statusEl?.setText('Failed to find bridge notes. Check console for details.');
+    } finally {
+      button.disabled = false;
+    }
+  }
+
+  private render(): void {
+    if (!this.contentContainer) return;
+    this.contentContainer.empty();
+    if (this.entries.length === 0) return;
+
+    this.renderDomainTable(this.contentContainer);
+
+    if (this.summaries) {
+      this.renderLonelyDomains(this.contentContainer, this.summaries);
+    }
+
+    if (this.bridges) {
+      this.renderBridgeNotes(this.contentContainer, this.bridges);
+    }
+  }
+
+  /**
+   * 도메인 표 렌더링
+   */
+  private renderDomainTable(container: HTMLElement): void {
+    const taxonomy = this.plugin.getDomainTaxonomy();
+    const table = container.createEl('table', { cls: 'cdc-domain-table' });
+    const headerRow = table.createEl('thead').createEl('tr');
+    for (const label of ['Domain', 'Notes', 'Connections', 'Nearest domains']) {
+      headerRow.createEl('th', { text: label });
+    }
+
+    const body = table.createEl('tbody');
+    for (const entry of this.entries) {
+      const row = body.createEl('tr');
+
+      const domainCell = row.createEl('td', { cls: 'cdc-domain-name' });
+      domainCell.setText(getDomainBreadcrumb(entry.domain, taxonomy).join(' › '));
+
+      row.createEl('td', { text: String(entry.noteCount), cls: 'cdc-domain-count' });
+
+      const connectionCell = row.createEl('td');
+      const summary = this.summaries?.get(entry.domain);
+      connectionCell.createSpan({
+        text: this.summaries ? String(summary?.total ?? 0) : '–',
+        cls: 'cdc-domain-count',
+      });
+      for (const partner of summary?.partners.slice(0, PARTNER_COUNT) ?? []) {
+        this.renderPairChip(connectionCell, entry.domain, partner.domain, `${partner.domain} (${partner.count})`);
+      }
+
+      const neighbourCell = row.createEl('td');
+      for (const neighbour of entry.neighbours) {
+        this.renderPairChip(neighbourCell, entry.domain, neighbour.domain, neighbour.domain);
+      }
+    }
+  }
+
+  /**
+   * 연결 없는 도메인 렌더링 (가까운 도메인과의 탐색 바로가기 포함)
+   */
+  private renderLonelyDomains(
+    container: HTMLElement,
+    summaries: Map<string, DomainConnectionSummary>
+  ): void {
+    const lonely = this.plugin.getDomainOverviewUseCase().findLonelyDomains(this.entries, summaries);
+
+    const section = container.createDiv({ cls: 'cdc-lonely-domains' });
+    section.createEl('h5', { text: `Lonely domains (${lonely.length})` });
+
+    if (lonely.length === 0) {
+      section.createEl('p', { text: 'Every domain connects to at least one other domain.', cls: 'cdc-description' });
+      return;
+    }
+
+    section.createEl('p', {
+      text: 'These domains have no cross-domain connections above your thresholds.',
+      cls: 'cdc-description',
+    });
+
+    const list = section.createEl('ul');
+    for (const entry of lonely) {
+      const item = list.createEl('li');
+      item.createSpan({ text: `${entry.domain} (${entry.noteCount} notes)` });
+      for (const neighbour of entry.neighbours) {
+        this.renderPairChip(item, entry.domain, neighbour.domain, neighbour.domain);
+      }
+    }
+  }
+
+  /**
+   * 브리지 노트 렌더링 (양쪽 도메인에서 가장 가까운 노트 포함)
+   */
+  private renderBridgeNotes(container: HTMLElement, bridges: BridgeNote[]): void {
+    const section = container.createDiv({ cls: 'cdc-bridge-notes' });
+    section.createEl('h5', { text: `Bridge notes (${bridges.length})` });
+
+    if (bridges.length === 0) {
+      section.createEl('p', {
+        text: 'No bridge notes found. At least two domains with two or more notes are needed.',
+        cls: 'cdc-description',
+      });
+      return;
+    }
+
+    section.createEl('p', {
+      text: 'Existing notes that sit between two distant domains and are close to notes in both.',
+      cls: 'cdc-description',
+    });
+
+    const taxonomy = this.plugin.getDomainTaxonomy();
+    const list = section.createDiv({ cls: 'cdc-bridge-list' });
+    for (const bridge of bridges) {
+      const item = list.createDiv({ cls: 'cdc-bridge-item' });
+
+      const header = item.createDiv({ cls: 'cdc-bridge-header' });
+      this.renderNoteLink(header, bridge.note.title, bridge.note.path).addClass('cdc-bridge-title');
+      header.createSpan({
+        text: `${(bridge.score * 100).toFixed(0)}%`,
+        cls: 'cdc-bridge-score',
+      });
+
+      const [left, right] = bridge.sides;
+      const domains = item.createDiv({ cls: 'cdc-domain-info' });
+      domains.createSpan({ text: getDomainBreadcrumb(left.domain, taxonomy).join(' › '), cls: 'cdc-domain-badge' });
+      domains.createSpan({ text: ' ⟷ ', cls: 'cdc-domain-arrow' });
+      domains.createSpan({ text: getDomainBreadcrumb(right.domain, taxonomy).join(' › '), cls: 'cdc-domain-badge' });
+      this.renderPairChip(domains, left.domain, right.domain, 'Discover');
+
+      const neighbours = item.createDiv({ cls: 'cdc-bridge-neighbours' });
+      for (const side of bridge.sides) {
+        if (!side.nearestNote) continue;
+        const neighbour = neighbours.createDiv();
+        neighbour.createSpan({ text: `Near in ${side.domain}: ` });
+        this.renderNoteLink(neighbour, side.nearestNote.title, side.nearestNote.path);
+        neighbour.createSpan({ text: ` (${(side.nearestNote.similarity * 100).toFixed(0)}%)` });
+      }
+    }
+  }
+
+  private renderNoteLink(container: HTMLElement, title: string, path: string): HTMLElement {
+    const link = container.createEl('a', { text: title });
+    link.title = path;
+    link.onclick = (event) => {
+      event.preventDefault();
+      this.app.workspace.openLinkText(path, '', false);
+    };
+    return link;
+  }
+
+  /**
+   * 누르면 두 도메인 사이 연결을 탐색하는 칩
+   */
+  private renderPairChip(container: HTMLElement, domain: string, partner: string, text: string): void {
+    const chip = container.createEl('button', { text, cls: 'cdc-domain-chip' });
+    chip.title = `Discover connections: ${domain} ↔ ${partner}`;
+    chip.disabled = !!this.countAbortController;
+    chip.onclick = () => {
+      if (this.countAbortController) return;
+      new DomainPairModal(this.app, this.plugin, domain, partner).open();
+    };
+  }
+
+  /**
+   * 연결 수 집계 중에는 도메인 쌍 탐색 칩 비활성화 (집계가 끝나거나 취소되면 다시 활성화)
+   */
+  private setPairChipsEnabled(enabled: boolean): void {
+    this.contentContainer?.querySelectorAll<HTMLButtonElement>('.cdc-domain-chip').forEach((chip) => {
+      chip.disabled = !enabled;
+    });
+  }
+}
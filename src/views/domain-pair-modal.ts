@@ -0,0 +1,420 @@
+/**
+ * DomainPairModal
+ * 소스/타겟 주 도메인을 골라 그 쌍으로 제한한 크로스 도메인 연결 탐색 모달
+ * - Standard: 두 도메인 노트의 전체 쌍을 임베딩 유사도로 평가
+ * - Deep: 두 도메인에서 샘플링한 쌍을 LLM이 평가
+ */
+
+import { Modal, App, Notice } from 'obsidian';
+import type { CrossDomainConnection } from '../core/domain/entities/cross-domain-connection';
+import { getConnectionTypeLabel, hasStaleEmbedding } from '../core/domain/entities/cross-domain-connection';
+import type { DeepSerendipityConnection } from '../core/application/use-cases/deep-serendipity';
+import { getDomainBreadcrumb } from '../core/domain/utils/domain-path';
+import type CrossDomainConnectorPlugin from '../main';
+import { renderStaleBadge } from './components/stale-badge';
+import { renderDomainPath } from './components/domain-path';
+
+type DomainPairMode = 'standard' | 'deep';
+
+export class DomainPairModal extends Modal {
+  private mode: DomainPairMode = 'standard';
+  private searchAbortController: AbortController | null = null;
+  private sourceSelect: HTMLSelectElement | null = null;
+  private targetSelect: HTMLSelectElement | null = null;
+  private modeToggleContainer: HTMLElement | null = null;
+  private resultsContainer: HTMLElement | null = null;
+  private discoverBtn: HTMLButtonElement | null = null;
+
+  /**
+   * @param sourceDomain 미리 선택할 소스 도메인 (둘 다 주어지면 바로 탐색)
+   * @param targetDomain 미리 선택할 타겟 도메인
+   */
+  constructor(
+    app: App,
+    private plugin: CrossDomainConnectorPlugin,
+    private sourceDomain: string | null = null,
+    private targetDomain: string | null = null
+  ) {
+    super(app);
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('cdc-serendipity-modal');
+
+    contentEl.createEl('h2', { text: 'Domain Pair Discovery' });
+    contentEl.createEl('p', {
+      text: 'Find the best bridges between notes in two domains.',
+      cls: 'cdc-description',
+    });
+
+    const pickerEl = contentEl.createDiv({ cls: 'cdc-domain-picker' });
+    const loadingEl = contentEl.createEl('p', { text: 'Loading domains...', cls: 'cdc-loading' });
+
+    let domains: Array<{ domain: string; noteCount: number }>;
+    try {
+      domains = await this.plugin.getDomainOverviewUseCase().getDomains();
+    } catch (error) {
+      console.error('[CDC] Failed to load domains:', error);
+      loadingEl.setText('Failed to load domains. Check console for details.');
+      return;
+    }
+    loadingEl.remove();
+
+    if (domains.length < 2) {
+      contentEl.createEl('p', {
+        text: 'At least two domains are needed. Make sure you have embeddings generated.',
+        cls: 'cdc-no-results',
+      });
+      return;
+    }
+
+    this.sourceSelect = this.renderDomainSelect(pickerEl, domains, this.sourceDomain ?? domains[0].domain);
+    const swapBtn = pickerEl.createEl('button', { text: '⇄', cls: 'cdc-btn cdc-btn-small' });
+    swapBtn.title = 'Swap domains';
+    this.targetSelect = this.renderDomainSelect(pickerEl, domains, this.targetDomain ?? domains[1].domain);
+    swapBtn.onclick = () => {
+      const source = this.sourceSelect!.value;
+      this.sourceSelect!.value = this.targetSelect!.value;
+      this.targetSelect!.value = source;
+    };
+
+    this.discoverBtn = pickerEl.createEl('button', { text: 'Discover', cls: 'cdc-btn cdc-btn-primary' });
+    this.discoverBtn.onclick = () => this.runSearch();
+
+    this.renderModeToggle();
+
+    if (this.sourceDomain && this.targetDomain) {
+      await this.runSearch();
+    }
+  }
+
+  onClose(): void {
+    this.searchAbortController?.abort();
+    this.searchAbortController = null;
+    this.contentEl.empty();
+    this.sourceSelect = null;
+    this.targetSelect = null;
+    this.modeToggleContainer = null;
+    this.resultsContainer = null;
+    this.discoverBtn = null;
+  }
+
+  private renderDomainSelect(
+    container: HTMLElement,
+    domains: Array<{ domain: string; noteCount: number }>,
+    selected: string
+  ): HTMLSelectElement {
+    const select = container.createEl('select', { cls: 'dropdown' });
+    for (const { domain, noteCount } of domains) {
+      select.createEl('option', { text: `${domain} (${noteCount})`, value: domain });
+    }
+    select.value = selected;
+    return select;
+  }
+
+  /**
+   * 모드 토글 UI 렌더링
+   */
+  private renderModeToggle(): void {
+    if (this.modeToggleContainer) {
+      this.modeToggleContainer.empty();
+    } else {
+      this.modeToggleContainer = this.contentEl.createDiv({ cls: 'cdc-mode-toggle' });
+    }
+
+    const standardBtn = this.modeToggleContainer.createEl('button', {
+      text: 'Standard',
+      cls: `cdc-mode-btn ${this.mode === 'standard' ? 'cdc-mode-active' : ''}`,
+    });
+    standardBtn.onclick = () => this.switchMode('standard');
+
+    const deepBtn = this.modeToggleContainer.createEl('button', {
+      text: 'Deep (LLM)',
+      cls: `cdc-mode-btn ${this.mode === 'deep' ? 'cdc-mode-active' : ''}`,
+    });
+    if (!this.plugin.getDeepSerendipityUseCase()) {
+      deepBtn.addClass('cdc-mode-disabled');
+      deepBtn.title = 'AI API key required for Deep Mode';
+    }
+    deepBtn.onclick = () => {
+      if (!this.plugin.getDeepSerendipityUseCase()) {
+        new Notice('Deep Mode requires AI API key configuration');
+        return;
+      }
+      this.switchMode('deep');
+    };
+
+    const modeDesc = this.modeToggleContainer.createDiv({ cls: 'cdc-mode-description' });
+    modeDesc.setText(this.mode === 'standard'
+      ? 'Evaluates every note pair between the two domains by embedding similarity'
+      : 'LLM evaluates sampled note pairs between the two domains');
+  }
+
+  private switchMode(mode: DomainPairMode): void {
+    if (this.mode === mode) return;
+    this.mode = mode;
+    this.renderModeToggle();
+  }
+
+  /**
+   * 선택한 도메인 쌍으로 탐색 (진행 중이면 취소 후 다시 시작)
+   */
+  private async runSearch(): Promise<void> {
+    if (!this.sourceSelect || !this.targetSelect) return;
+
+    const sourceDomain = this.sourceSelect.value;
+    const targetDomain = this.targetSelect.value;
+    if (sourceDomain === targetDomain) {
+      new Notice('Choose two different domains');
+      return;
+    }
+
+    this.searchAbortController?.abort();
+    this.searchAbortController = null;
+    this.resultsContainer?.remove();
+    this.resultsContainer = this.contentEl.createDiv();
+
+    if (this.mode === 'deep') {
+      await this.performDeepSearch(this.resultsContainer, sourceDomain, targetDomain);
+    } else {
+      await this.performStandardSearch(this.resultsContainer, sourceDomain, targetDomain);
+    }
+  }
+
+  /**
+   * Standard Mode: 도메인 쌍 전체 쌍 탐색
+   */
+  private async performStandardSearch(
+    container: HTMLElement,
+    sourceDomain: string,
+    targetDomain: string
+  ): Promise<void> {
+    const loadingEl = container.createEl('p', {
+      text: 'Evaluating note pairs...',
+      cls: 'cdc-loading',
+    });
+
+    this.searchAbortController = new AbortController();
+    const controller = this.searchAbortController;
+    const progressEl = container.createDiv({ cls: 'cdc-progress' });
+    progressEl.hide();
+    const progressText = progressEl.createSpan();
+    const cancelBtn = progressEl.createEl('button', {
+      text: 'Cancel',
+      cls: 'cdc-btn cdc-btn-small',
+    });
+    cancelBtn.onclick = () => {
+      controller.abort();
+      cancelBtn.disabled = true;
+      progressText.setText('Cancelling...');
+    };
+
+    try {
+      const connections = await this.plugin.getDiscoverUseCase().findDomainPairConnections(
+        sourceDomain,
+        targetDomain,
+        this.plugin.settings.discovery.maxResults,
+        {
+          signal: controller.signal,
+          onProgress: ({ completed, total }) => {
+            progressEl.show();
+            const percent = total > 0 ? Math.floor((completed / total) * 100) : 0;
+            progressText.setText(`Evaluating pairs... ${percent}% `);
+          },
+        }
+      );
+      loadingEl.remove();
+      progressEl.remove();
+      if (this.searchAbortController === controller) {
+        this.searchAbortController = null;
+      }
+
+      if (connections.length === 0) {
+        container.createEl('p', {
+          text: 'No connections found between these domains.',
+          cls: 'cdc-no-results',
+        });
+        return;
+      }
+
+      container.createEl('p', {
+        text: `Found ${connections.length} connections:`,
+        cls: 'cdc-result-count',
+      });
+      this.renderStandardConnections(container, connections);
+
+      if (controller.signal.aborted) {
+        new Notice(`Search cancelled — showing best ${connections.length} found so far`);
+      }
+    } catch (error) {
+      console.error('[CDC] Domain pair search error:', error);
+      loadingEl.remove();
+      progressEl.remove();
+      this.searchAbortController = null;
+      container.createEl('p', {
+        text: 'Failed to search domain pair. Check console for details.',
+        cls: 'cdc-error',
+      });
+    }
+  }
+
+  /**
+   * Deep Mode: 도메인 쌍 LLM 평가
+   */
+  private async performDeepSearch(
+    container: HTMLElement,
+    sourceDomain: string,
+    targetDomain: string
+  ): Promise<void> {
+    const deepUseCase = this.plugin.getDeepSerendipityUseCase();
+    if (!deepUseCase) {
+      container.createEl('p', {
+        text: 'Deep Mode requires AI API key configuration.',
+        cls: 'cdc-error',
+      });
+      return;
+    }
+
+    const loadingEl = container.createEl('p', {
+      text: 'Evaluating note pairs with LLM... This may take several minutes.',
+      cls: 'cdc-loading',
+    });
+    if (this.discoverBtn) this.discoverBtn.disabled = true;
+
+    try {
+      const connections = await deepUseCase.executeForDomainPair(sourceDomain, targetDomain);
+      loadingEl.remove();
+
+      if (connections.length === 0) {
+        container.createEl('p', {
+          text: 'No deep connections found between these domains.',
+          cls: 'cdc-no-results',
+        });
+        return;
+      }
+
+      container.createEl('p', {
+        text: `Found ${connections.length} deep creative connections:`,
+        cls: 'cdc-result-count',
+      });
+      this.renderDeepConnections(container, connections);
+    } catch (error) {
+      console.error('[CDC] Domain pair deep search error:', error);
+      loadingEl.remove();
+      container.createEl('p', {
+        text: 'Failed to perform deep analysis. Check console for details.',
+        cls: 'cdc-error',
+      });
+    } finally {
+      if (this.discoverBtn) this.discoverBtn.disabled = false;
+    }
+  }
+
+  /**
+   * Standard Mode: 연결 목록 렌더링
+   */
+  private renderStandardConnections(container: HTMLElement, connections: CrossDomainConnection[]): void {
+    const list = container.createDiv({ cls: 'cdc-serendipity-list' });
+
+    connections.forEach((conn, index) => {
+      const item = list.createDiv({ cls: 'cdc-serendipity-item' });
+      item.createEl('span', { text: `#${index + 1}`, cls: 'cdc-rank' });
+
+      const info = item.createDiv({ cls: 'cdc-serendipity-info' });
+      const titles = info.createDiv({ cls: 'cdc-titles' });
+      titles.createEl('strong', { text: conn.sourceNote.title });
+      titles.createEl('span', { text: ' ↔ ', cls: 'cdc-arrow' });
+      titles.createEl('strong', { text: conn.targetNote.title });
+
+      info.createEl('span', {
+        text: ` (${conn.serendipityScore.toString()})`,
+        cls: `cdc-score cdc-score-${conn.serendipityScore.getLevel()}`,
+      });
+
+      if (hasStaleEmbedding(conn)) {
+        renderStaleBadge(info, conn);
+      }
+
+      renderDomainPath(
+        info,
+        conn.sourceNote.primaryDomain,
+        conn.targetNote.primaryDomain,
+        this.plugin.getDomainTaxonomy()
+      );
+
+      info.createEl('span', {
+        text: getConnectionTypeLabel(conn.connectionType),
+        cls: 'cdc-connection-type',
+      });
+
+      this.renderOpenButtons(item, conn.sourceNote.path, conn.targetNote.path);
+    });
+  }
+
+  /**
+   * Deep Mode: 연결 목록 렌더링
+   */
+  private renderDeepConnections(container: HTMLElement, connections: DeepSerendipityConnection[]): void {
+    const list = container.createDiv({ cls: 'cdc-serendipity-list cdc-deep-list' });
+    const taxonomy = this.plugin.getDomainTaxonomy();
+
+    connections.forEach((conn, index) => {
+      const item = list.createDiv({ cls: 'cdc-serendipity-item cdc-deep-item' });
+
+      const rankBadge = item.createDiv({ cls: 'cdc-rank-badge' });
+      rankBadge.createEl('span', { text: `#${index + 1}`, cls: 'cdc-rank' });
+      rankBadge.createEl('span', {
+        text: `✨ ${(conn.creativityScore * 100).toFixed(0)}%`,
+        cls: 'cdc-creativity-score',
+      });
+
+      const info = item.createDiv({ cls: 'cdc-serendipity-info' });
+      const titles = info.createDiv({ cls: 'cdc-titles' });
+      titles.createEl('strong', { text: conn.sourceNote.title });
+      titles.createEl('span', { text: ' ↔ ', cls: 'cdc-arrow' });
+      titles.createEl('strong', { text: conn.targetNote.title });
+
+      const domainInfo = info.createDiv({ cls: 'cdc-domain-info' });
+      domainInfo.createEl('span', {
+        text: getDomainBreadcrumb(conn.sourceNote.primaryDomain, taxonomy).join(' › '),
+        cls: 'cdc-domain-badge',
+      });
+      domainInfo.createEl('span', { text: ' ⟷ ', cls: 'cdc-domain-arrow' });
+      domainInfo.createEl('span', {
+        text: getDomainBreadcrumb(conn.targetNote.primaryDomain, taxonomy).join(' › '),
+        cls: 'cdc-domain-badge',
+      });
+
+      if (conn.analogy && conn.analogy !== '연결 없음') {
+        info.createEl('p', {
+          text: `💡 ${conn.analogy}`,
+          cls: 'cdc-analogy cdc-deep-analogy',
+        });
+      }
+
+      this.renderOpenButtons(item, conn.sourceNote.path, conn.targetNote.path);
+    });
+  }
+
+  private renderOpenButtons(item: HTMLElement, sourcePath: string, targetPath: string): void {
+    const actions = item.createDiv({ cls: 'cdc-item-actions' });
+
+    const openSourceBtn = actions.createEl('button', {
+      text: 'Open Source',
+      cls: 'cdc-btn cdc-btn-small',
+    });
+    openSourceBtn.onclick = () => {
+      this.app.workspace.openLinkText(sourcePath, '', false);
+    };
+
+    const openTargetBtn = actions.createEl('button', {
+      text: 'Open Target',
+      cls: 'cdc-btn cdc-btn-small',
+    });
+    openTargetBtn.onclick = () => {
+      this.app.workspace.openLinkText(targetPath, '', false);
+    };
+  }
+}
@@ -5,18 +5,26 @@
 
 import { ItemView, WorkspaceLeaf, Notice, TFile, normalizePath } from 'obsidian';
 import type { CrossDomainConnection } from '../core/domain/entities/cross-domain-connection';
-import { getConnectionTypeLabel } from '../core/domain/entities/cross-domain-connection';
+import {
+  getConnectionTypeLabel,
+  getPassageSubpath,
+  hasStaleEmbedding,
+} from '../core/domain/entities/cross-domain-connection';
 import { generateNoteId } from '../core/domain/utils/note-id';
 import type { DiscoverConnectionsUseCase } from '../core/application/use-cases/discover-connections';
 import type { GenerateAnalogyUseCase } from '../core/application/use-cases/generate-analogy';
 import type CrossDomainConnectorPlugin from '../main';
 import { SerendipityModal } from './serendipity-modal';
+import { renderStaleBadge } from './components/stale-badge';
+import { renderDomainPath } from './components/domain-path';
+import { renderPassageMatch } from './components/passage-match';
 
 export const VIEW_TYPE_CDC = 'cross-domain-connector-view';
 
 export class CDCMainView extends ItemView {
   private resultsContainer: HTMLElement | null = null;
   private statusEl: HTMLElement | null = null;
+  private diagnosticEl: HTMLElement | null = null;
 
   constructor(
     leaf: WorkspaceLeaf,
@@ -86,6 +94,10 @@ export class CDCMainView extends ItemView {
     this.statusEl = container.createDiv({ cls: 'cdc-status' });
     this.statusEl.setText('Select a note and click "Discover Connections"');
 
+    // Embedding diagnostics
+    this.diagnosticEl = container.createDiv({ cls: 'cdc-diagnostic' });
+    this.diagnosticEl.hide();
+
     // Results container
     this.resultsContainer = container.createDiv({ cls: 'cdc-results' });
   }
@@ -93,6 +105,7 @@ export class CDCMainView extends ItemView {
   async onClose(): Promise<void> {
     this.resultsContainer = null;
     this.statusEl = null;
+    this.diagnosticEl = null;
   }
 
   /**
@@ -114,6 +127,7 @@ export class CDCMainView extends ItemView {
       const connections = await this.discoverUseCase.execute(noteId);
 
       this.renderConnections(connections, activeFile.basename);
+      await this.renderDiagnostics(noteId);
 
       if (connections.length === 0) {
         new Notice('No cross-domain connections found');
@@ -129,6 +143,44 @@ export class CDCMainView extends ItemView {
     }
   }
 
+  /**
+   * 임베딩 모델 불일치 진단 표시
+   */
+  private async renderDiagnostics(sourceNoteId: string): Promise<void> {
+    if (!this.diagnosticEl) return;
+    this.diagnosticEl.empty();
+
+    const diagnostics = await this.plugin.getEmbeddingDiagnostics();
+    if (!diagnostics.active || diagnostics.excludedNoteIds.size === 0) {
+      this.diagnosticEl.hide();
+      return;
+    }
+
+    this.diagnosticEl.show();
+    const { active } = diagnostics;
+
+    if (diagnostics.excludedNoteIds.has(sourceNoteId)) {
+      this.diagnosticEl.createEl('p', {
+        text: `⚠ This note's embedding uses a different model than the active one (${active.model}, ${active.dimension}d). Re-embed it to discover connections.`,
+        cls: 'cdc-diagnostic-source',
+      });
+    }
+
+    this.diagnosticEl.createEl('p', {
+      text: `${diagnostics.excludedNoteIds.size} of ${diagnostics.total} notes were skipped because they use a mismatched or stale embedding model:`,
+    });
+    const list = this.diagnosticEl.createEl('ul');
+    for (const group of diagnostics.excluded) {
+      list.createEl('li', {
+        text: `${group.model} (${group.dimension}d): ${group.count} notes`,
+      });
+    }
+    this.diagnosticEl.createEl('p', {
+      text: `Active model: ${active.model} (${active.dimension}d, ${active.count} notes)`,
+      cls: 'cdc-diagnostic-active',
+    });
+  }
+
   /**
    * 연결 결과 렌더링
    */
@@ -171,11 +223,17 @@ export class CDCMainView extends ItemView {
         cls: 'cdc-card-title',
       });
 
+      if (hasStaleEmbedding(conn)) {
+        renderStaleBadge(cardHeader, conn);
+      }
+
       // Domain path
-      card.createEl('p', {
-        text: `${conn.sourceNote.primaryDomain} → ${conn.targetNote.primaryDomain}`,
-        cls: 'cdc-domain-path',
-      });
+      renderDomainPath(
+        card,
+        conn.sourceNote.primaryDomain,
+        conn.targetNote.primaryDomain,
+        this.plugin.getDomainTaxonomy()
+      );
 
       // Connection type
       card.createEl('span', {
@@ -189,6 +247,11 @@ export class CDCMainView extends ItemView {
         cls: 'cdc-similarity',
       });
 
+      // Matching passages (chunk embeddings)
+      renderPassageMatch(card, conn, (linktext) => {
+        this.app.workspace.openLinkText(linktext, '', false);
+      });
+
       // Actions
       const actions = card.createDiv({ cls: 'cdc-card-actions' });
 
@@ -234,7 +297,11 @@ export class CDCMainView extends ItemView {
         cls: 'cdc-btn cdc-btn-small cdc-btn-secondary',
       });
       openBtn.onclick = () => {
-        this.app.workspace.openLinkText(conn.targetNote.path, '', false);
+        this.app.workspace.openLinkText(
+          `${conn.targetNote.path}${getPassageSubpath(conn.passage?.target)}`,
+          '',
+          false
+        );
       };
     });
   }
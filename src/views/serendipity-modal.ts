@@ -8,10 +8,13 @@
 
 import { Modal, App, Notice, TFile, normalizePath } from 'obsidian';
 import type { CrossDomainConnection } from '../core/domain/entities/cross-domain-connection';
-import { getConnectionTypeLabel } from '../core/domain/entities/cross-domain-connection';
+import { getConnectionTypeLabel, hasStaleEmbedding } from '../core/domain/entities/cross-domain-connection';
 import type { DiscoverConnectionsUseCase } from '../core/application/use-cases/discover-connections';
 import type { GenerateAnalogyUseCase } from '../core/application/use-cases/generate-analogy';
 import type CrossDomainConnectorPlugin from '../main';
+import { renderStaleBadge } from './components/stale-badge';
+import { renderDomainPath } from './components/domain-path';
+import { getDomainBreadcrumb } from '../core/domain/utils/domain-path';
 
 type SerendipityMode = 'standard' | 'deep';
 
@@ -19,6 +22,9 @@ export class SerendipityModal extends Modal {
   private resultsContainer: HTMLElement | null = null;
   private currentMode: SerendipityMode = 'standard';
   private modeToggleContainer: HTMLElement | null = null;
+  private searchAbortController: AbortController | null = null;
+  /** 모달이 닫혔는지 (닫힌 뒤 끝난 검색은 렌더링하지 않음) */
+  private closed = false;
 
   constructor(
     app: App,
@@ -50,6 +56,7 @@ export class SerendipityModal extends Modal {
 
   async onOpen(): Promise<void> {
     const { contentEl } = this;
+    this.closed = false;
     contentEl.empty();
     contentEl.addClass('cdc-serendipity-modal');
 
@@ -277,9 +284,36 @@ export class SerendipityModal extends Modal {
       cls: 'cdc-loading',
     });
 
+    // 진행률 + 취소 (전체 쌍 탐색 모드)
+    this.searchAbortController = new AbortController();
+    const controller = this.searchAbortController;
+    const progressEl = contentEl.createDiv({ cls: 'cdc-progress' });
+    progressEl.hide();
+    const progressText = progressEl.createSpan();
+    const cancelBtn = progressEl.createEl('button', {
+      text: 'Cancel',
+      cls: 'cdc-btn cdc-btn-small',
+    });
+    cancelBtn.onclick = () => {
+      controller.abort();
+      cancelBtn.disabled = true;
+      progressText.setText('Cancelling...');
+    };
+
     try {
-      const connections = await this.discoverUseCase.findTopSerendipitousConnections(10);
+      const connections = await this.discoverUseCase.findTopSerendipitousConnections(10, {
+        signal: controller.signal,
+        onProgress: ({ completed, total }) => {
+          progressEl.show();
+          const percent = total > 0 ? Math.floor((completed / total) * 100) : 0;
+          progressText.setText(`Evaluating all pairs... ${percent}% `);
+        },
+      });
+      // 닫으면서 취소된 검색은 결과 표시/알림 없이 종료
+      if (this.closed) return;
       loadingEl.remove();
+      progressEl.remove();
+      this.searchAbortController = null;
 
       if (connections.length === 0) {
         contentEl.createEl('p', {
@@ -289,21 +323,30 @@ export class SerendipityModal extends Modal {
         return;
       }
 
-      await this.plugin.setSerendipityCache({
-        connections,
-        timestamp: Date.now(),
-      });
-
       contentEl.createEl('p', {
         text: `Found ${connections.length} serendipitous connections:`,
         cls: 'cdc-result-count',
       });
 
       this.renderStandardConnections(connections);
+
+      // 취소된 부분 결과는 캐시하지 않음
+      if (controller.signal.aborted) {
+        new Notice(`Search cancelled — showing best ${connections.length} found so far`);
+        return;
+      }
+
+      await this.plugin.setSerendipityCache({
+        connections,
+        timestamp: Date.now(),
+      });
       new Notice(`Found ${connections.length} connections (saved to cache)`);
     } catch (error) {
       console.error('[CDC] Standard serendipity mode error:', error);
+      if (this.closed) return;
       loadingEl.remove();
+      progressEl.remove();
+      this.searchAbortController = null;
       contentEl.createEl('p', {
         text: 'Failed to analyze vault. Check console for details.',
         cls: 'cdc-error',
@@ -425,10 +468,16 @@ export class SerendipityModal extends Modal {
         cls: `cdc-score cdc-score-${conn.serendipityScore.getLevel()}`,
       });
 
-      info.createEl('p', {
-        text: `${conn.sourceNote.primaryDomain} → ${conn.targetNote.primaryDomain}`,
-        cls: 'cdc-domain-path',
-      });
+      if (hasStaleEmbedding(conn)) {
+        renderStaleBadge(info, conn);
+      }
+
+      renderDomainPath(
+        info,
+        conn.sourceNote.primaryDomain,
+        conn.targetNote.primaryDomain,
+        this.plugin.getDomainTaxonomy()
+      );
 
       info.createEl('span', {
         text: getConnectionTypeLabel(conn.connectionType),
@@ -525,13 +574,14 @@ export class SerendipityModal extends Modal {
 
       // Domain path with distance indicator
       const domainInfo = info.createDiv({ cls: 'cdc-domain-info' });
+      const taxonomy = this.plugin.getDomainTaxonomy();
       domainInfo.createEl('span', {
-        text: `${conn.sourceNote.primaryDomain}`,
+        text: getDomainBreadcrumb(conn.sourceNote.primaryDomain, taxonomy).join(' › '),
         cls: 'cdc-domain-badge',
       });
       domainInfo.createEl('span', { text: ' ⟷ ', cls: 'cdc-domain-arrow' });
       domainInfo.createEl('span', {
-        text: `${conn.targetNote.primaryDomain}`,
+        text: getDomainBreadcrumb(conn.targetNote.primaryDomain, taxonomy).join(' › '),
         cls: 'cdc-domain-badge',
       });
 
@@ -710,6 +760,9 @@ export class SerendipityModal extends Modal {
   }
 
   onClose(): void {
+    this.closed = true;
+    this.searchAbortController?.abort();
+    this.searchAbortController = null;
     this.contentEl.empty();
     this.resultsContainer = null;
     this.modeToggleContainer = null;
@@ -5,7 +5,26 @@
 
 import { Setting, Notice } from 'obsidian';
 import type CrossDomainConnectorPlugin from '../../../main';
-import type { ClassificationMethod } from '../../../core/domain/interfaces/domain-classifier';
+import type { ClassificationMethod, DomainSource } from '../../../core/domain/interfaces/domain-classifier';
+import type { EmbeddingSourceType } from '../../../core/adapters/embeddings/embedding-source';
+import type { SharedDomainPolicy } from '../../../core/domain/interfaces/connection-analyzer';
+import {
+  validateDomainOverrideProperty,
+  validateDomainProperties,
+  validateEmbeddingSource,
+} from '../../../types';
+
+type EmbeddingPathKey = 'embeddingFolder' | 'smartEnvFolder' | 'embeddingExportPath';
+
+/**
+ * frontmatter 분류 방식의 출처 우선순위 선택지
+ */
+const SOURCE_ORDER_OPTIONS: Array<{ order: DomainSource[]; label: string }> = [
+  { order: ['frontmatter', 'tag', 'folder'], label: 'Properties → Tags → Folder' },
+  { order: ['tag', 'frontmatter', 'folder'], label: 'Tags → Properties → Folder' },
+  { order: ['frontmatter', 'folder'], label: 'Properties → Folder (ignore tags)' },
+  { order: ['frontmatter'], label: 'Properties only (folder as last resort)' },
+];
 
 export class AdvancedSection {
   constructor(
@@ -25,14 +44,26 @@ export class AdvancedSection {
           .addOption('tag', 'Tag-based (uses #domain/ or #topic/ tags)')
           .addOption('folder', 'Folder-based (uses folder structure)')
           .addOption('cluster', 'Cluster-based (auto-detect from embeddings)')
+          .addOption('frontmatter', 'Frontmatter-based (domain:, field:, area: properties)')
+          .addOption('llm', 'AI-assisted (tags, then AI domains for untagged notes)')
           .setValue(this.plugin.settings.advanced.classificationMethod)
           .onChange(async (value) => {
             this.plugin.settings.advanced.classificationMethod =
               value as ClassificationMethod;
             await this.plugin.saveSettings();
+            this.containerEl.empty();
+            this.plugin.settingTab?.display();
           });
       });
 
+    if (this.plugin.settings.advanced.classificationMethod === 'cluster') {
+      this.renderClusterSettings();
+    }
+    if (this.plugin.settings.advanced.classificationMethod === 'frontmatter') {
+      this.renderFrontmatterSettings();
+    }
+    this.renderDomainLabelSettings();
+
     // Domain tag prefixes
     new Setting(this.containerEl)
       .setName('Domain Tag Prefixes')
@@ -50,6 +81,101 @@ export class AdvancedSection {
           });
       });
 
+    // Domain override property
+    new Setting(this.containerEl)
+      .setName('Domain Override Property')
+      .setDesc('Frontmatter property that pins a note\'s domain with any classification method (empty = disabled)')
+      .addText((text) => {
+        text
+          .setPlaceholder('cdc-domain')
+          .setValue(this.plugin.settings.advanced.domainOverrideProperty)
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.domainOverrideProperty = value.trim();
+            const errors = validateDomainOverrideProperty(this.plugin.settings.advanced);
+            text.inputEl.toggleClass('cdc-input-invalid', errors.length > 0);
+            if (errors.length === 0) {
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    // Multi-domain notes
+    new Setting(this.containerEl)
+      .setName('Multi-Domain Notes')
+      .setDesc('Compare notes by their primary and secondary domains instead of the primary domain only')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.advanced.multiDomain)
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.multiDomain = value;
+            await this.plugin.saveSettings();
+            this.containerEl.empty();
+            this.plugin.settingTab?.display();
+          });
+      });
+
+    if (this.plugin.settings.advanced.multiDomain) {
+      new Setting(this.containerEl)
+        .setName('Secondary Domain Weight')
+        .setDesc('Weight of secondary domains in the domain distance (the primary domain counts 1)')
+        .addSlider((slider) => {
+          slider
+            .setLimits(0.1, 1, 0.1)
+            .setValue(this.plugin.settings.advanced.secondaryDomainWeight)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.advanced.secondaryDomainWeight = value;
+              await this.plugin.saveSettings();
+            });
+        });
+
+      new Setting(this.containerEl)
+        .setName('Shared Domains')
+        .setDesc('How to treat pairs that share a primary or secondary domain')
+        .addDropdown((dropdown) => {
+          dropdown
+            .addOption('penalize', 'Penalise (shared domains shorten the distance)')
+            .addOption('skip', 'Skip (treat as same domain)')
+            .setValue(this.plugin.settings.advanced.sharedDomainPolicy)
+            .onChange(async (value) => {
+              this.plugin.settings.advanced.sharedDomainPolicy = value as SharedDomainPolicy;
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
+    // Domain taxonomy
+    const taxonomy = this.plugin.getDomainTaxonomy();
+    new Setting(this.containerEl)
+      .setName('Domain Taxonomy')
+      .setDesc(
+        'Tree of domains as an indented list or slash paths (e.g. "Science/Physics"). Related domains get a smaller distance. ' +
+        (taxonomy ? `${taxonomy.size} domains loaded.` : 'No taxonomy loaded.')
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('- Science\n  - Physics\n  - Biology\n- Humanities\n  - Philosophy')
+          .setValue(this.plugin.settings.advanced.domainTaxonomy)
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.domainTaxonomy = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 6;
+      });
+
+    new Setting(this.containerEl)
+      .setName('Taxonomy Note')
+      .setDesc('Read the domain tree from this note instead (same format, kept in sync when the note changes)')
+      .addText((text) => {
+        text
+          .setPlaceholder('Meta/Domain Taxonomy.md')
+          .setValue(this.plugin.settings.advanced.taxonomyNotePath)
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.taxonomyNotePath = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+
     // Debug mode
     new Setting(this.containerEl)
       .setName('Debug Mode')
@@ -63,19 +189,134 @@ export class AdvancedSection {
           });
       });
 
-    // Embedding folder info
+    // Embeddings source
     new Setting(this.containerEl)
       .setName('Embeddings Source')
-      .setDesc('Cross-Domain Connector uses embeddings from the Vault Embeddings plugin (09_Embedded folder)')
+      .setDesc('Where to read note embeddings from')
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('vault-embeddings', 'Vault Embeddings plugin (JSON)')
+          .addOption('smart-connections', 'Smart Connections (.smart-env)')
+          .addOption('export-file', 'Export file (JSONL / NPY)')
+          .setValue(this.plugin.settings.advanced.embeddingSource)
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.embeddingSource = value as EmbeddingSourceType;
+            // 경로가 아직 유효하지 않으면 경로 입력 후 저장 (addPathSetting)
+            if (validateEmbeddingSource(this.plugin.settings.advanced).length === 0) {
+              await this.plugin.saveSettings();
+            }
+            this.containerEl.empty();
+            this.plugin.settingTab?.display();
+          });
+      });
+
+    switch (this.plugin.settings.advanced.embeddingSource) {
+      case 'vault-embeddings':
+        this.addPathSetting(
+          'Embeddings Folder',
+          'Folder written by the Vault Embeddings plugin (contains index.json and embeddings/)',
+          '09_Embedded',
+          'embeddingFolder'
+        );
+        break;
+      case 'smart-connections':
+        this.addPathSetting(
+          'Smart Connections Folder',
+          'Smart Connections data folder (reads multi/*.ajson)',
+          '.smart-env',
+          'smartEnvFolder'
+        );
+        break;
+      case 'export-file':
+        this.addPathSetting(
+          'Export File',
+          'JSONL file with one {path, vector} per line, or an NPY matrix with a same-named .json list of note paths',
+          'exports/embeddings.jsonl',
+          'embeddingExportPath'
+        );
+        break;
+    }
+
+    // Embedding model
+    new Setting(this.containerEl)
+      .setName('Embedding Model')
+      .setDesc('Only embeddings from one model can be compared. Notes embedded with other models are skipped.')
+      .addDropdown((dropdown) => {
+        const current = this.plugin.settings.advanced.embeddingModel;
+        dropdown.addOption('', 'Auto (most common model)');
+        if (current) {
+          dropdown.addOption(current, current);
+        }
+        dropdown
+          .setValue(current)
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.embeddingModel = value;
+            await this.plugin.saveSettings();
+          });
+
+        // 모델 목록은 비동기로 채움
+        // 같은 모델의 차원별 그룹은 한 항목으로 합침 (선택 값은 모델 이름)
+        this.plugin.getEmbeddingModelGroups().then((groups) => {
+          const models = new Map<string, { dimensions: number[]; count: number }>();
+          for (const group of groups) {
+            if (group.model === current) continue;
+            const entry = models.get(group.model) ?? { dimensions: [], count: 0 };
+            entry.dimensions.push(group.dimension);
+            entry.count += group.count;
+            models.set(group.model, entry);
+          }
+          for (const [model, { dimensions, count }] of models) {
+            dropdown.addOption(model, `${model} (${dimensions.join('/')}d, ${count} notes)`);
+          }
+        }).catch((error) => {
+          console.error('[CDC] Failed to list embedding models:', error);
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName('Check Embeddings')
+      .setDesc('Validate the selected embeddings source')
       .addButton((button) => {
         button
           .setButtonText('Check Embeddings')
           .onClick(async () => {
-            const count = await this.plugin.getEmbeddingCount();
-            if (count > 0) {
-              new Notice(`Found ${count} embeddings available`);
-            } else {
-              new Notice('No embeddings found. Please run Vault Embeddings plugin first.');
+            const validation = await this.plugin.validateEmbeddingSource();
+            new Notice(validation.valid ? `✅ ${validation.message}` : `❌ ${validation.message}`);
+          });
+      });
+
+    // Binary cache
+    new Setting(this.containerEl)
+      .setName('Binary Embedding Cache')
+      .setDesc('Pack embeddings into a single binary file in the plugin folder for faster loading. Only changed notes are re-read from the source.')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.advanced.useBinaryCache)
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.useBinaryCache = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Vector index rebuild
+    new Setting(this.containerEl)
+      .setName('Rebuild Vector Index')
+      .setDesc('Rebuild the nearest-neighbour index from scratch. It is otherwise updated incrementally when embeddings change.')
+      .addButton((button) => {
+        button
+          .setButtonText('Rebuild')
+          .onClick(async () => {
+            button.setDisabled(true);
+            button.setButtonText('Rebuilding...');
+            try {
+              const count = await this.plugin.rebuildVectorIndex();
+              new Notice(`Vector index rebuilt (${count} notes)`);
+            } catch (error) {
+              console.error('[CDC] Vector index rebuild failed:', error);
+              new Notice('Failed to rebuild vector index');
+            } finally {
+              button.setButtonText('Rebuild');
+              button.setDisabled(false);
             }
           });
       });
@@ -98,4 +339,157 @@ export class AdvancedSection {
           });
       });
   }
+
+  /**
+   * frontmatter 분류 설정 (도메인 속성, 출처 우선순위)
+   */
+  private renderFrontmatterSettings(): void {
+    new Setting(this.containerEl)
+      .setName('Domain Properties')
+      .setDesc('Frontmatter properties that hold a note\'s domain (comma-separated). The first value found is the primary domain; other values and list items become secondary domains.')
+      .addText((text) => {
+        text
+          .setPlaceholder('domain, field, area')
+          .setValue(this.plugin.settings.advanced.domainProperties.join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.domainProperties = value
+              .split(',')
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
+            const errors = validateDomainProperties(this.plugin.settings.advanced);
+            text.inputEl.toggleClass('cdc-input-invalid', errors.length > 0);
+            if (errors.length === 0) {
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(this.containerEl)
+      .setName('Domain Source Precedence')
+      .setDesc('Where to look for the primary domain first')
+      .addDropdown((dropdown) => {
+        for (const option of SOURCE_ORDER_OPTIONS) {
+          dropdown.addOption(option.order.join(','), option.label);
+        }
+        dropdown
+          .setValue(this.plugin.settings.advanced.domainSourceOrder.join(','))
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.domainSourceOrder = value.split(',') as DomainSource[];
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /**
+   * AI 도메인 제안 설정
+   */
+  private renderDomainLabelSettings(): void {
+    const clusterMode = this.plugin.settings.advanced.classificationMethod === 'cluster';
+
+    if (!clusterMode) {
+      new Setting(this.containerEl)
+        .setName('AI Suggestions per Run')
+        .setDesc('Maximum number of new or changed untagged notes sent to the AI in one run. Unchanged notes reuse their cached domain.')
+        .addSlider((slider) => {
+          slider
+            .setLimits(10, 500, 10)
+            .setValue(this.plugin.settings.advanced.aiLabelMaxNotes)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.advanced.aiLabelMaxNotes = value;
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
+    new Setting(this.containerEl)
+      .setName(clusterMode ? 'Name Clusters with AI' : 'Suggest Domains with AI')
+      .setDesc(
+        clusterMode
+          ? 'Ask the AI to name each cluster from its notes, then review the names and optionally write them as domain tags.'
+          : 'Ask the AI to suggest a domain for notes without a domain tag, then review and write them back as domain tags.'
+      )
+      .addButton((button) => {
+        button
+          .setButtonText('Suggest')
+          .setDisabled(!this.plugin.settings.ai.apiKeys[this.plugin.settings.ai.provider])
+          .onClick(async () => {
+            button.setDisabled(true);
+            try {
+              await this.plugin.suggestDomainLabels();
+            } finally {
+              button.setDisabled(false);
+            }
+          });
+      });
+  }
+
+  /**
+   * 클러스터 분류 설정 (클러스터 수, 재군집화)
+   */
+  private renderClusterSettings(): void {
+    new Setting(this.containerEl)
+      .setName('Cluster Count')
+      .setDesc('Number of clusters to group notes into (0 = choose automatically)')
+      .addSlider((slider) => {
+        slider
+          .setLimits(0, 50, 1)
+          .setValue(this.plugin.settings.advanced.clusterCount)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.advanced.clusterCount = value === 1 ? 2 : value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(this.containerEl)
+      .setName('Re-cluster Notes')
+      .setDesc('Cluster all notes from scratch. New and changed notes are otherwise assigned to the nearest existing cluster.')
+      .addButton((button) => {
+        button
+          .setButtonText('Re-cluster')
+          .onClick(async () => {
+            button.setDisabled(true);
+            button.setButtonText('Clustering...');
+            try {
+              const clusters = await this.plugin.reclusterNotes();
+              new Notice(`Clustered notes into ${clusters.length} clusters`);
+            } catch (error) {
+              console.error('[CDC] Re-clustering failed:', error);
+              new Notice('Failed to cluster notes');
+            } finally {
+              button.setButtonText('Re-cluster');
+              button.setDisabled(false);
+            }
+          });
+      });
+  }
+
+  /**
+   * 임베딩 출처 경로 설정 행 추가
+   */
+  private addPathSetting(
+    name: string,
+    desc: string,
+    placeholder: string,
+    key: EmbeddingPathKey
+  ): void {
+    new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text) => {
+        text
+          .setPlaceholder(placeholder)
+          .setValue(this.plugin.settings.advanced[key])
+          .onChange(async (value) => {
+            this.plugin.settings.advanced[key] = value.trim();
+            const errors = validateEmbeddingSource(this.plugin.settings.advanced);
+            text.inputEl.toggleClass('cdc-input-invalid', errors.length > 0);
+            if (errors.length === 0) {
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.toggleClass('cdc-input-invalid', validateEmbeddingSource(this.plugin.settings.advanced).length > 0);
+      });
+  }
 }
@@ -5,6 +5,8 @@
 
 import { Setting } from 'obsidian';
 import type CrossDomainConnectorPlugin from '../../../main';
+import type { VaultWideMode } from '../../../core/domain/interfaces/connection-analyzer';
+import type { DomainDistanceStrategy } from '../../../core/domain/value-objects/domain-distance';
 
 export class DiscoverySection {
   constructor(
@@ -82,6 +84,101 @@ export class DiscoverySection {
           });
       });
 
+    // Diversity weight
+    new Setting(this.containerEl)
+      .setName('Result Diversity')
+      .setDesc('Trade serendipity score for variety (0 = pure score order). Higher values spread results across target domains and dissimilar notes.')
+      .addSlider((slider) => {
+        slider
+          .setLimits(0, 1, 0.05)
+          .setValue(this.plugin.settings.discovery.diversityWeight)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.discovery.diversityWeight = value;
+            await this.plugin.saveSettings();
+          });
+      })
+      .addExtraButton((button) => {
+        button
+          .setIcon('reset')
+          .setTooltip('Reset to default (0.3)')
+          .onClick(async () => {
+            this.plugin.settings.discovery.diversityWeight = 0.3;
+            await this.plugin.saveSettings();
+            this.containerEl.empty();
+            this.plugin.settingTab?.display();
+          });
+      });
+
+    // Domain distance strategy
+    new Setting(this.containerEl)
+      .setName('Domain Distance')
+      .setDesc('How far apart two domains are when the domain taxonomy does not cover them. Embedding centroids compare the average embedding of each domain, so only semantically distant domains count as far.')
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('tags', 'Tag overlap (Jaccard)')
+          .addOption('centroid', 'Embedding centroids')
+          .setValue(this.plugin.settings.discovery.domainDistanceStrategy)
+          .onChange(async (value) => {
+            this.plugin.settings.discovery.domainDistanceStrategy = value as DomainDistanceStrategy;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Vector index
+    new Setting(this.containerEl)
+      .setName('Use Vector Index')
+      .setDesc('Use an approximate nearest-neighbour index for faster discovery on large vaults. Disable for an exact full scan.')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.discovery.useVectorIndex)
+          .onChange(async (value) => {
+            this.plugin.settings.discovery.useVectorIndex = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Vault-wide search mode
+    new Setting(this.containerEl)
+      .setName('Serendipity Search Mode')
+      .setDesc('Sampled checks 100 random notes (fast, varies per run). Exhaustive evaluates every cross-domain pair and returns the true top results (slower, cancellable).')
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('sampled', 'Sampled (100 random notes)')
+          .addOption('exhaustive', 'Exhaustive (all pairs)')
+          .setValue(this.plugin.settings.discovery.vaultWideMode)
+          .onChange(async (value) => {
+            this.plugin.settings.discovery.vaultWideMode = value as VaultWideMode;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Stale embeddings
+    new Setting(this.containerEl)
+      .setName('Exclude Stale Notes')
+      .setDesc('Skip notes edited after their embedding was generated. When off, such connections are shown with a "stale" badge.')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.discovery.excludeStaleNotes)
+          .onChange(async (value) => {
+            this.plugin.settings.discovery.excludeStaleNotes = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Passage-level matching
+    new Setting(this.containerEl)
+      .setName('Passage-Level Matching')
+      .setDesc('When the embeddings source provides per-heading or per-paragraph vectors, find the most similar passages for each result and show the matching headings on its card.')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.discovery.passageLevel)
+          .onChange(async (value) => {
+            this.plugin.settings.discovery.passageLevel = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
     // Include folders
     new Setting(this.containerEl)
       .setName('Include Folders')
@@ -0,0 +1,142 @@
+/**
+ * EmbeddingsSection
+ * 내장 임베딩 생성 설정 섹션
+ */
+
+import { Setting, Notice } from 'obsidian';
+import type CrossDomainConnectorPlugin from '../../../main';
+import {
+  DEFAULT_EMBEDDING_MODELS,
+  type EmbeddingProviderType,
+} from '../../../core/adapters/embeddings/embedding-provider';
+import { validateLocalEndpoint } from '../../../types';
+
+export class EmbeddingsSection {
+  constructor(
+    private containerEl: HTMLElement,
+    private plugin: CrossDomainConnectorPlugin
+  ) {}
+
+  render(): void {
+    this.containerEl.createEl('h3', { text: 'Embedding Generation' });
+
+    this.containerEl.createEl('p', {
+      text: 'Optionally generate embeddings inside this plugin instead of relying on the Vault Embeddings plugin. ' +
+        'Vectors are written to the Embeddings Folder in the same format, so both plugins stay compatible.',
+      cls: 'setting-item-description',
+    });
+
+    const settings = this.plugin.settings.embeddings;
+
+    // Provider selection
+    new Setting(this.containerEl)
+      .setName('Embedding Provider')
+      .setDesc('OpenAI and Gemini reuse the API keys from AI Settings')
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('openai', 'OpenAI')
+          .addOption('gemini', 'Gemini (Google)')
+          .addOption('local', 'Local (OpenAI-compatible: Ollama, llama.cpp)')
+          .setValue(settings.provider)
+          .onChange(async (value) => {
+            settings.provider = value as EmbeddingProviderType;
+            settings.model = '';
+            await this.plugin.saveSettings();
+            this.containerEl.empty();
+            this.plugin.settingTab?.display();
+          });
+      });
+
+    // Model
+    new Setting(this.containerEl)
+      .setName('Embedding Model')
+      .setDesc('Leave empty to use the provider default')
+      .addText((text) => {
+        text
+          .setPlaceholder(DEFAULT_EMBEDDING_MODELS[settings.provider])
+          .setValue(settings.model)
+          .onChange(async (value) => {
+            settings.model = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+
+    if (settings.provider === 'local') {
+      new Setting(this.containerEl)
+        .setName('Local Endpoint')
+        .setDesc('Base URL of an OpenAI-compatible server (POST {endpoint}/embeddings)')
+        .addText((text) => {
+          text
+            .setPlaceholder('http://localhost:11434/v1')
+            .setValue(settings.localEndpoint)
+            .onChange(async (value) => {
+              settings.localEndpoint = value.trim();
+              const errors = validateLocalEndpoint(settings);
+              text.inputEl.toggleClass('cdc-input-invalid', errors.length > 0);
+              if (errors.length === 0) {
+                await this.plugin.saveSettings();
+              }
+            });
+        });
+
+      new Setting(this.containerEl)
+        .setName('Local API Key')
+        .setDesc('Optional bearer token for the local server')
+        .addText((text) => {
+          text
+            .setPlaceholder('Optional')
+            .setValue(settings.localApiKey)
+            .onChange(async (value) => {
+              settings.localApiKey = value;
+              await this.plugin.saveSettings();
+            });
+          text.inputEl.type = 'password';
+        });
+    }
+
+    // Chunk size
+    new Setting(this.containerEl)
+      .setName('Chunk Size')
+      .setDesc('Maximum characters per chunk. Long notes are split on paragraphs and averaged.')
+      .addSlider((slider) => {
+        slider
+          .setLimits(500, 30000, 500)
+          .setValue(settings.maxChunkChars)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            settings.maxChunkChars = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Generate
+    new Setting(this.containerEl)
+      .setName('Generate Embeddings')
+      .setDesc('Embed new and modified notes (excluded folders are skipped)')
+      .addButton((button) => {
+        button
+          .setButtonText('Generate')
+          .setCta()
+          .onClick(async () => {
+            button.setDisabled(true);
+            try {
+              const result = await this.plugin.generateEmbeddings({
+                onProgress: ({ completed, total }) => {
+                  button.setButtonText(`${completed} / ${total}`);
+                },
+              });
+              new Notice(
+                `Embeddings: ${result.generated} generated, ${result.skipped} up to date` +
+                (result.failed > 0 ? `, ${result.failed} failed (${result.lastError})` : '')
+              );
+            } catch (error) {
+              console.error('[CDC] Embedding generation failed:', error);
+              new Notice(`Embedding generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            } finally {
+              button.setButtonText('Generate');
+              button.setDisabled(false);
+            }
+          });
+      });
+  }
+}
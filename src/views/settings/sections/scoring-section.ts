@@ -0,0 +1,212 @@
+/**
+ * ScoringSection
+ * 창발성 점수 프로필 설정 섹션
+ */
+
+import { Setting } from 'obsidian';
+import type CrossDomainConnectorPlugin from '../../../main';
+import {
+  SCORING_PRESETS,
+  validateScoringProfile,
+  type ScoringPresetId,
+  type ScoringProfile,
+  type SimilarityCurve,
+} from '../../../core/domain/value-objects/serendipity-score';
+import {
+  DEFAULT_GENERIC_TERMS,
+  GENERIC_TERM_LANGUAGE_NAMES,
+  type GenericTermLanguage,
+} from '../../../core/domain/utils/generic-terms';
+import { validateGenericTermSettings } from '../../../types';
+
+type NumericProfileKey = {
+  [K in keyof ScoringProfile]: ScoringProfile[K] extends number ? K : never;
+}[keyof ScoringProfile];
+
+export class ScoringSection {
+  constructor(
+    private containerEl: HTMLElement,
+    private plugin: CrossDomainConnectorPlugin
+  ) {}
+
+  render(): void {
+    this.containerEl.createEl('h3', { text: 'Scoring' });
+
+    const scoring = this.plugin.settings.scoring;
+
+    // Preset
+    new Setting(this.containerEl)
+      .setName('Scoring Preset')
+      .setDesc('Starting point for the serendipity formula. Changing any value below switches to Custom.')
+      .addDropdown((dropdown) => {
+        for (const [id, preset] of Object.entries(SCORING_PRESETS)) {
+          dropdown.addOption(id, preset.name);
+        }
+        dropdown.addOption('custom', 'Custom');
+        dropdown
+          .setValue(scoring.preset)
+          .onChange(async (value) => {
+            scoring.preset = value as ScoringPresetId | 'custom';
+            if (value !== 'custom') {
+              scoring.profile = { ...SCORING_PRESETS[value as ScoringPresetId].profile };
+            }
+            await this.plugin.saveSettings();
+            this.containerEl.empty();
+            this.plugin.settingTab?.display();
+          });
+      });
+
+    this.addSlider('Similarity Weight', 'Weight of embedding similarity in the base score', 'similarityWeight', 0, 1, 0.05);
+    this.addSlider('Domain Distance Weight', 'Weight of domain distance in the base score', 'distanceWeight', 0, 1, 0.05);
+    this.addSlider('Novelty Penalty', 'Multiplier applied to notes that are already linked (1 = no penalty)', 'noveltyPenalty', 0, 1, 0.05);
+    this.addSlider('Generic Term Penalty', 'Score reduction per generic term in title or tags', 'genericTermPenalty', 0, 0.5, 0.01);
+    this.addSlider('Minimum Specificity', 'Lower bound of the generic-term penalty', 'minSpecificity', 0, 1, 0.05);
+
+    // Similarity curve
+    new Setting(this.containerEl)
+      .setName('Similarity Curve')
+      .setDesc('Linear rewards the highest similarity. Sweet spot rewards mid-range similarity and penalises obvious matches.')
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('linear', 'Linear')
+          .addOption('sweet-spot', 'Sweet spot')
+          .setValue(scoring.profile.similarityCurve)
+          .onChange(async (value) => {
+            scoring.profile.similarityCurve = value as SimilarityCurve;
+            scoring.preset = 'custom';
+            await this.plugin.saveSettings();
+            this.containerEl.empty();
+            this.plugin.settingTab?.display();
+          });
+      });
+
+    if (scoring.profile.similarityCurve === 'sweet-spot') {
+      this.addSlider('Sweet Spot Center', 'Similarity that scores highest', 'sweetSpotCenter', 0.3, 0.95, 0.05);
+      this.addSlider('Sweet Spot Width', 'How quickly the score falls off around the center', 'sweetSpotWidth', 0.05, 0.5, 0.01);
+    }
+
+    this.renderGenericTerms();
+  }
+
+  /**
+   * 일반적 용어 목록 / 기본값 / 태그 학습 설정
+   */
+  private renderGenericTerms(): void {
+    const scoring = this.plugin.settings.scoring;
+
+    new Setting(this.containerEl)
+      .setName('Generic Terms')
+      .setDesc('Words that make a connection less specific (comma or newline separated). Matched as whole words in titles and tags; plurals and Korean particles are ignored.')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('note, idea, 노트, 개념')
+          .setValue(scoring.genericTerms.join(', '))
+          .onChange(async (value) => {
+            scoring.genericTerms = value
+              .split(/[,\n]/)
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 3;
+      });
+
+    let language: GenericTermLanguage | 'all' = 'all';
+    new Setting(this.containerEl)
+      .setName('Default Generic Terms')
+      .setDesc('Replace the list above with the built-in terms for a language')
+      .addDropdown((dropdown) => {
+        dropdown.addOption('all', 'English + Korean');
+        for (const [id, name] of Object.entries(GENERIC_TERM_LANGUAGE_NAMES)) {
+          dropdown.addOption(id, name);
+        }
+        dropdown
+          .setValue(language)
+          .onChange((value) => {
+            language = value as GenericTermLanguage | 'all';
+          });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Restore')
+          .onClick(async () => {
+            scoring.genericTerms = language === 'all'
+              ? [...DEFAULT_GENERIC_TERMS.en, ...DEFAULT_GENERIC_TERMS.ko]
+              : [...DEFAULT_GENERIC_TERMS[language]];
+            await this.plugin.saveSettings();
+            this.containerEl.empty();
+            this.plugin.settingTab?.display();
+          });
+      });
+
+    new Setting(this.containerEl)
+      .setName('Learn From Frequent Tags')
+      .setDesc('Also treat non-domain tags used on many notes (e.g. #inbox, #permanent) as generic terms')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(scoring.learnGenericTerms)
+          .onChange(async (value) => {
+            scoring.learnGenericTerms = value;
+            await this.plugin.saveSettings();
+            this.containerEl.empty();
+            this.plugin.settingTab?.display();
+          });
+      });
+
+    if (scoring.learnGenericTerms) {
+      const desc = 'Share of notes a tag must appear on to count as generic';
+      const setting = new Setting(this.containerEl)
+        .setName('Tag Frequency Threshold')
+        .setDesc(desc)
+        .addSlider((slider) => {
+          slider
+            .setLimits(0.05, 0.5, 0.05)
+            .setValue(scoring.learnedTermMinShare)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              scoring.learnedTermMinShare = value;
+              const errors = validateGenericTermSettings(scoring);
+              setting.settingEl.toggleClass('cdc-input-invalid', errors.length > 0);
+              setting.setDesc(errors.length > 0 ? errors[0] : desc);
+              if (errors.length === 0) {
+                await this.plugin.saveSettings();
+              }
+            });
+        });
+    }
+  }
+
+  /**
+   * 프로필 숫자 값 슬라이더 추가 (변경 시 custom 프리셋으로 전환)
+   */
+  private addSlider(
+    name: string,
+    desc: string,
+    key: NumericProfileKey,
+    min: number,
+    max: number,
+    step: number
+  ): void {
+    const scoring = this.plugin.settings.scoring;
+
+    const setting = new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addSlider((slider) => {
+        slider
+          .setLimits(min, max, step)
+          .setValue(scoring.profile[key])
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            scoring.profile[key] = value;
+            scoring.preset = 'custom';
+            const errors = validateScoringProfile(scoring.profile);
+            setting.settingEl.toggleClass('cdc-input-invalid', errors.length > 0);
+            setting.setDesc(errors.length > 0 ? errors[0] : desc);
+            if (errors.length === 0) {
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+  }
+}
@@ -7,6 +7,8 @@ import { PluginSettingTab, App, Setting } from 'obsidian';
 import type CrossDomainConnectorPlugin from '../../main';
 import { AISection } from './sections/ai-section';
 import { DiscoverySection } from './sections/discovery-section';
+import { EmbeddingsSection } from './sections/embeddings-section';
+import { ScoringSection } from './sections/scoring-section';
 import { AdvancedSection } from './sections/advanced-section';
 
 export class CDCSettingTab extends PluginSettingTab {
@@ -29,6 +31,12 @@ export class CDCSettingTab extends PluginSettingTab {
     // Discovery Section
     new DiscoverySection(containerEl, this.plugin).render();
 
+    // Scoring Section
+    new ScoringSection(containerEl, this.plugin).render();
+
+    // Embedding Generation Section
+    new EmbeddingsSection(containerEl, this.plugin).render();
+
     // Advanced Section
     new AdvancedSection(containerEl, this.plugin).render();
   }